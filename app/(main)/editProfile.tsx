@@ -14,7 +14,10 @@ import Icon from "../../assets/icons"
 import Input from "../../components/Input"
 import { useUser, useAppDispatch } from "../../redux/hooks"
 import { updateUserProfile } from "../../redux/session/sessionSlice"
-import ApiService from "../../services"
+import { userUpdated } from "../../redux/users/usersSlice"
+import userApi from "../../services/userApi"
+import { isApiError, isOfflineError } from "../../services/apiErrors"
+import ErrorMessage from "../../services/errorMessages"
 import type { User } from "../../redux/session/sessionSlice"
 
 // Interface for form data
@@ -32,6 +35,7 @@ const EditProfile = () => {
   const router = useRouter()
 
   const [loading, setLoading] = useState<boolean>(false)
+  const [submitError, setSubmitError] = useState<unknown>(null)
   const [formData, setFormData] = useState<FormData>({
     name: "",
     phoneNumber: "",
@@ -76,6 +80,8 @@ const EditProfile = () => {
   const onSubmit = async (): Promise<void> => {
     const { name, phoneNumber, address, bio } = formData
 
+    if (!user) return
+
     // Validate form
     if (!name) {
       Alert.alert("Profile", "Please enter your name")
@@ -83,6 +89,7 @@ const EditProfile = () => {
     }
 
     setLoading(true)
+    setSubmitError(null)
 
     try {
       // Prepare form data
@@ -94,37 +101,39 @@ const EditProfile = () => {
       }
 
       // Handle image upload if it's a new image
-      if (formData.image && formData.image !== user?.avatar) {
-        // Create a form data object for the image
-        const imageFormData = new FormData()
-        imageFormData.append("avatar", {
+      if (formData.image && formData.image !== user.avatar) {
+        // Upload the image
+        await userApi.uploadAvatar({
           uri: formData.image,
           type: "image/jpeg",
           name: "profile-image.jpg",
         } as unknown as Blob)
 
-        // Upload the image
-        await ApiService.post("/users/upload-avatar", imageFormData, {
-          headers: {
-            "Content-Type": "multipart/form-data",
-          },
-        })
-
         // Add the image URL to userData
         userData.avatar = formData.image
       }
 
       // Update user profile
-      await ApiService.put(`/users/${user?.id}`, { user: userData })
+      await userApi.update(user.id, { user: userData })
 
-      // Update Redux state
+      // Update Redux state (the users cache refreshes the name and avatar on posts and comments)
       dispatch(updateUserProfile(userData))
+      dispatch(userUpdated({ id: user.id, name, avatar: userData.avatar || user.avatar }))
 
       Alert.alert("Success", "Profile updated successfully")
       router.back()
     } catch (error) {
-      console.error("Error updating profile:", error)
-      Alert.alert("Error", "Failed to update profile")
+      if (isApiError(error, "validation")) {
+        // Shown above the form
+        setSubmitError(error)
+      } else if (isApiError(error, "auth")) {
+        Alert.alert("Profile", "Your session has expired. Please log in again.")
+      } else if (isOfflineError(error)) {
+        Alert.alert("Profile", "You're offline. Please try again once you're connected.")
+      } else {
+        console.error("Error updating profile:", error)
+        Alert.alert("Error", "Failed to update profile")
+      }
     } finally {
       setLoading(false)
     }
@@ -151,6 +160,8 @@ const EditProfile = () => {
 
             <Text style={{ fontSize: hp(1.5), color: theme.colors.text }}>Please fill your profile details</Text>
 
+            <ErrorMessage error={submitError} />
+
             <Input
               icon={<Icon name="user" size={26} />}
               placeholder="Enter your name"
@@ -0,0 +1,127 @@
+"use client"
+
+import { View, Text, StyleSheet, FlatList, Alert } from "react-native"
+import { useLocalSearchParams, useRouter } from "expo-router"
+import ScreenWrapper from "../../components/ScreenWrapper"
+import Header from "../../components/Header"
+import PostCard from "../../components/PostCard"
+import Loading from "../../components/Loading"
+import { hp, wp } from "../../helpers/common"
+import { theme } from "../../constants/theme"
+import { useAppDispatch, usePosts, useUser } from "../../redux/hooks"
+import { postsReceived } from "../../redux/posts/postsSlice"
+import searchApi, { type SearchResponse } from "../../services/searchApi"
+import micropostApi from "../../services/micropostApi"
+import { isOfflineError } from "../../services/apiErrors"
+import { usePagination } from "../../hooks/usePagination"
+import { useFeedVideoAutoplay } from "../../hooks/useFeedVideoAutoplay"
+
+// Posts using a hashtag, newest first
+const HashtagFeed = () => {
+  const { tag } = useLocalSearchParams<{ tag: string }>()
+  const router = useRouter()
+  const user = useUser()
+  const dispatch = useAppDispatch()
+
+  // The list only keeps post IDs; the posts themselves live in the shared entity cache
+  const {
+    items: postIds,
+    hasMore,
+    loading,
+    refreshing,
+    loadingMore,
+    refresh,
+    loadMore,
+  } = usePagination<number, SearchResponse, string>({
+    async fetchPage({ cursor, signal }) {
+      const response = await searchApi.search(`#${tag}`, { types: ["posts"], cursor, signal })
+      dispatch(postsReceived((response.posts?.items || []).map((post) => micropostApi.transformForPostCard(post))))
+      return response
+    },
+    getItems: (response) => (response.posts?.items || []).map((post) => post.id),
+    getKey: (id) => id,
+    strategy: "cursor",
+    getNextCursor: (response) => response.posts?.next_cursor,
+    onError: (error) => {
+      if (isOfflineError(error)) {
+        console.warn("Hashtag feed unavailable offline:", error)
+      } else {
+        console.error("Error fetching hashtag feed:", error)
+        Alert.alert("Hashtag", "Failed to load posts")
+      }
+    },
+    resetOn: tag,
+    enabled: Boolean(tag),
+  })
+  const microposts = usePosts(postIds)
+  const { playingId, viewabilityConfigCallbackPairs } = useFeedVideoAutoplay()
+
+  return (
+    <ScreenWrapper bg="white" imageCache="memory-disk">
+      <View style={styles.container}>
+        <Header title={`#${tag}`} />
+
+        <FlatList
+          data={microposts}
+          showsVerticalScrollIndicator={false}
+          contentContainerStyle={styles.listStyle}
+          keyExtractor={(item) => item.id.toString()}
+          renderItem={({ item }) => (
+            <PostCard item={item} currentUser={user} router={router} playVideo={item.id === playingId} />
+          )}
+          extraData={playingId}
+          viewabilityConfigCallbackPairs={viewabilityConfigCallbackPairs}
+          onEndReached={loadMore}
+          onRefresh={refresh}
+          refreshing={refreshing}
+          onEndReachedThreshold={0.5}
+          ListEmptyComponent={
+            loading ? (
+              <View style={styles.centerContainer}>
+                <Loading />
+              </View>
+            ) : (
+              <Text style={styles.noPosts}>No posts with #{tag} yet</Text>
+            )
+          }
+          ListFooterComponent={
+            loadingMore ? (
+              <View style={{ marginVertical: 30 }}>
+                <Loading />
+              </View>
+            ) : !loading && !hasMore && microposts.length > 0 ? (
+              <View style={{ marginVertical: 30 }}>
+                <Text style={styles.noPosts}>No more posts</Text>
+              </View>
+            ) : null
+          }
+        />
+      </View>
+    </ScreenWrapper>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingHorizontal: wp(4),
+  },
+  listStyle: {
+    paddingVertical: 20,
+    minHeight: "100%",
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    marginTop: 50,
+  },
+  noPosts: {
+    fontSize: hp(2),
+    textAlign: "center",
+    color: theme.colors.text,
+    marginTop: 30,
+  },
+})
+
+export default HashtagFeed
@@ -1,137 +1,158 @@
-import { View, Text, StyleSheet, Pressable, FlatList } from "react-native"
-import { useEffect, useState, useCallback, useRef } from "react"
+import { View, Text, StyleSheet, Pressable, FlatList, Alert } from "react-native"
+import { useEffect, useCallback, useRef } from "react"
 import ScreenWrapper from "../../components/ScreenWrapper"
 import { useRouter } from "expo-router"
 import { theme } from "../../constants/theme"
 import Icon from "../../assets/icons"
 import { hp, wp } from "../../helpers/common"
-import PostCard from "../../components/PostCard"
+import PostCard, { type PendingPost } from "../../components/PostCard"
 import Loading from "../../components/Loading"
 import Avatar from "../../components/Avatar"
-import { useUser } from "../../redux/hooks"
-import micropostApi, { type Micropost } from "../../services/micropostApi"
-
-interface Metadata {
-  followers: number
-  following: number
-  micropost: number
-  total_count: number
-}
-
-const POSTS_PER_PAGE = 5 // Fixed page size from backend
+import { useAppDispatch, useAppSelector, usePosts, useUser } from "../../redux/hooks"
+import { feedFirstPageReceived, feedStatsReceived, newPostsShown, selectFeed } from "../../redux/feed/feedSlice"
+import { postsReceived } from "../../redux/posts/postsSlice"
+import {
+  selectUnreadNotificationCount,
+  unreadCountCleared,
+  unreadCountReceived,
+} from "../../redux/notifications/notificationsSlice"
+import micropostApi, { FEED_PAGE_SIZE, type ListResponse, type Micropost } from "../../services/micropostApi"
+import { getBackend } from "../../services/backend"
+import queryCache from "../../services/queryCache"
+import { isApiError, isOfflineError } from "../../services/apiErrors"
+import { useOutbox } from "../../hooks/useOutbox"
+import { usePagination } from "../../hooks/usePagination"
+import { useFeedPolling } from "../../hooks/useFeedPolling"
+import { useFeedVideoAutoplay } from "../../hooks/useFeedVideoAutoplay"
+
+// A post, or the marker of posts missing after it
+type FeedItem = Micropost | { gapAfter: number }
 
 const HomeScreen = () => {
   const user = useUser()
   const router = useRouter()
-
-  // Local state for data
-  const [microposts, setMicroposts] = useState<Micropost[]>([])
-  const [metadata, setMetadata] = useState<Metadata | null>(null)
-  const [loading, setLoading] = useState<boolean>(false)
-  const [refreshing, setRefreshing] = useState<boolean>(false)
-  const [notificationCount, setNotificationCount] = useState<number>(0)
-
-  // Refs to track request state and pagination
-  const isRequestInProgress = useRef<boolean>(false)
-  const currentPage = useRef<number>(1)
-  const totalPages = useRef<number>(1)
-  const loadedPostIds = useRef<Set<number>>(new Set())
-
-  // Calculate total pages based on total_count
-  const calculateTotalPages = (totalCount: number): number => {
-    return Math.ceil(totalCount / POSTS_PER_PAGE)
-  }
-
-  // Fetch microposts with optimized logic
-  const fetchMicroposts = useCallback(
-    async (page: number, isRefresh = false) => {
-      // Prevent duplicate requests
-      if (isRequestInProgress.current) return
-
-      try {
-        isRequestInProgress.current = true
-
-        if (isRefresh) {
-          setRefreshing(true)
-        } else if (!refreshing) {
-          setLoading(true)
-        }
-
-        // Fetch posts for the requested page
-        const response = await micropostApi.getAll({ page })
-
-        // Transform microposts to match PostCard format
-        const transformedMicroposts = response.feed_items.map((micropost) =>
-          micropostApi.transformForPostCard(micropost),
-        )
-
-        // Update metadata
-        setMetadata({
+  const dispatch = useAppDispatch()
+
+  // The feed only keeps post IDs; the posts themselves live in the shared entity cache.
+  // It starts from the first page saved by the previous run so it shows up immediately.
+  const feed = useAppSelector(selectFeed)
+  const {
+    items: postIds,
+    gaps,
+    fillingGap,
+    hasMore,
+    loading,
+    refreshing,
+    loadingMore,
+    refresh,
+    loadMore: handleLoadMore,
+    fillGap: handleFillGap,
+    prependItems,
+    removeItem,
+  } = usePagination<number, ListResponse<Micropost>, number>({
+    // Newest first: a post's cursor asks for the posts older than it
+    strategy: "cursor",
+    async fetchPage({ cursor, until }) {
+      const response = await getBackend().feed.list({ before: cursor, after: until, limit: FEED_PAGE_SIZE })
+      // A server that ignores the cursors still can't put posts on the wrong side of them
+      const items = response.feed_items.filter(
+        ({ id }) => (cursor === undefined || id < cursor) && (until === undefined || id > until),
+      )
+      // Share the posts with every other screen
+      dispatch(postsReceived(items.map((micropost) => micropostApi.transformForPostCard(micropost))))
+      return { ...response, feed_items: items }
+    },
+    getItems: (response) => response.feed_items.map((micropost) => micropost.id),
+    getKey: (id) => id,
+    getCursor: (id) => id,
+    pageSize: FEED_PAGE_SIZE,
+    // Pull to refresh only fetches the posts newer than the top one
+    refreshAbove: true,
+    initialItems: feed.firstPageIds,
+    onSuccess: (response) =>
+      dispatch(
+        feedStatsReceived({
           followers: response.followers,
           following: response.following,
           micropost: response.micropost,
-          total_count: response.total_count,
-        })
-
-        // Update total pages
-        totalPages.current = calculateTotalPages(response.total_count)
-
-        if (isRefresh) {
-          // For refresh: Find new posts and add them to the beginning
-          const newPosts = transformedMicroposts.filter((post) => !loadedPostIds.current.has(post.id))
-
-          if (newPosts.length > 0) {
-            // Add new posts to the beginning
-            setMicroposts((prevPosts) => [...newPosts, ...prevPosts])
-
-            // Update loaded post IDs
-            newPosts.forEach((post) => loadedPostIds.current.add(post.id))
-
-            // Recalculate current page based on total loaded posts
-            currentPage.current = Math.ceil((newPosts.length + microposts.length) / POSTS_PER_PAGE)
-          }
-        } else {
-          // For initial load or load more: Append posts that aren't already loaded
-          const postsToAdd = transformedMicroposts.filter((post) => !loadedPostIds.current.has(post.id))
-
-          if (postsToAdd.length > 0) {
-            setMicroposts((prevPosts) => [...prevPosts, ...postsToAdd])
-
-            // Update loaded post IDs
-            postsToAdd.forEach((post) => loadedPostIds.current.add(post.id))
-
-            // Update current page
-            currentPage.current = page
-          }
-        }
-      } catch (error) {
+        }),
+      ),
+    onError: (error) => {
+      if (isOfflineError(error)) {
+        // Keep showing the cached posts; a pull to refresh retries
+        console.warn("Feed unavailable offline:", error)
+      } else if (isApiError(error, "auth")) {
+        // The session could not be refreshed; the store logs the user out
+        console.warn("Feed request unauthorized:", error)
+      } else {
         console.error("Error fetching microposts:", error)
-      } finally {
-        isRequestInProgress.current = false
-        setLoading(false)
-        setRefreshing(false)
+        Alert.alert("Home", isApiError(error) ? error.message : "Failed to load posts")
       }
     },
-    [microposts.length],
+  })
+  const microposts = usePosts(postIds)
+  const notificationCount = useAppSelector(selectUnreadNotificationCount)
+  const { entries: outboxEntries } = useOutbox()
+  const listRef = useRef<FlatList<FeedItem>>(null)
+  const { playingId, viewabilityConfigCallbackPairs } = useFeedVideoAutoplay()
+
+  // Check for newer posts in the background; they wait behind the "new posts" banner
+  useFeedPolling()
+
+  // Keep the cold start cache, which polling checks against, in step with the top of the feed
+  useEffect(() => {
+    dispatch(feedFirstPageReceived(postIds.slice(0, FEED_PAGE_SIZE)))
+  }, [dispatch, postIds])
+
+  // Posts deleted on other screens leave the entity cache: drop them here too, with their gaps
+  useEffect(() => {
+    if (microposts.length === postIds.length) return
+    const shown = new Set(microposts.map((post) => post.id))
+    postIds.filter((id) => !shown.has(id)).forEach(removeItem)
+  }, [microposts, postIds, removeItem])
+
+  // Posts written offline, shown in a "sending" state until the outbox replays them
+  const pendingPosts = outboxEntries.flatMap((entry): PendingPost[] =>
+    entry.type === "createPost"
+      ? [
+          {
+            id: entry.id,
+            content: entry.content,
+            format: entry.format,
+            attachments: (entry.attachments || []).map((attachment, index) => ({
+              id: index,
+              url: attachment.uri,
+              type: attachment.type,
+              alt: attachment.alt,
+              width: attachment.width,
+              height: attachment.height,
+              blurhash: attachment.blurhash,
+              thumbnail: attachment.thumbnail,
+              duration: attachment.duration,
+            })),
+            file: entry.file?.uri,
+            user: user ? { id: user.id, name: user.name, avatar: user.avatar } : undefined,
+            pending: true,
+          },
+        ]
+      : [],
   )
 
   // Fetch notification count
   const fetchNotificationCount = useCallback(async () => {
     try {
-      const response = await micropostApi.getUnreadCount()
-      setNotificationCount(response || 0)
+      const count = await getBackend().notifications.unreadCount()
+      dispatch(unreadCountReceived(count))
     } catch (error) {
-      console.error("Error fetching notification count:", error)
+      // The badge keeps its cached count until the next successful fetch
+      if (!isOfflineError(error)) {
+        console.error("Error fetching notification count:", error)
+      }
     }
-  }, [])
+  }, [dispatch])
 
   // Initial data loading
   useEffect(() => {
-    // Reset state on component mount
-    loadedPostIds.current = new Set()
-    currentPage.current = 1
-
-    fetchMicroposts(1)
     fetchNotificationCount()
 
     // Set up polling for notifications (with a longer interval to reduce server load)
@@ -142,29 +163,28 @@ const HomeScreen = () => {
     return () => {
       clearInterval(notificationInterval)
     }
-  }, [fetchMicroposts, fetchNotificationCount])
+  }, [fetchNotificationCount])
 
-  // Handle refresh (pull to refresh)
+  // Pull to refresh skips the cached pages
   const handleRefresh = useCallback(() => {
-    // Only refresh if we're not already loading
-    if (!isRequestInProgress.current) {
-      fetchMicroposts(1, true)
-    }
-  }, [fetchMicroposts])
-
-  // Load more posts when reaching the end
-  const handleLoadMore = useCallback(() => {
-    // Only load more if:
-    // 1. We're not already loading
-    // 2. We haven't reached the last page
-    // 3. We're not refreshing
-    if (!isRequestInProgress.current && currentPage.current < totalPages.current && !refreshing) {
-      fetchMicroposts(currentPage.current + 1)
-    }
-  }, [fetchMicroposts, refreshing])
+    queryCache.invalidate(["microposts.feed"])
+    refresh()
+  }, [refresh])
+
+  // Show the posts found by polling and scroll up to them
+  const handleShowNewPosts = useCallback(() => {
+    prependItems(feed.newPostIds, !feed.moreNewPosts)
+    dispatch(newPostsShown())
+    listRef.current?.scrollToOffset({ offset: 0, animated: true })
+  }, [dispatch, prependItems, feed.newPostIds, feed.moreNewPosts])
+
+  // Posts with a "load missing posts" row after each gap
+  const feedItems: FeedItem[] = microposts.flatMap((post) =>
+    gaps.includes(post.id) ? [post, { gapAfter: post.id }] : [post],
+  )
 
   return (
-    <ScreenWrapper bg="white">
+    <ScreenWrapper bg="white" imageCache="memory-disk">
       <View style={styles.container}>
         {/* header */}
         <View style={styles.header}>
@@ -174,7 +194,7 @@ const HomeScreen = () => {
           <View style={styles.icons}>
             <Pressable
               onPress={() => {
-                setNotificationCount(0)
+                dispatch(unreadCountCleared())
                 router.push("notifications")
               }}
             >
@@ -195,18 +215,18 @@ const HomeScreen = () => {
         </View>
 
         {/* User stats */}
-        {metadata && (
+        {feed.stats && (
           <View style={styles.statsContainer}>
             <View style={styles.statItem}>
-              <Text style={styles.statValue}>{metadata.micropost}</Text>
+              <Text style={styles.statValue}>{feed.stats.micropost}</Text>
               <Text style={styles.statLabel}>Posts</Text>
             </View>
             <View style={styles.statItem}>
-              <Text style={styles.statValue}>{metadata.followers}</Text>
+              <Text style={styles.statValue}>{feed.stats.followers}</Text>
               <Text style={styles.statLabel}>Followers</Text>
             </View>
             <View style={styles.statItem}>
-              <Text style={styles.statValue}>{metadata.following}</Text>
+              <Text style={styles.statValue}>{feed.stats.following}</Text>
               <Text style={styles.statLabel}>Following</Text>
             </View>
           </View>
@@ -214,11 +234,35 @@ const HomeScreen = () => {
 
         {/* microposts */}
         <FlatList
-          data={microposts}
+          ref={listRef}
+          data={feedItems}
           showsVerticalScrollIndicator={false}
           contentContainerStyle={styles.listStyle}
-          keyExtractor={(item) => item.id.toString()}
-          renderItem={({ item }) => <PostCard item={item} currentUser={user} router={router} />}
+          keyExtractor={(item) => ("gapAfter" in item ? `gap-${item.gapAfter}` : item.id.toString())}
+          renderItem={({ item }) =>
+            "gapAfter" in item ? (
+              <Pressable style={styles.gap} onPress={() => handleFillGap(item.gapAfter)}>
+                {fillingGap === item.gapAfter ? (
+                  <Loading size="small" />
+                ) : (
+                  <Text style={styles.gapText}>Load missing posts</Text>
+                )}
+              </Pressable>
+            ) : (
+              <PostCard item={item} currentUser={user} router={router} playVideo={item.id === playingId} />
+            )
+          }
+          extraData={playingId}
+          viewabilityConfigCallbackPairs={viewabilityConfigCallbackPairs}
+          ListHeaderComponent={
+            pendingPosts.length > 0 ? (
+              <View>
+                {pendingPosts.map((post) => (
+                  <PostCard key={post.id} item={post} currentUser={user} router={router} />
+                ))}
+              </View>
+            ) : null
+          }
           onEndReached={handleLoadMore}
           onRefresh={handleRefresh}
           refreshing={refreshing}
@@ -227,18 +271,31 @@ const HomeScreen = () => {
           maxToRenderPerBatch={10} // Optimize rendering
           windowSize={5} // Optimize memory usage
           removeClippedSubviews={true} // Improve performance
+          // Posts inserted above keep the visible ones in place unless the list is scrolled to the top
+          maintainVisibleContentPosition={{ minIndexForVisible: 0 }}
           ListFooterComponent={
-            loading && !refreshing ? (
+            loading || loadingMore ? (
               <View style={{ marginVertical: microposts.length === 0 ? 200 : 30 }}>
                 <Loading />
               </View>
-            ) : !loading && currentPage.current >= totalPages.current && microposts.length > 0 ? (
+            ) : !hasMore && microposts.length > 0 ? (
               <View style={{ marginVertical: 30 }}>
                 <Text style={styles.noPosts}>No more posts</Text>
               </View>
             ) : null
           }
         />
+
+        {/* new posts banner */}
+        {feed.newPostIds.length > 0 && (
+          <Pressable style={styles.newPosts} onPress={handleShowNewPosts}>
+            <Icon name="arrowLeft" size={hp(2)} strokeWidth={2.5} color="white" style={styles.newPostsIcon} />
+            <Text style={styles.newPostsText}>
+              {feed.newPostIds.length}
+              {feed.moreNewPosts ? "+" : ""} new {feed.newPostIds.length === 1 && !feed.moreNewPosts ? "post" : "posts"}
+            </Text>
+          </Pressable>
+        )}
       </View>
     </ScreenWrapper>
   )
@@ -304,6 +361,39 @@ const styles = StyleSheet.create({
     paddingTop: 20,
     paddingHorizontal: wp(4),
   },
+  gap: {
+    alignItems: "center",
+    paddingVertical: 12,
+    marginBottom: 15,
+    borderRadius: theme.radius.xl,
+    borderWidth: 0.5,
+    borderColor: theme.colors.gray,
+  },
+  gapText: {
+    fontSize: hp(1.8),
+    fontWeight: theme.fonts.semibold,
+    color: theme.colors.primary,
+  },
+  newPosts: {
+    position: "absolute",
+    top: hp(13),
+    alignSelf: "center",
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: theme.radius.xl,
+    backgroundColor: theme.colors.primary,
+  },
+  newPostsIcon: {
+    transform: [{ rotate: "90deg" }],
+  },
+  newPostsText: {
+    color: "white",
+    fontSize: hp(1.7),
+    fontWeight: theme.fonts.semibold,
+  },
   noPosts: {
     fontSize: hp(2),
     textAlign: "center",
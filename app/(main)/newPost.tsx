@@ -1,46 +1,100 @@
 "use client"
 
-import { View, Text, StyleSheet, ScrollView, Pressable, Alert, TouchableOpacity } from "react-native"
+import { View, Text, StyleSheet, ScrollView, Pressable, Alert, TouchableOpacity, TextInput } from "react-native"
 import { useEffect, useRef, useState } from "react"
 import ScreenWrapper from "../../components/ScreenWrapper"
-import { hp, wp } from "../../helpers/common"
+import { formatDuration, hp, wp } from "../../helpers/common"
 import { theme } from "../../constants/theme"
 import { Image } from "expo-image"
 import RichTextEditor from "../../components/RichTextEditor"
+import PostBody from "../../components/PostBody"
 import Button from "../../components/Button"
 import * as ImagePicker from "expo-image-picker"
-import { Video, ResizeMode } from "expo-av"
 import Header from "../../components/Header"
 import { useLocalSearchParams, useRouter } from "expo-router"
 import Avatar from "../../components/Avatar"
 import Icon from "../../assets/icons"
-import micropostApi from "../../services/micropostApi"
+import { getBackend } from "../../services/backend"
+import outbox from "../../services/outbox"
+import mediaService from "../../services/mediaService"
+import {
+  MAX_ATTACHMENTS,
+  type AttachmentInput,
+  type AttachmentMeta,
+  type AttachmentType,
+} from "../../services/micropostApi"
+import { isApiError, isOfflineError } from "../../services/apiErrors"
 import { useUser } from "../../redux/hooks"
+import { mentionedUserIds } from "../../helpers/postContent"
+import { htmlToText, sanitizeHtml } from "../../helpers/html"
+import { markdownToHtml } from "../../helpers/markdown"
+import { postBodyHtml, type PostFormat } from "../../helpers/postFormat"
+import { useUploadProgress } from "../../hooks/useUploadProgress"
 
-interface FileObject {
+// A file of the post being written: picked from the library, or already on the post when editing
+interface DraftAttachment extends AttachmentMeta {
+  key: string
   uri: string
-  type?: string
+  type: AttachmentType
+  alt: string
+  id?: number
 }
 
+// Posts are composed in the rich text editor or written in Markdown
+type ComposeFormat = "html" | "markdown"
+
+const COMPOSE_FORMATS: Array<{ format: ComposeFormat; label: string }> = [
+  { format: "html", label: "Rich text" },
+  { format: "markdown", label: "Markdown" },
+]
+
 const NewPost = () => {
   const user = useUser()
   const params = useLocalSearchParams()
   const postId = params?.id ? Number(params.id) : null
 
-  const [file, setFile] = useState<FileObject | string | null>(null)
+  const [attachments, setAttachments] = useState<DraftAttachment[]>([])
+  const pickedCount = useRef(0)
   const bodyRef = useRef<string>("")
+  const [format, setFormat] = useState<ComposeFormat>("html")
+  const [markdown, setMarkdown] = useState<string>("")
+  // The edited post is plain text: it stays plain unless the user picks a format
+  const [plainText, setPlainText] = useState<boolean>(false)
   const [loading, setLoading] = useState<boolean>(false)
+  // Picked images are going through the media pipeline
+  const [preparing, setPreparing] = useState<boolean>(false)
   const editorRef = useRef<any>(null)
   const router = useRouter()
+  const upload = useUploadProgress(
+    attachments.filter((attachment) => attachment.id === undefined).map((item) => item.uri),
+  )
 
   // Fetch post data if editing
   useEffect(() => {
     const fetchPostData = async () => {
       if (postId) {
         try {
-          const postData = await micropostApi.getById(postId)
+          const postData = await getBackend().posts.get(postId)
+          setAttachments(
+            (postData.attachments || []).map((attachment) => ({
+              key: `saved-${attachment.id}`,
+              uri: attachment.url,
+              type: attachment.type,
+              alt: attachment.alt || "",
+              id: attachment.id,
+              thumbnail: attachment.type === "video" ? attachment.thumbnail_url : undefined,
+              duration: attachment.duration,
+            })),
+          )
+
+          // Posts written as text are edited as Markdown, which shows plain text as it is
+          if (postData.format === "markdown" || postData.format === "plain") {
+            setMarkdown(postData.content || "")
+            setFormat("markdown")
+            setPlainText(postData.format === "plain")
+            return
+          }
           bodyRef.current = postData.content || ""
-          setFile(postData.image || null)
 
           // Set content in editor after a short delay to ensure it's mounted
           setTimeout(() => {
@@ -50,99 +104,177 @@ const NewPost = () => {
           }, 300)
         } catch (error) {
           console.error("Error fetching post data:", error)
-          Alert.alert("Error", "Failed to load post data")
+          if (isApiError(error, "notFound")) {
+            Alert.alert("Error", "This post has been deleted.")
+            router.back()
+          } else {
+            Alert.alert("Error", "Failed to load post data")
+          }
         }
       }
     }
 
     fetchPostData()
-  }, [postId])
+  }, [postId, router])
 
-  // Pick image from library
+  // Pick images or videos from the library, up to the attachment limit
   const onPick = async (isImage = true) => {
-    const mediaConfig = {
-      mediaTypes: isImage ? ImagePicker.MediaTypeOptions.Images : ImagePicker.MediaTypeOptions.Videos,
-      allowsEditing: true,
-      aspect: [4, 3],
-      quality: 0.7,
+    const remaining = MAX_ATTACHMENTS - attachments.length
+    if (remaining <= 0) {
+      Alert.alert("Post", `A post can have up to ${MAX_ATTACHMENTS} photos and videos.`)
+      return
     }
 
     try {
-      const result = await ImagePicker.launchImageLibraryAsync(mediaConfig)
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: isImage ? ImagePicker.MediaTypeOptions.Images : ImagePicker.MediaTypeOptions.Videos,
+        allowsMultipleSelection: true,
+        selectionLimit: remaining,
+        // Images are compressed once, by the media pipeline, which needs the EXIF orientation
+        quality: 1,
+        exif: isImage,
+      })
 
       if (!result.canceled && result.assets && result.assets.length > 0) {
-        setFile(result.assets[0])
+        setPreparing(true)
+        const picked: DraftAttachment[] = []
+        // One at a time: each image is decoded and encoded again, each video loaded for its poster frame
+        for (const asset of result.assets.slice(0, remaining)) {
+          const key = `picked-${pickedCount.current++}`
+          if (asset.type === "video") {
+            const video = await mediaService.prepareVideo(asset)
+            const { uri, width, height, blurhash, thumbnail, duration } = video
+            picked.push({ key, uri, type: "video", alt: "", width, height, blurhash, thumbnail, duration })
+          } else {
+            const image = await mediaService.prepareImage(asset)
+            const { uri, width, height, blurhash, thumbnail } = image
+            picked.push({ key, uri, type: "image", alt: "", width, height, blurhash, thumbnail })
+          }
+        }
+        setAttachments((current) => [...current, ...picked].slice(0, MAX_ATTACHMENTS))
       }
     } catch (error) {
       console.error("Error picking media:", error)
       Alert.alert("Error", "Failed to select media")
+    } finally {
+      setPreparing(false)
+    }
+  }
+
+  const updateAttachment = (key: string, changes: Partial<DraftAttachment>) =>
+    setAttachments((current) =>
+      current.map((attachment) => (attachment.key === key ? { ...attachment, ...changes } : attachment)),
+    )
+
+  const removeAttachment = (key: string) =>
+    setAttachments((current) => current.filter((attachment) => attachment.key !== key))
+
+  // Move an attachment one place earlier (-1) or later (1)
+  const moveAttachment = (index: number, offset: -1 | 1) =>
+    setAttachments((current) => {
+      const target = index + offset
+      if (target < 0 || target >= current.length) return current
+
+      const next = [...current]
+      ;[next[index], next[target]] = [next[target], next[index]]
+      return next
+    })
+
+  // Switch between the rich text editor and Markdown, carrying the text over
+  const changeFormat = (next: ComposeFormat) => {
+    if (next === format) return
+    setPlainText(false)
+
+    if (next === "markdown") {
+      if (!markdown.trim()) setMarkdown(htmlToText(bodyRef.current))
+    } else if (markdown.trim()) {
+      // The editor mounts with the rendered Markdown
+      bodyRef.current = sanitizeHtml(markdownToHtml(markdown))
     }
+    setFormat(next)
   }
 
   // Submit post
   const onSubmit = async () => {
+    // Only the allowed formatting is stored, whatever the editor produced; Markdown is stored as written
+    const content = format === "markdown" ? markdown.trim() : sanitizeHtml(bodyRef.current)
+    const savedFormat: PostFormat = plainText ? "plain" : format
+
     // Validate data
-    if (!bodyRef.current && !file) {
+    if (!content && attachments.length === 0) {
       Alert.alert("Post", "Please choose an image or add post body!")
       return
     }
 
     setLoading(true)
+    const localFiles = attachments.map(({ uri, type, alt, width, height, blurhash, thumbnail, duration }) => ({
+      uri,
+      type,
+      alt: alt.trim() || undefined,
+      width,
+      height,
+      blurhash,
+      thumbnail,
+      duration,
+    }))
 
     try {
-      let fileBlob: Blob | null = null
-      if (file && typeof file === "object" && file.uri) {
-        fileBlob = await (await fetch(file.uri)).blob()
-      }
-
       if (postId) {
+        // Attachments the post has are kept by ID; new ones are uploaded first
+        const picked = localFiles.filter((_, index) => attachments[index].id === undefined)
+        const uploaded = await mediaService.uploadAttachments(picked)
+        const attachmentInputs = attachments.map(({ id, alt }): AttachmentInput => {
+          if (id !== undefined) return { id, alt: alt.trim() || undefined }
+          return uploaded.shift() as AttachmentInput
+        })
+
         // Update existing post
-        await micropostApi.update(postId, {
-          content: bodyRef.current,
-          image: fileBlob,
+        await getBackend().posts.update(postId, {
+          content,
+          format: savedFormat,
+          attachments: attachmentInputs,
         })
+        await mediaService.forgetUploads(picked)
       } else {
-        // Create new post
-        await micropostApi.create({
-          content: bodyRef.current,
-          image: fileBlob,
+        // Create new post, or keep it in the outbox until the device is back online
+        const { queued } = await outbox.perform({
+          type: "createPost",
+          content,
+          format,
+          attachments: localFiles,
+          // Mentioned users get a notification
+          mentionIds: mentionedUserIds(postBodyHtml(content, format)),
         })
+
+        if (queued) {
+          Alert.alert("Post", "You're offline. Your post will be sent when the connection is back.")
+        }
       }
 
       // Reset form and navigate back
-      setFile(null)
+      setAttachments([])
       bodyRef.current = ""
+      setMarkdown("")
       if (editorRef.current?.setContentHTML) {
         editorRef.current.setContentHTML("")
       }
       router.back()
     } catch (error) {
       console.error("Error submitting post:", error)
-      Alert.alert("Error", "Failed to submit post. Please try again.")
+      if (isApiError(error, "validation")) {
+        Alert.alert("Post", Object.values(error.errors).flat().join("\n") || error.message)
+      } else if (isApiError(error, "notFound")) {
+        Alert.alert("Post", "This post has been deleted.")
+      } else if (isOfflineError(error)) {
+        Alert.alert("Post", "You're offline. Please try again once you're connected.")
+      } else {
+        Alert.alert("Error", "Failed to submit post. Please try again.")
+      }
     } finally {
       setLoading(false)
     }
   }
 
-  // Helper functions for file handling
-  const isLocalFile = (fileObj: FileObject | string | null): fileObj is FileObject => {
-    if (!fileObj) return false
-    return typeof fileObj === "object" && "uri" in fileObj
-  }
-
-  const getFileType = (fileObj: FileObject | string | null): "video" | "image" | null => {
-    if (!fileObj) return null
-    if (isLocalFile(fileObj)) {
-      return fileObj.type?.includes("video") ? "video" : "image"
-    }
-    return typeof fileObj === "string" && fileObj.includes(".mp4") ? "video" : "image"
-  }
-
-  const getFileUri = (fileObj: FileObject | string | null): string | null => {
-    if (!fileObj) return null
-    return isLocalFile(fileObj) ? fileObj.uri : fileObj
-  }
-
   return (
     <ScreenWrapper bg="white">
       <View style={styles.container}>
@@ -157,36 +289,112 @@ const NewPost = () => {
               <Text style={styles.publicText}>Public</Text>
             </View>
           </View>
-          <View style={styles.textEditor}>
-            <RichTextEditor
-              editorRef={editorRef}
-              onChange={(body: string) => (bodyRef.current = body)}
-              initialValue={bodyRef.current || ""}
-            />
-          </View>
-          {file && (
-            <View style={styles.file}>
-              {getFileType(file) === "video" ? (
-                <Video
-                  style={{ flex: 1 }}
-                  source={{
-                    uri: getFileUri(file) || "",
-                  }}
-                  useNativeControls
-                  resizeMode={ResizeMode.COVER}
-                  isLooping
-                />
-              ) : (
-                <Image source={{ uri: getFileUri(file) }} contentFit="cover" style={{ flex: 1 }} />
-              )}
-
-              <Pressable style={styles.closeIcon} onPress={() => setFile(null)}>
-                <Icon name="x-circle" size={25} color="rgba(255, 0, 0, 0.6)" />
+          <View style={styles.formats}>
+            {COMPOSE_FORMATS.map((item) => (
+              <Pressable
+                key={item.format}
+                style={[styles.formatButton, format === item.format && styles.formatButtonActive]}
+                onPress={() => changeFormat(item.format)}
+              >
+                <Text style={[styles.formatText, format === item.format && styles.formatTextActive]}>{item.label}</Text>
               </Pressable>
+            ))}
+          </View>
+          {format === "markdown" ? (
+            <View style={styles.markdown}>
+              <TextInput
+                style={styles.markdownInput}
+                value={markdown}
+                onChangeText={setMarkdown}
+                placeholder="Write in Markdown: **bold**, *italic*, # heading, - list"
+                multiline
+                textAlignVertical="top"
+              />
+              <Text style={styles.previewLabel}>Preview</Text>
+              <View style={styles.preview}>
+                {markdown.trim() ? (
+                  <PostBody content={markdown} format={plainText ? "plain" : "markdown"} />
+                ) : (
+                  <Text style={styles.previewEmpty}>Nothing to preview yet</Text>
+                )}
+              </View>
+            </View>
+          ) : (
+            <View style={styles.textEditor}>
+              <RichTextEditor
+                editorRef={editorRef}
+                onChange={(body: string) => (bodyRef.current = body)}
+                initialValue={bodyRef.current || ""}
+              />
+            </View>
+          )}
+          {attachments.length > 0 && (
+            <View style={styles.attachments}>
+              {attachments.map((attachment, index) => (
+                <View key={attachment.key} style={styles.attachment}>
+                  {attachment.type === "video" ? (
+                    <View style={[styles.thumbnail, styles.videoThumbnail]}>
+                      {attachment.thumbnail && (
+                        <Image
+                          source={{ uri: attachment.thumbnail }}
+                          contentFit="cover"
+                          style={StyleSheet.absoluteFill}
+                        />
+                      )}
+                      <Icon name="video" size={26} color="white" />
+                      {attachment.duration !== undefined && (
+                        <Text style={styles.videoDuration}>{formatDuration(attachment.duration)}</Text>
+                      )}
+                    </View>
+                  ) : (
+                    <Image
+                      source={{ uri: attachment.thumbnail || attachment.uri }}
+                      contentFit="cover"
+                      style={styles.thumbnail}
+                    />
+                  )}
+                  <TextInput
+                    style={styles.altInput}
+                    value={attachment.alt}
+                    onChangeText={(alt) => updateAttachment(attachment.key, { alt })}
+                    placeholder={attachment.type === "video" ? "Describe this video" : "Describe this image"}
+                    accessibilityLabel={`Alt text for attachment ${index + 1}`}
+                  />
+                  <View style={styles.attachmentActions}>
+                    <Pressable
+                      onPress={() => moveAttachment(index, -1)}
+                      disabled={index === 0}
+                      accessibilityLabel="Move earlier"
+                      style={index === 0 && styles.disabled}
+                    >
+                      <Icon name="arrowLeft" size={20} color={theme.colors.dark} style={styles.moveUp} />
+                    </Pressable>
+                    <Pressable
+                      onPress={() => moveAttachment(index, 1)}
+                      disabled={index === attachments.length - 1}
+                      accessibilityLabel="Move later"
+                      style={index === attachments.length - 1 && styles.disabled}
+                    >
+                      <Icon name="arrowLeft" size={20} color={theme.colors.dark} style={styles.moveDown} />
+                    </Pressable>
+                    <Pressable onPress={() => removeAttachment(attachment.key)} accessibilityLabel="Remove">
+                      <Icon name="delete" size={20} color={theme.colors.rose} />
+                    </Pressable>
+                  </View>
+                </View>
+              ))}
             </View>
           )}
           <View style={styles.media}>
-            <Text style={styles.addImageText}>Add to your post</Text>
+            <Text style={styles.addImageText}>
+              Add to your post
+              {attachments.length > 0 && (
+                <Text style={styles.attachmentCount}>
+                  {" "}
+                  {attachments.length}/{MAX_ATTACHMENTS}
+                </Text>
+              )}
+            </Text>
             <View style={styles.mediaIcons}>
               <TouchableOpacity onPress={() => onPick(true)}>
                 <Icon name="image" size={30} color={theme.colors.dark} />
@@ -197,10 +405,20 @@ const NewPost = () => {
             </View>
           </View>
         </ScrollView>
+        {loading && upload && (
+          <View style={styles.upload}>
+            <View style={styles.uploadTrack}>
+              <View style={[styles.uploadBar, { width: `${Math.round(upload.fraction * 100)}%` }]} />
+            </View>
+            <Text style={styles.uploadText}>
+              {upload.retrying ? "Connection lost, retrying..." : `Uploading ${Math.round(upload.fraction * 100)}%`}
+            </Text>
+          </View>
+        )}
         <Button
           buttonStyle={{ height: hp(6.2) }}
           title={postId ? "Update" : "Post"}
-          loading={loading}
+          loading={loading || preparing}
           hasShadow={false}
           onPress={onSubmit}
         />
@@ -234,6 +452,56 @@ const styles = StyleSheet.create({
   textEditor: {
     minHeight: hp(15),
   },
+  formats: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  formatButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: theme.radius.xl,
+    borderWidth: 1.5,
+    borderColor: theme.colors.gray,
+  },
+  formatButtonActive: {
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
+  },
+  formatText: {
+    fontSize: hp(1.6),
+    fontWeight: "500",
+    color: theme.colors.text,
+  },
+  formatTextActive: {
+    color: "white",
+  },
+  markdown: {
+    gap: 10,
+  },
+  markdownInput: {
+    minHeight: hp(20),
+    borderWidth: 1.5,
+    borderColor: theme.colors.gray,
+    borderRadius: theme.radius.xl,
+    padding: 12,
+    fontSize: hp(1.8),
+    color: theme.colors.textDark,
+  },
+  previewLabel: {
+    fontSize: hp(1.6),
+    fontWeight: "600",
+    color: theme.colors.textLight,
+  },
+  preview: {
+    minHeight: hp(8),
+    padding: 12,
+    borderRadius: theme.radius.xl,
+    backgroundColor: theme.colors.gray,
+  },
+  previewEmpty: {
+    fontSize: hp(1.7),
+    color: theme.colors.textLight,
+  },
   media: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -254,16 +522,79 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     color: theme.colors.text,
   },
-  file: {
-    height: hp(30),
-    width: "100%",
-    borderRadius: theme.radius.xl,
+  attachmentCount: {
+    fontSize: hp(1.6),
+    fontWeight: "500",
+    color: theme.colors.textLight,
+  },
+  attachments: {
+    gap: 10,
+  },
+  attachment: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  thumbnail: {
+    width: hp(8),
+    height: hp(8),
+    borderRadius: theme.radius.md,
+    overflow: "hidden",
+  },
+  videoThumbnail: {
+    backgroundColor: theme.colors.dark,
+    justifyContent: "center",
+    alignItems: "center",
     overflow: "hidden",
   },
-  closeIcon: {
+  videoDuration: {
     position: "absolute",
-    top: 10,
-    right: 10,
+    bottom: 3,
+    right: 4,
+    color: "white",
+    fontSize: hp(1.2),
+    fontWeight: "600",
+  },
+  altInput: {
+    flex: 1,
+    borderWidth: 1.5,
+    borderColor: theme.colors.gray,
+    borderRadius: theme.radius.md,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: hp(1.6),
+    color: theme.colors.textDark,
+  },
+  attachmentActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  moveUp: {
+    transform: [{ rotate: "90deg" }],
+  },
+  moveDown: {
+    transform: [{ rotate: "-90deg" }],
+  },
+  disabled: {
+    opacity: 0.3,
+  },
+  upload: {
+    gap: 6,
+  },
+  uploadTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: theme.colors.gray,
+    overflow: "hidden",
+  },
+  uploadBar: {
+    height: "100%",
+    backgroundColor: theme.colors.primary,
+  },
+  uploadText: {
+    fontSize: hp(1.5),
+    color: theme.colors.textLight,
   },
 })
 
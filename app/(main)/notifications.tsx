@@ -1,111 +1,61 @@
 "use client"
 
 import { View, Text, StyleSheet, FlatList } from "react-native"
-import { useEffect, useState, useCallback } from "react"
+import { useEffect } from "react"
 import ScreenWrapper from "../../components/ScreenWrapper"
 import Header from "../../components/Header"
 import { hp, wp } from "../../helpers/common"
 import { theme } from "../../constants/theme"
 import { useRouter } from "expo-router"
-import { useUser } from "../../redux/hooks"
+import { useAppDispatch } from "../../redux/hooks"
+import { unreadCountCleared } from "../../redux/notifications/notificationsSlice"
 import NotificationItem from "../../components/NotificationItem"
-import ApiService from "../../services"
+import type { Notification } from "../../services/notificationApi"
+import { getBackend } from "../../services/backend"
+import { isOfflineError } from "../../services/apiErrors"
 import Loading from "../../components/Loading"
-
-interface Notification {
-  id: number
-  title: string
-  content: string
-  read: boolean
-  created_at: string
-  sender?: {
-    id: string
-    name: string
-    image?: string
-    avatar?: string
-  }
-  data:
-    | string
-    | {
-        postId: number
-        commentId?: number
-        [key: string]: any
-      }
-}
+import { usePagination } from "../../hooks/usePagination"
 
 const Notifications = () => {
-  const [notifications, setNotifications] = useState<Notification[]>([])
-  const [loading, setLoading] = useState<boolean>(true)
-  const [refreshing, setRefreshing] = useState<boolean>(false)
-  const [page, setPage] = useState<number>(1)
-  const [hasMore, setHasMore] = useState<boolean>(true)
-
-  const user = useUser()
   const router = useRouter()
-
-  // Fetch notifications with pagination
-  const fetchNotifications = useCallback(
-    async (pageNum = 1, shouldAppend = false) => {
-      if (loading && !refreshing) return
-
-      try {
-        setLoading(true)
-        // Call the API to get notifications
-        const response = await ApiService.get("/notifications", { params: { page: pageNum } })
-
-        if (response) {
-          if (shouldAppend) {
-            setNotifications((prev) => [...prev, ...response])
-          } else {
-            setNotifications(response)
-          }
-
-          // Check if there are more notifications to load
-          setHasMore(response.length > 0)
-
-          // Only update page when appending
-          if (shouldAppend) {
-            setPage(pageNum)
-          }
-        }
-      } catch (error) {
+  const dispatch = useAppDispatch()
+
+  // The server sends no total count: the first empty page ends the list
+  const {
+    items: notifications,
+    loading,
+    refreshing,
+    loadingMore,
+    refresh: handleRefresh,
+    loadMore: handleLoadMore,
+  } = usePagination<Notification>({
+    fetchPage: ({ page }) => getBackend().notifications.list({ page }),
+    getItems: (response) => response,
+    getKey: (item) => item.id,
+    onError: (error) => {
+      // Offline: the list stays as it is until a pull to refresh succeeds
+      if (!isOfflineError(error)) {
         console.error("Error fetching notifications:", error)
-      } finally {
-        setLoading(false)
-        setRefreshing(false)
       }
     },
-    [loading, refreshing],
-  )
+  })
 
-  // Initial data loading
+  // Mark notifications as read
   useEffect(() => {
-    fetchNotifications(1, false)
-
-    // Mark notifications as read
     const markAsRead = async () => {
       try {
-        await ApiService.put("/notifications/read-all")
+        await getBackend().notifications.markAllAsRead()
+        dispatch(unreadCountCleared())
       } catch (error) {
-        console.error("Error marking notifications as read:", error)
+        // Offline: the badge is cleared on the next visit instead
+        if (!isOfflineError(error)) {
+          console.error("Error marking notifications as read:", error)
+        }
       }
     }
 
     markAsRead()
-  }, [fetchNotifications])
-
-  // Handle refresh
-  const handleRefresh = () => {
-    setRefreshing(true)
-    fetchNotifications(1, false)
-  }
-
-  // Load more notifications
-  const handleLoadMore = () => {
-    if (!loading && hasMore) {
-      fetchNotifications(page + 1, true)
-    }
-  }
+  }, [dispatch])
 
   return (
     <ScreenWrapper>
@@ -132,7 +82,7 @@ const Notifications = () => {
             )
           }
           ListFooterComponent={
-            loading && !refreshing && notifications.length > 0 ? (
+            loadingMore ? (
               <View style={{ marginVertical: 20 }}>
                 <Loading />
               </View>
@@ -1,86 +1,160 @@
 "use client"
 
-import { View, Text, StyleSheet, Pressable, TextInput, FlatList, KeyboardAvoidingView, Platform } from "react-native"
-import { useState, useEffect } from "react"
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  TextInput,
+  FlatList,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+} from "react-native"
+import { useState, useEffect, useRef } from "react"
 import { useLocalSearchParams, useRouter } from "expo-router"
 import ScreenWrapper from "../../components/ScreenWrapper"
 import { theme } from "../../constants/theme"
 import { hp, wp } from "../../helpers/common"
-import { Image } from "expo-image"
 import Icon from "../../assets/icons"
 import Avatar from "../../components/Avatar"
 import Loading from "../../components/Loading"
-import { useUser } from "../../redux/hooks" // Only import user from Redux
-import micropostApi, { type Micropost } from "../../services/micropostApi" // Import API service directly
-
-interface Comment {
-  id: number
-  content: string
-  user?: {
-    id: string
-    name: string
-    avatar?: string
-  }
-  created_at: string
-  timestamp?: string
-}
+import MediaViewer from "../../components/MediaViewer"
+import PostBody from "../../components/PostBody"
+import { useAppDispatch, usePost, usePostComments, useUser } from "../../redux/hooks" // Only import user from Redux
+import { postLiked, postRemoved, postsReceived, postUnliked } from "../../redux/posts/postsSlice"
+import { commentAdded, commentsReceived } from "../../redux/comments/commentsSlice"
+import micropostApi from "../../services/micropostApi"
+import { getBackend } from "../../services/backend"
+import outbox from "../../services/outbox"
+import { isApiError, isOfflineError } from "../../services/apiErrors"
+import { useOutbox } from "../../hooks/useOutbox"
+import { useApiRequest } from "../../hooks/useApiRequest"
+import { useContentLinks } from "../../hooks/useContentLinks"
+import { useMentionSuggestions } from "../../hooks/useMentionSuggestions"
+import MentionSuggestions from "../../components/MentionSuggestions"
+import {
+  mentionQueryAt,
+  mentionSegments,
+  serializeMentions,
+  userLink,
+  type MentionTarget,
+} from "../../helpers/postContent"
+import { sanitizeHtml } from "../../helpers/html"
 
 const PostDetailsScreen = () => {
   const { id } = useLocalSearchParams()
+  const postId = Number(id)
   const router = useRouter()
   const user = useUser() // Get user from Redux
+  const dispatch = useAppDispatch()
 
-  // Local state
-  const [post, setPost] = useState<Micropost | null>(null)
-  const [comments, setComments] = useState<Comment[]>([])
-  const [loading, setLoading] = useState<boolean>(true)
+  // Post and comments come from the shared entity cache, so likes and comments show up in the feed too
+  const post = usePost(postId)
+  const comments = usePostComments(postId)
   const [commentLoading, setCommentLoading] = useState<boolean>(false)
   const [newComment, setNewComment] = useState<string>("")
-  const [isLiked, setIsLiked] = useState<boolean>(false)
-  const [likeCount, setLikeCount] = useState<number>(0)
+  const { isSending } = useOutbox()
+  const openLink = useContentLinks()
+
+  // Users picked from mention suggestions; the comment stores them as <a data-user-id> tokens
+  const [commentMentions, setCommentMentions] = useState<MentionTarget[]>([])
+  // Latest text and caret of the input; selection events can arrive before the text is rendered
+  const typed = useRef({ text: "", caret: 0 })
+  const mentions = useMentionSuggestions((picked) => {
+    const { text, caret } = typed.current
+    const typing = mentionQueryAt(text.slice(0, caret))
+    if (!typing) return
+
+    const token = `@${picked.name} `
+    const updated = text.slice(0, typing.start) + token + text.slice(caret)
+    typed.current = { text: updated, caret: typing.start + token.length }
+    setNewComment(updated)
+    setCommentMentions((current) => [...current.filter((item) => item.id !== picked.id), picked])
+  })
+
+  const updateMentionQuery = (text: string, caret: number) => {
+    typed.current = { text, caret }
+    const typing = mentionQueryAt(text.slice(0, caret))
+    mentions.setQuery(typing ? typing.query : null)
+  }
+
+  const handleCommentChange = (text: string) => {
+    // The caret follows the edit; the selection event corrects it when it lands elsewhere
+    const { text: previous, caret } = typed.current
+    updateMentionQuery(text, Math.max(0, caret + text.length - previous.length))
+    setNewComment(text)
+  }
+
+  const isLiked = post?.postLikes?.some((like) => like.userId === user?.id) || false
+  const likeCount = post?.postLikes?.length || 0
+
+  const handleLoadError = (error: unknown) => {
+    if (isApiError(error, "notFound")) {
+      dispatch(postRemoved(postId))
+      Alert.alert("Post", "This post has been deleted.")
+      router.back()
+    } else if (isOfflineError(error)) {
+      // The cached post and comments stay on screen
+      console.warn("Post details unavailable offline:", error)
+    } else {
+      console.error("Error fetching post details:", error)
+    }
+  }
+
+  // Both go through the query cache, so likes, edits and new comments refetch them
+  const { loading: postLoading, execute: fetchPost } = useApiRequest(
+    ({ id }: { id: number }) => getBackend().posts.get(id),
+    {
+      queryKey: "microposts.show",
+      loadingInitial: !post,
+      onSuccess: (postData) => dispatch(postsReceived([micropostApi.transformForPostCard(postData)])),
+      onError: handleLoadError,
+    },
+  )
+  const { execute: fetchComments } = useApiRequest(({ id }: { id: number }) => getBackend().comments.list(id), {
+    queryKey: "microposts.comments",
+    onSuccess: (commentsData) => dispatch(commentsReceived({ postId, comments: commentsData || [] })),
+    onError: handleLoadError,
+  })
+  const loading = postLoading && !post
 
   // Fetch post and comments
   useEffect(() => {
     const fetchPostDetails = async () => {
-      try {
-        setLoading(true)
-        // Fetch post details
-        const postData = await micropostApi.getById(Number(id))
-        const transformedPost = micropostApi.transformForPostCard(postData)
-        setPost(transformedPost)
-        setIsLiked(transformedPost.postLikes?.some((like) => like.userId === user?.id) || false)
-        setLikeCount(transformedPost.postLikes?.length || 0)
-
-        // Fetch comments
-        const commentsData = await micropostApi.getComments(Number(id))
-        setComments(commentsData || [])
-      } catch (error) {
-        console.error("Error fetching post details:", error)
-      } finally {
-        setLoading(false)
+      const { success } = await fetchPost({ id: postId })
+      if (success) {
+        await fetchComments({ id: postId })
       }
     }
 
     if (id) {
       fetchPostDetails()
     }
-  }, [id, user?.id])
+  }, [id, postId, fetchPost, fetchComments])
 
   // Handle like/unlike
   const handleLike = async () => {
+    if (!user) return
+
+    const like = { postId, userId: user.id }
     try {
       if (isLiked) {
-        // Unlike post
-        await micropostApi.unlike(Number(id))
-        setLikeCount((prev) => prev - 1)
+        // Unlike post (queued when offline)
+        dispatch(postUnliked(like))
+        await outbox.perform({ type: "unlike", postId })
       } else {
-        // Like post
-        await micropostApi.like(Number(id))
-        setLikeCount((prev) => prev + 1)
+        // Like post (queued when offline)
+        dispatch(postLiked(like))
+        await outbox.perform({ type: "like", postId })
       }
-      setIsLiked(!isLiked)
     } catch (error) {
       console.error("Error toggling like:", error)
+      // Roll back the optimistic update
+      dispatch(isLiked ? postLiked(like) : postUnliked(like))
+      if (isApiError(error, "notFound")) {
+        Alert.alert("Post", "This post has been deleted.")
+      }
     }
   }
 
@@ -116,28 +190,46 @@ const PostDetailsScreen = () => {
 
     try {
       setCommentLoading(true)
-      // Add comment via API
-      const response = await micropostApi.addComment(Number(id), newComment)
+      // Add comment via API, or queue it when offline
+      const content = sanitizeHtml(serializeMentions(newComment, commentMentions))
+      const { queued, entry, result } = await outbox.perform({
+        type: "comment",
+        postId: Number(id),
+        content,
+      })
 
       // Add new comment to the list
-      setComments((prev) => [
-        {
-          id: response.id || Date.now(),
-          content: newComment,
-          user: {
-            id: user?.id || "",
-            name: user?.name || "",
-            avatar: user?.avatar,
+      dispatch(
+        commentAdded({
+          postId,
+          outboxId: queued ? entry?.id : undefined,
+          comment: {
+            id: result?.id || Date.now(),
+            content,
+            user: {
+              id: user?.id || "",
+              name: user?.name || "",
+              avatar: user?.avatar,
+            },
+            created_at: new Date().toISOString(),
           },
-          created_at: new Date().toISOString(),
-        },
-        ...prev,
-      ])
+        }),
+      )
 
       // Clear input
       setNewComment("")
+      typed.current = { text: "", caret: 0 }
+      setCommentMentions([])
+      mentions.close()
     } catch (error) {
-      console.error("Error adding comment:", error)
+      if (isApiError(error, "validation")) {
+        Alert.alert("Comment", error.message)
+      } else if (isApiError(error, "notFound")) {
+        Alert.alert("Comment", "This post has been deleted.")
+      } else {
+        console.error("Error adding comment:", error)
+        Alert.alert("Comment", "Failed to add comment. Please try again.")
+      }
     } finally {
       setCommentLoading(false)
     }
@@ -167,7 +259,7 @@ const PostDetailsScreen = () => {
   }
 
   return (
-    <ScreenWrapper>
+    <ScreenWrapper imageCache="memory-disk">
       <KeyboardAvoidingView
         behavior={Platform.OS === "ios" ? "padding" : "height"}
         style={styles.container}
@@ -201,9 +293,11 @@ const PostDetailsScreen = () => {
 
               {/* Post body */}
               <View style={styles.postBody}>
-                <Text style={styles.postText}>{post.body || post.content}</Text>
-                {(post.file || post.image) && (
-                  <Image source={{ uri: post.file || post.image }} style={styles.postImage} contentFit="cover" />
+                <View style={styles.postContent}>
+                  <PostBody content={post.body || post.content} format={post.format} />
+                </View>
+                {Boolean(post.attachments?.length) && (
+                  <MediaViewer media={post.attachments} height={hp(30)} style={styles.postMedia} />
                 )}
               </View>
 
@@ -235,8 +329,26 @@ const PostDetailsScreen = () => {
               <Avatar uri={item.user?.avatar} size={hp(4)} rounded={theme.radius.sm} />
               <View style={styles.commentContent}>
                 <Text style={styles.commentUserName}>{item.user?.name || "User"}</Text>
-                <Text style={styles.commentText}>{item.content}</Text>
-                <Text style={styles.commentTime}>{formatTimeAgo(item.created_at || item.timestamp)}</Text>
+                <Text style={styles.commentText}>
+                  {mentionSegments(item.content).map((segment, index) =>
+                    segment.userId ? (
+                      <Text
+                        key={index}
+                        style={styles.mention}
+                        onPress={() => openLink(userLink(segment.userId as string))}
+                      >
+                        {segment.text}
+                      </Text>
+                    ) : (
+                      segment.text
+                    ),
+                  )}
+                </Text>
+                <Text style={styles.commentTime}>
+                  {item.outboxId && isSending((entry) => entry.id === item.outboxId)
+                    ? "Sending…"
+                    : formatTimeAgo(item.created_at || item.timestamp)}
+                </Text>
               </View>
             </View>
           )}
@@ -248,22 +360,37 @@ const PostDetailsScreen = () => {
           contentContainerStyle={styles.listContent}
         />
 
-        {/* Comment input */}
-        <View style={styles.inputContainer}>
-          <TextInput
-            style={styles.input}
-            placeholder="Add a comment..."
-            value={newComment}
-            onChangeText={setNewComment}
-            multiline
+        {/* Comment input, with mention suggestions above it */}
+        <View style={styles.composer}>
+          <MentionSuggestions
+            suggestions={mentions.suggestions}
+            highlighted={mentions.highlighted}
+            loading={mentions.loading}
+            onSelect={mentions.select}
+            onHighlight={mentions.setHighlighted}
+            style={styles.mentionSuggestions}
           />
-          <Pressable
-            style={[styles.sendButton, !newComment.trim() && styles.sendButtonDisabled]}
-            onPress={handleSubmitComment}
-            disabled={!newComment.trim() || commentLoading}
-          >
-            {commentLoading ? <Loading size="small" color="#fff" /> : <Icon name="send" size={hp(2)} color="#fff" />}
-          </Pressable>
+          <View style={styles.inputContainer}>
+            <TextInput
+              style={styles.input}
+              placeholder="Add a comment..."
+              value={newComment}
+              onChangeText={handleCommentChange}
+              onSelectionChange={({ nativeEvent }) => updateMentionQuery(typed.current.text, nativeEvent.selection.end)}
+              onKeyPress={(event) => {
+                // Hardware keyboards pick suggestions with the arrow keys and Enter
+                if (mentions.handleKey(event.nativeEvent.key)) event.preventDefault()
+              }}
+              multiline
+            />
+            <Pressable
+              style={[styles.sendButton, !newComment.trim() && styles.sendButtonDisabled]}
+              onPress={handleSubmitComment}
+              disabled={!newComment.trim() || commentLoading}
+            >
+              {commentLoading ? <Loading size="small" color="#fff" /> : <Icon name="send" size={hp(2)} color="#fff" />}
+            </Pressable>
+          </View>
         </View>
       </KeyboardAvoidingView>
     </ScreenWrapper>
@@ -341,15 +468,10 @@ const styles = StyleSheet.create({
   postBody: {
     marginBottom: 15,
   },
-  postText: {
-    fontSize: hp(2),
-    color: theme.colors.text,
+  postContent: {
     marginBottom: 15,
-    lineHeight: hp(2.8),
   },
-  postImage: {
-    width: "100%",
-    height: hp(30),
+  postMedia: {
     borderRadius: theme.radius.md,
   },
   actions: {
@@ -396,6 +518,14 @@ const styles = StyleSheet.create({
     color: theme.colors.text,
     marginTop: 5,
   },
+  mention: {
+    color: theme.colors.primaryDark,
+    fontWeight: "600",
+  },
+  mentionSuggestions: {
+    marginHorizontal: wp(4),
+    marginBottom: 6,
+  },
   commentTime: {
     fontSize: hp(1.4),
     color: theme.colors.gray,
@@ -410,11 +540,13 @@ const styles = StyleSheet.create({
     color: theme.colors.gray,
     textAlign: "center",
   },
-  inputContainer: {
+  composer: {
     position: "absolute",
     bottom: 0,
     left: 0,
     right: 0,
+  },
+  inputContainer: {
     flexDirection: "row",
     alignItems: "center",
     paddingHorizontal: wp(4),
@@ -1,7 +1,7 @@
 import type React from "react"
-import { useEffect, useState, useCallback, useRef } from "react"
+import { useState, useCallback, useEffect } from "react"
 import { View, Text, StyleSheet, Pressable, TouchableOpacity, Alert, FlatList } from "react-native"
-import { useRouter } from "expo-router"
+import { useLocalSearchParams, useRouter } from "expo-router"
 import { hp, wp } from "../../helpers/common"
 import { theme } from "../../constants/theme"
 import Header from "../../components/Header"
@@ -10,16 +10,22 @@ import Icon from "../../assets/icons"
 import Avatar from "../../components/Avatar"
 import PostCard from "../../components/PostCard"
 import Loading from "../../components/Loading"
-import { useUser, useAppDispatch } from "../../redux/hooks"
+import Button from "../../components/Button"
+import { useUser, useAppDispatch, usePosts } from "../../redux/hooks"
 import { logoutUser } from "../../redux/session/sessionSlice"
-import micropostApi, { type Micropost } from "../../services/micropostApi"
+import { postsReceived, postRemoved } from "../../redux/posts/postsSlice"
+import micropostApi, { FEED_PAGE_SIZE, type ListResponse, type Micropost } from "../../services/micropostApi"
+import { getBackend, type UserProfile } from "../../services/backend"
+import queryCache from "../../services/queryCache"
+import { isApiError, isOfflineError } from "../../services/apiErrors"
 import AsyncStorage from "@react-native-async-storage/async-storage"
+import { usePagination } from "../../hooks/usePagination"
+import { useFeedVideoAutoplay } from "../../hooks/useFeedVideoAutoplay"
 
 interface Metadata {
   followers: number
   following: number
   micropost: number
-  total_count: number
 }
 
 interface UserHeaderProps {
@@ -29,161 +35,147 @@ interface UserHeaderProps {
   metadata: Metadata | null
 }
 
-const POSTS_PER_PAGE = 5 // Fixed page size from backend
+interface OtherUserHeaderProps {
+  profile: UserProfile | null
+  metadata: Metadata | null
+  followBusy: boolean
+  onToggleFollow: () => void
+}
 
 const Profile = () => {
   const router = useRouter()
   const user = useUser()
   const dispatch = useAppDispatch()
+  // Mentions and search results open other users' profiles with their `id`
+  const { id } = useLocalSearchParams<{ id?: string }>()
+  const profileId = id || user?.id
+  const ownProfile = profileId === user?.id
 
-  const [microposts, setMicroposts] = useState<Micropost[]>([])
   const [metadata, setMetadata] = useState<Metadata | null>(null)
-  const [loading, setLoading] = useState<boolean>(false)
-  const [refreshing, setRefreshing] = useState<boolean>(false)
-
-  // Refs to track request state and pagination
-  const isRequestInProgress = useRef<boolean>(false)
-  const currentPage = useRef<number>(1)
-  const totalPages = useRef<number>(1)
-  const loadedPostIds = useRef<Set<number>>(new Set())
-
-  // Calculate total pages based on total_count
-  const calculateTotalPages = (totalCount: number): number => {
-    return Math.ceil(totalCount / POSTS_PER_PAGE)
-  }
-
-  // Fetch microposts with optimized logic
-  const fetchMicroposts = useCallback(
-    async (page: number, isRefresh = false) => {
-      // Prevent duplicate requests
-      if (isRequestInProgress.current) return
-
-      try {
-        isRequestInProgress.current = true
-
-        if (isRefresh) {
-          setRefreshing(true)
-        } else if (!refreshing) {
-          setLoading(true)
-        }
-
-        // Fetch posts for the requested page
-        const response = await micropostApi.getAll({ page, user_id: user?.id })
-
-        // Transform microposts to match PostCard format
-        const transformedMicroposts = response.feed_items.map((micropost) =>
-          micropostApi.transformForPostCard(micropost),
-        )
-
-        // Update metadata
-        setMetadata({
-          followers: response.followers,
-          following: response.following,
-          micropost: response.micropost,
-          total_count: response.total_count,
-        })
-
-        // Update total pages
-        totalPages.current = calculateTotalPages(response.total_count)
-
-        if (isRefresh) {
-          // For refresh: Find new posts and add them to the beginning
-          const newPosts = transformedMicroposts.filter((post) => !loadedPostIds.current.has(post.id))
-
-          if (newPosts.length > 0) {
-            // Add new posts to the beginning
-            setMicroposts((prevPosts) => [...newPosts, ...prevPosts])
-
-            // Update loaded post IDs
-            newPosts.forEach((post) => loadedPostIds.current.add(post.id))
-
-            // Recalculate current page based on total loaded posts
-            currentPage.current = Math.ceil((newPosts.length + microposts.length) / POSTS_PER_PAGE)
-          }
-        } else {
-          // For initial load or load more: Append posts that aren't already loaded
-          const postsToAdd = transformedMicroposts.filter((post) => !loadedPostIds.current.has(post.id))
-
-          if (postsToAdd.length > 0) {
-            setMicroposts((prevPosts) => [...prevPosts, ...postsToAdd])
-
-            // Update loaded post IDs
-            postsToAdd.forEach((post) => loadedPostIds.current.add(post.id))
-
-            // Update current page
-            currentPage.current = page
-          }
-        }
-      } catch (error) {
+  const [otherUser, setOtherUser] = useState<UserProfile | null>(null)
+  const [followBusy, setFollowBusy] = useState(false)
+
+  // The list only keeps post IDs; the posts themselves live in the shared entity cache
+  const {
+    items: postIds,
+    hasMore,
+    loading,
+    refreshing,
+    loadingMore,
+    refresh,
+    loadMore: handleLoadMore,
+    removeItem,
+  } = usePagination<number, ListResponse<Micropost>>({
+    async fetchPage({ page }) {
+      const response = await getBackend().feed.list({ page, userId: profileId })
+      // Share the posts with every other screen
+      dispatch(postsReceived(response.feed_items.map((micropost) => micropostApi.transformForPostCard(micropost))))
+      return response
+    },
+    getItems: (response) => response.feed_items.map((micropost) => micropost.id),
+    getKey: (id) => id,
+    getTotalCount: (response) => response.total_count,
+    pageSize: FEED_PAGE_SIZE,
+    onSuccess: (response) =>
+      setMetadata({ followers: response.followers, following: response.following, micropost: response.micropost }),
+    onError: (error) => {
+      if (isOfflineError(error)) {
+        console.warn("Profile posts unavailable offline:", error)
+      } else if (!isApiError(error, "auth")) {
         console.error("Error fetching microposts:", error)
-      } finally {
-        isRequestInProgress.current = false
-        setLoading(false)
-        setRefreshing(false)
+        Alert.alert("Profile", isApiError(error) ? error.message : "Failed to load posts")
       }
     },
-    [microposts.length, user?.id],
-  )
+    resetOn: profileId,
+  })
+  const microposts = usePosts(postIds)
+  const { playingId, viewabilityConfigCallbackPairs } = useFeedVideoAutoplay()
 
-  // Initial data loading
+  // The signed in user comes from the session; anyone else is loaded
   useEffect(() => {
-    // Reset state on component mount
-    loadedPostIds.current = new Set()
-    currentPage.current = 1
+    if (ownProfile || !profileId) return
+    let cancelled = false
 
-    fetchMicroposts(1)
-  }, [fetchMicroposts])
+    const loadUser = async () => {
+      try {
+        const profile = await getBackend().users.get(profileId)
+        if (!cancelled) setOtherUser(profile)
+      } catch (error) {
+        if (isOfflineError(error)) {
+          console.warn("Profile unavailable offline:", error)
+        } else {
+          console.error("Error fetching user:", error)
+          Alert.alert(
+            "Profile",
+            isApiError(error, "notFound") ? "This user no longer exists" : "Failed to load profile",
+          )
+        }
+      }
+    }
 
-  // Handle refresh (pull to refresh)
-  const handleRefresh = useCallback(() => {
-    // Only refresh if we're not already loading
-    if (!isRequestInProgress.current) {
-      fetchMicroposts(1, true)
+    loadUser()
+    return () => {
+      cancelled = true
     }
-  }, [fetchMicroposts])
+  }, [ownProfile, profileId])
 
-  // Load more posts when reaching the end
-  const handleLoadMore = useCallback(() => {
-    // Only load more if:
-    // 1. We're not already loading
-    // 2. We haven't reached the last page
-    // 3. We're not refreshing
-    if (!isRequestInProgress.current && currentPage.current < totalPages.current && !refreshing) {
-      fetchMicroposts(currentPage.current + 1)
+  // Pull to refresh skips the cached pages
+  const handleRefresh = useCallback(() => {
+    queryCache.invalidate(["microposts.feed", { user_id: profileId }])
+    refresh()
+  }, [refresh, profileId])
+
+  // Follow or unfollow the user shown
+  const handleToggleFollow = useCallback(async () => {
+    if (!otherUser) return
+    const followed = !otherUser.followed
+
+    setFollowBusy(true)
+    try {
+      const { follows } = getBackend()
+      await (followed ? follows.follow(otherUser.id) : follows.unfollow(otherUser.id))
+      setOtherUser((current) => current && { ...current, followed })
+      setMetadata((current) => current && { ...current, followers: current.followers + (followed ? 1 : -1) })
+    } catch (error) {
+      console.error("Error updating follow:", error)
+      Alert.alert(
+        "Error",
+        isOfflineError(error)
+          ? "You're offline. Try again once you're connected."
+          : `Failed to ${followed ? "follow" : "unfollow"} ${otherUser.name}`,
+      )
+    } finally {
+      setFollowBusy(false)
     }
-  }, [fetchMicroposts, refreshing])
+  }, [otherUser])
 
   // Handle post deletion
   const handleDeletePost = useCallback(
     async (post: Micropost) => {
       try {
-        await micropostApi.remove(post.id)
-
-        // Remove post from state
-        setMicroposts((prevPosts) => prevPosts.filter((p) => p.id !== post.id))
-
-        // Remove from loaded IDs
-        loadedPostIds.current.delete(post.id)
-
-        // Update metadata if available
-        if (metadata) {
-          setMetadata({
-            ...metadata,
-            micropost: metadata.micropost - 1,
-            total_count: metadata.total_count - 1,
-          })
-
-          // Recalculate total pages
-          totalPages.current = calculateTotalPages(metadata.total_count - 1)
-        }
-
-        Alert.alert("Success", "Post deleted successfully")
+        await getBackend().posts.remove(post.id)
       } catch (error) {
-        console.error("Error deleting post:", error)
-        Alert.alert("Error", "Failed to delete post")
+        // Already deleted elsewhere: drop it from the list like a successful delete
+        if (!isApiError(error, "notFound")) {
+          console.error("Error deleting post:", error)
+          Alert.alert(
+            "Error",
+            isOfflineError(error)
+              ? "You're offline. Try deleting the post again once you're connected."
+              : "Failed to delete post",
+          )
+          return
+        }
       }
+
+      // Remove post from the list and from the shared cache (drops it from the home feed too)
+      removeItem(post.id)
+      dispatch(postRemoved(post.id))
+      setMetadata((current) => current && { ...current, micropost: current.micropost - 1 })
+
+      Alert.alert("Success", "Post deleted successfully")
     },
-    [metadata],
+    [dispatch, removeItem],
   )
 
   // Handle logout
@@ -212,10 +204,21 @@ const Profile = () => {
   }
 
   return (
-    <ScreenWrapper bg="white">
+    <ScreenWrapper bg="white" imageCache="memory-disk">
       <FlatList
         data={microposts}
-        ListHeaderComponent={<UserHeader user={user} handleLogout={handleLogout} router={router} metadata={metadata} />}
+        ListHeaderComponent={
+          ownProfile ? (
+            <UserHeader user={user} handleLogout={handleLogout} router={router} metadata={metadata} />
+          ) : (
+            <OtherUserHeader
+              profile={otherUser}
+              metadata={metadata}
+              followBusy={followBusy}
+              onToggleFollow={handleToggleFollow}
+            />
+          )
+        }
         ListHeaderComponentStyle={{ marginBottom: 30 }}
         showsVerticalScrollIndicator={false}
         contentContainerStyle={styles.listStyle}
@@ -225,7 +228,8 @@ const Profile = () => {
             item={item}
             currentUser={user}
             router={router}
-            showDelete={true}
+            playVideo={item.id === playingId}
+            showDelete={ownProfile}
             onDelete={handleDeletePost}
             onEdit={(post) =>
               router.push({
@@ -235,6 +239,8 @@ const Profile = () => {
             }
           />
         )}
+        extraData={playingId}
+        viewabilityConfigCallbackPairs={viewabilityConfigCallbackPairs}
         onEndReached={handleLoadMore}
         onRefresh={handleRefresh}
         refreshing={refreshing}
@@ -244,7 +250,7 @@ const Profile = () => {
         windowSize={5} // Optimize memory usage
         removeClippedSubviews={true} // Improve performance
         ListEmptyComponent={
-          loading && !refreshing ? (
+          loading ? (
             <View style={styles.centerContainer}>
               <Loading />
             </View>
@@ -255,11 +261,11 @@ const Profile = () => {
           ) : null
         }
         ListFooterComponent={
-          loading && !refreshing && microposts.length > 0 ? (
+          loadingMore ? (
             <View style={{ marginVertical: 30 }}>
               <Loading />
             </View>
-          ) : !loading && currentPage.current >= totalPages.current && microposts.length > 0 ? (
+          ) : !loading && !hasMore && microposts.length > 0 ? (
             <View style={{ marginVertical: 30 }}>
               <Text style={styles.noPosts}>No more posts</Text>
             </View>
@@ -297,22 +303,7 @@ const UserHeader: React.FC<UserHeaderProps> = ({ user, handleLogout, router, met
           </View>
 
           {/* Stats */}
-          {metadata && (
-            <View style={styles.statsContainer}>
-              <View style={styles.statItem}>
-                <Text style={styles.statValue}>{metadata.micropost || 0}</Text>
-                <Text style={styles.statLabel}>Posts</Text>
-              </View>
-              <View style={styles.statItem}>
-                <Text style={styles.statValue}>{metadata.followers || 0}</Text>
-                <Text style={styles.statLabel}>Followers</Text>
-              </View>
-              <View style={styles.statItem}>
-                <Text style={styles.statValue}>{metadata.following || 0}</Text>
-                <Text style={styles.statLabel}>Following</Text>
-              </View>
-            </View>
-          )}
+          {metadata && <Stats metadata={metadata} />}
 
           {/* email, phone */}
           <View style={{ gap: 10 }}>
@@ -335,6 +326,57 @@ const UserHeader: React.FC<UserHeaderProps> = ({ user, handleLogout, router, met
   )
 }
 
+const OtherUserHeader: React.FC<OtherUserHeaderProps> = ({ profile, metadata, followBusy, onToggleFollow }) => {
+  return (
+    <View style={{ flex: 1, backgroundColor: "white" }}>
+      <Header title={profile?.name || "Profile"} mb={30} />
+
+      <View style={styles.container}>
+        <View style={{ gap: 15 }}>
+          <View style={styles.avatarContainer}>
+            <Avatar uri={profile?.avatar} size={hp(12)} rounded={theme.radius.xxl * 1.4} />
+          </View>
+
+          <View style={{ alignItems: "center", gap: 4 }}>
+            <Text style={styles.userName}>{profile?.name}</Text>
+            {profile?.bio && <Text style={styles.infoText}>{profile.bio}</Text>}
+          </View>
+
+          {metadata && <Stats metadata={metadata} />}
+
+          {profile && (
+            <Button
+              title={profile.followed ? "Unfollow" : "Follow"}
+              loading={followBusy}
+              onPress={onToggleFollow}
+              hasShadow={false}
+              buttonStyle={[styles.followButton, profile.followed && styles.unfollowButton]}
+              textStyle={[styles.followText, profile.followed && styles.unfollowText]}
+            />
+          )}
+        </View>
+      </View>
+    </View>
+  )
+}
+
+const Stats: React.FC<{ metadata: Metadata }> = ({ metadata }) => (
+  <View style={styles.statsContainer}>
+    <View style={styles.statItem}>
+      <Text style={styles.statValue}>{metadata.micropost || 0}</Text>
+      <Text style={styles.statLabel}>Posts</Text>
+    </View>
+    <View style={styles.statItem}>
+      <Text style={styles.statValue}>{metadata.followers || 0}</Text>
+      <Text style={styles.statLabel}>Followers</Text>
+    </View>
+    <View style={styles.statItem}>
+      <Text style={styles.statValue}>{metadata.following || 0}</Text>
+      <Text style={styles.statLabel}>Following</Text>
+    </View>
+  </View>
+)
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -400,7 +442,7 @@ const styles = StyleSheet.create({
     justifyContent: "space-around",
     paddingVertical: 15,
     borderWidth: 1,
-    borderColor: theme.colors.border,
+    borderColor: theme.colors.gray,
     borderRadius: theme.radius.lg,
     marginHorizontal: wp(4),
   },
@@ -409,13 +451,28 @@ const styles = StyleSheet.create({
   },
   statValue: {
     fontSize: hp(2.2),
-    fontWeight: theme.fonts.bold,
+    fontWeight: "700",
     color: theme.colors.text,
   },
   statLabel: {
     fontSize: hp(1.6),
     color: theme.colors.gray,
   },
+  followButton: {
+    height: hp(5.4),
+    marginHorizontal: wp(4),
+  },
+  unfollowButton: {
+    backgroundColor: "white",
+    borderWidth: 1,
+    borderColor: theme.colors.gray,
+  },
+  followText: {
+    fontSize: hp(2),
+  },
+  unfollowText: {
+    color: theme.colors.text,
+  },
 })
 
 export default Profile
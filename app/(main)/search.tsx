@@ -1,5 +1,5 @@
-import { View, Text, StyleSheet, TextInput, FlatList, Pressable } from "react-native"
-import { useState, useCallback } from "react"
+import { View, Text, StyleSheet, TextInput, FlatList, Pressable, Alert } from "react-native"
+import { useState } from "react"
 import ScreenWrapper from "../../components/ScreenWrapper"
 import Header from "../../components/Header"
 import { hp, wp } from "../../helpers/common"
@@ -7,75 +7,153 @@ import { theme } from "../../constants/theme"
 import Icon from "../../assets/icons"
 import Avatar from "../../components/Avatar"
 import Loading from "../../components/Loading"
+import PostCard from "../../components/PostCard"
 import { useRouter } from "expo-router"
-import { useUser } from "../../redux/hooks"
-import ApiService from "../../services"
-
-interface User {
-  id: string
-  name: string
-  email: string
-  avatar?: string
+import { useAppDispatch, usePost, useUser } from "../../redux/hooks"
+import { postsReceived } from "../../redux/posts/postsSlice"
+import searchApi, { SEARCH_TYPES, type HashtagResult, type SearchType, type UserResult } from "../../services/searchApi"
+import micropostApi, { type Micropost } from "../../services/micropostApi"
+import { isOfflineError } from "../../services/apiErrors"
+import { useSearch } from "../../hooks/useSearch"
+
+// One result of the current tab
+type SearchResult =
+  | { type: "users"; user: UserResult }
+  | { type: "posts"; post: Micropost }
+  | { type: "hashtags"; hashtag: HashtagResult }
+
+const TAB_LABELS: Record<SearchType, string> = {
+  users: "Users",
+  posts: "Posts",
+  hashtags: "Hashtags",
 }
 
-const Search = () => {
-  const [query, setQuery] = useState<string>("")
-  const [results, setResults] = useState<User[]>([])
-  const [loading, setLoading] = useState<boolean>(false)
-  const [searched, setSearched] = useState<boolean>(false)
+const keyOf = (result: SearchResult): string => {
+  switch (result.type) {
+    case "users":
+      return `user-${result.user.id}`
+    case "posts":
+      return `post-${result.post.id}`
+    case "hashtags":
+      return `hashtag-${result.hashtag.name}`
+  }
+}
 
+// A post found by the search, kept in step with likes made from the card through the shared entity cache
+const PostResult = ({ post, query }: { post: Micropost; query: string }) => {
   const router = useRouter()
   const user = useUser()
+  const cached = usePost(post.id)
 
-  // Search users
-  const searchUsers = useCallback(async (searchQuery: string) => {
-    if (!searchQuery.trim()) {
-      setResults([])
-      setSearched(false)
-      return
-    }
+  return <PostCard item={cached || post} currentUser={user} router={router} highlight={query} />
+}
+
+const Search = () => {
+  const router = useRouter()
+  const user = useUser()
+  const dispatch = useAppDispatch()
+  const [tab, setTab] = useState<SearchType>("users")
 
-    try {
-      setLoading(true)
-      const response = await ApiService.get("/users/search", { params: { query: searchQuery } })
+  // Debounced; a superseded query's request is aborted so its answer never replaces newer results.
+  // Each tab pages through its own results.
+  const {
+    query,
+    setQuery,
+    results,
+    loading,
+    loadingMore,
+    loadMore,
+    searched,
+    history,
+    saveToHistory,
+    removeFromHistory,
+    clearHistory,
+  } = useSearch<SearchResult>(
+    async (searchQuery, signal, cursor) => {
+      const response = await searchApi.search(searchQuery, { types: [tab], cursor, signal })
 
-      if (response) {
-        setResults(response)
-      } else {
-        setResults([])
+      switch (tab) {
+        case "users":
+          return {
+            items: (response.users?.items || []).map((found): SearchResult => ({ type: "users", user: found })),
+            nextCursor: response.users?.next_cursor,
+          }
+        case "posts": {
+          const posts = (response.posts?.items || []).map((post) => micropostApi.transformForPostCard(post))
+          dispatch(postsReceived(posts))
+          return {
+            items: posts.map((post): SearchResult => ({ type: "posts", post })),
+            nextCursor: response.posts?.next_cursor,
+          }
+        }
+        case "hashtags":
+          return {
+            items: (response.hashtags?.items || []).map((hashtag): SearchResult => ({ type: "hashtags", hashtag })),
+            nextCursor: response.hashtags?.next_cursor,
+          }
       }
-      setSearched(true)
-    } catch (error) {
-      console.error("Error searching users:", error)
-      setResults([])
-    } finally {
-      setLoading(false)
-    }
-  }, [])
+    },
+    {
+      minLength: 2,
+      scope: tab,
+      onError: (error) => {
+        if (isOfflineError(error)) {
+          Alert.alert("Search", "You're offline. Check your connection and try again.")
+        } else {
+          console.error("Error searching:", error)
+        }
+      },
+    },
+  )
 
-  // Handle search input
-  const handleSearch = (text: string) => {
-    setQuery(text)
-    if (text.length >= 2) {
-      searchUsers(text)
-    } else {
-      setResults([])
-      setSearched(false)
-    }
-  }
+  const showHistory = query.trim().length === 0 && history.length > 0
 
   // Navigate to user profile
   const navigateToProfile = (userId: string) => {
+    saveToHistory()
     if (userId === user?.id) {
       router.push("/profile")
     } else {
       router.push({
-        pathname: "(main)/userProfile",
+        pathname: "/profile",
         params: { id: userId },
       })
     }
   }
 
+  // A hashtag lists the posts using it
+  const showHashtag = (name: string) => {
+    saveToHistory()
+    setTab("posts")
+    setQuery(`#${name}`)
+  }
+
+  const renderResult = ({ item }: { item: SearchResult }) => {
+    switch (item.type) {
+      case "users":
+        return (
+          <Pressable style={styles.userItem} onPress={() => navigateToProfile(item.user.id)}>
+            <Avatar uri={item.user.avatar || item.user.gravatar_id} size={hp(6)} rounded={theme.radius.full} />
+            <View style={styles.userInfo}>
+              <Text style={styles.userName}>{item.user.name}</Text>
+              {item.user.email && <Text style={styles.userEmail}>{item.user.email}</Text>}
+            </View>
+          </Pressable>
+        )
+      case "posts":
+        return <PostResult post={item.post} query={query} />
+      case "hashtags":
+        return (
+          <Pressable style={styles.userItem} onPress={() => showHashtag(item.hashtag.name)}>
+            <Text style={styles.hashtag}>#{item.hashtag.name}</Text>
+            <Text style={styles.userEmail}>
+              {item.hashtag.posts_count} {item.hashtag.posts_count === 1 ? "post" : "posts"}
+            </Text>
+          </Pressable>
+        )
+    }
+  }
+
   return (
     <ScreenWrapper>
       <View style={styles.container}>
@@ -85,40 +163,79 @@ const Search = () => {
           <Icon name="search" size={20} color={theme.colors.textLight} />
           <TextInput
             style={styles.searchInput}
-            placeholder="Search users..."
+            placeholder="Search users, posts and hashtags..."
             placeholderTextColor={theme.colors.textLight}
             value={query}
-            onChangeText={handleSearch}
+            onChangeText={setQuery}
+            onSubmitEditing={() => saveToHistory()}
+            returnKeyType="search"
             autoCapitalize="none"
           />
           {query.length > 0 && (
-            <Pressable onPress={() => handleSearch("")}>
+            <Pressable onPress={() => setQuery("")}>
               <Icon name="x" size={20} color={theme.colors.textLight} />
             </Pressable>
           )}
         </View>
 
-        {loading ? (
+        {/* tabs */}
+        <View style={styles.tabs}>
+          {SEARCH_TYPES.map((type) => (
+            <Pressable key={type} style={[styles.tab, tab === type && styles.activeTab]} onPress={() => setTab(type)}>
+              <Text style={[styles.tabText, tab === type && styles.activeTabText]}>{TAB_LABELS[type]}</Text>
+            </Pressable>
+          ))}
+        </View>
+
+        {showHistory ? (
+          <FlatList
+            data={history}
+            keyExtractor={(item) => item}
+            keyboardShouldPersistTaps="handled"
+            ListHeaderComponent={
+              <View style={styles.historyHeader}>
+                <Text style={styles.historyTitle}>Recent searches</Text>
+                <Pressable onPress={clearHistory}>
+                  <Text style={styles.historyClear}>Clear</Text>
+                </Pressable>
+              </View>
+            }
+            renderItem={({ item }) => (
+              <Pressable style={styles.historyItem} onPress={() => setQuery(item)}>
+                <Icon name="search" size={18} color={theme.colors.textLight} />
+                <Text style={styles.historyText} numberOfLines={1}>
+                  {item}
+                </Text>
+                <Pressable hitSlop={10} onPress={() => removeFromHistory(item)}>
+                  <Icon name="x" size={18} color={theme.colors.textLight} />
+                </Pressable>
+              </Pressable>
+            )}
+            contentContainerStyle={styles.listContainer}
+          />
+        ) : loading && results.length === 0 ? (
           <View style={styles.centerContainer}>
             <Loading />
           </View>
         ) : (
           <FlatList
             data={results}
-            keyExtractor={(item) => item.id.toString()}
-            renderItem={({ item }) => (
-              <Pressable style={styles.userItem} onPress={() => navigateToProfile(item.id)}>
-                <Avatar uri={item.avatar} size={hp(6)} rounded={theme.radius.full} />
-                <View style={styles.userInfo}>
-                  <Text style={styles.userName}>{item.name}</Text>
-                  <Text style={styles.userEmail}>{item.email}</Text>
-                </View>
-              </Pressable>
-            )}
+            keyExtractor={keyOf}
+            renderItem={renderResult}
+            keyboardShouldPersistTaps="handled"
+            onEndReached={loadMore}
+            onEndReachedThreshold={0.5}
             ListEmptyComponent={
               searched && !loading ? (
                 <View style={styles.centerContainer}>
-                  <Text style={styles.emptyText}>No users found</Text>
+                  <Text style={styles.emptyText}>No {TAB_LABELS[tab].toLowerCase()} found</Text>
+                </View>
+              ) : null
+            }
+            ListFooterComponent={
+              loadingMore ? (
+                <View style={{ marginVertical: 20 }}>
+                  <Loading size="small" />
                 </View>
               ) : null
             }
@@ -164,6 +281,60 @@ const styles = StyleSheet.create({
     paddingVertical: 10,
     flexGrow: 1,
   },
+  tabs: {
+    flexDirection: "row",
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  tab: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 10,
+  },
+  activeTab: {
+    borderBottomWidth: 2,
+    borderBottomColor: theme.colors.primary,
+  },
+  tabText: {
+    fontSize: hp(1.7),
+    color: theme.colors.textLight,
+  },
+  activeTabText: {
+    fontWeight: "600",
+    color: theme.colors.primary,
+  },
+  hashtag: {
+    flex: 1,
+    fontSize: hp(1.8),
+    fontWeight: "600",
+    color: theme.colors.primary,
+  },
+  historyHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 5,
+  },
+  historyTitle: {
+    fontSize: hp(1.8),
+    fontWeight: "600",
+    color: theme.colors.text,
+  },
+  historyClear: {
+    fontSize: hp(1.6),
+    color: theme.colors.primary,
+  },
+  historyItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingVertical: 12,
+  },
+  historyText: {
+    flex: 1,
+    fontSize: hp(1.7),
+    color: theme.colors.text,
+  },
   userItem: {
     flexDirection: "row",
     alignItems: "center",
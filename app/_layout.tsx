@@ -1,13 +1,17 @@
 "use client"
 
-import { useEffect } from "react"
-import { Stack, useRouter } from "expo-router"
+import { useEffect, useState } from "react"
+import { Stack, usePathname, useRouter } from "expo-router"
 import { Provider } from "react-redux"
 import store from "../redux/store"
-import { LogBox } from "react-native"
+import { LogBox, View } from "react-native"
 import AsyncStorage from "@react-native-async-storage/async-storage"
 import { useAppDispatch, useAppSelector } from "../redux/hooks"
 import { fetchUser, selectIsLoggedIn, selectUser } from "../redux/session/sessionSlice"
+import { useOutboxSync } from "../hooks/useOutbox"
+import { persistStore, rehydrateStore } from "../redux/persist/persistStore"
+import Loading from "../components/Loading"
+import { loadConfig } from "../services/config"
 
 // Ignore specific warnings
 LogBox.ignoreLogs([
@@ -17,6 +21,30 @@ LogBox.ignoreLogs([
 ])
 
 const RootLayout = () => {
+  const [rehydrated, setRehydrated] = useState<boolean>(false)
+
+  // Restore the backend profile, then the previous session, feed and notification count before the first screen renders
+  useEffect(() => {
+    let stopPersisting: (() => void) | undefined
+
+    loadConfig()
+      .then(() => rehydrateStore(store))
+      .finally(() => {
+        stopPersisting = persistStore(store)
+        setRehydrated(true)
+      })
+
+    return () => stopPersisting?.()
+  }, [])
+
+  if (!rehydrated) {
+    return (
+      <View style={{ flex: 1, alignItems: "center", justifyContent: "center" }}>
+        <Loading />
+      </View>
+    )
+  }
+
   return (
     <Provider store={store}>
       <MainLayout />
@@ -28,45 +56,48 @@ const MainLayout = () => {
   const isLoggedIn = useAppSelector(selectIsLoggedIn)
   const user = useAppSelector(selectUser)
   const router = useRouter()
+  const pathname = usePathname()
   const dispatch = useAppDispatch()
 
+  // Replay likes, comments, follows and posts made while offline
+  useOutboxSync(isLoggedIn ? user?.id : null)
+
   useEffect(() => {
-    // Check authentication status when app starts
-    const checkAuthStatus = async () => {
+    // Revalidate a rehydrated session in the background; the cached user is shown meanwhile
+    const revalidateSession = async () => {
       try {
-        // Check if we have a token in AsyncStorage
         const token = await AsyncStorage.getItem("token")
 
-        if (token) {
-          // If we have a token, try to get the current user
-          await dispatch(fetchUser())
+        if (token && store.getState().session.loggedIn) {
+          dispatch(fetchUser())
         }
       } catch (error) {
         console.error("Auth check error:", error)
       }
     }
 
-    checkAuthStatus()
+    revalidateSession()
   }, [dispatch])
 
   // Listen for changes in authentication state
   useEffect(() => {
     if (isLoggedIn && user) {
       // If the user is logged in and we have user data, navigate to home
-      if (router.pathname === "/welcome" || router.pathname === "/login" || router.pathname === "/signUp") {
+      if (pathname === "/welcome" || pathname === "/login" || pathname === "/signUp") {
         router.replace("/home")
       }
     } else if (
       !isLoggedIn &&
-      router.pathname !== "/welcome" &&
-      router.pathname !== "/login" &&
-      router.pathname !== "/signUp" &&
-      router.pathname !== "/"
+      pathname !== "/welcome" &&
+      pathname !== "/login" &&
+      pathname !== "/signUp" &&
+      pathname !== "/developer" &&
+      pathname !== "/"
     ) {
       // If the user is not logged in and not on an auth screen, redirect to welcome
       router.replace("/welcome")
     }
-  }, [isLoggedIn, user, router.pathname])
+  }, [isLoggedIn, user, pathname])
 
   return (
     <Stack
@@ -0,0 +1,124 @@
+"use client"
+
+import { View, Text, StyleSheet, Pressable, Alert, ScrollView } from "react-native"
+import { useState } from "react"
+import { Redirect, useRouter } from "expo-router"
+import ScreenWrapper from "../components/ScreenWrapper"
+import Header from "../components/Header"
+import { hp, wp } from "../helpers/common"
+import { theme } from "../constants/theme"
+import { useAppDispatch, useAppSelector } from "../redux/hooks"
+import { logoutUser, selectIsLoggedIn } from "../redux/session/sessionSlice"
+import { developerMenuEnabled, getAvailableProfiles, getConfig, setProfile, type AppConfig } from "../services/config"
+
+// Hidden screen (long press the title on the welcome screen) to point the app at another backend
+const DeveloperScreen = () => {
+  const router = useRouter()
+  const dispatch = useAppDispatch()
+  const isLoggedIn = useAppSelector(selectIsLoggedIn)
+  const [active, setActive] = useState<AppConfig>(getConfig())
+  const [switching, setSwitching] = useState<boolean>(false)
+  const profiles = getAvailableProfiles()
+
+  const switchProfile = async (profile: AppConfig) => {
+    setSwitching(true)
+    try {
+      // The session, cached feed and outbox belong to the current backend
+      if (isLoggedIn) {
+        await dispatch(logoutUser())
+      }
+      setActive(await setProfile(profile.profile))
+      router.replace("/welcome")
+    } catch (error) {
+      console.error("Error switching profile:", error)
+      Alert.alert("Developer", "Failed to switch profile")
+    } finally {
+      setSwitching(false)
+    }
+  }
+
+  const onSelect = (profile: AppConfig) => {
+    if (switching || profile.profile === active.profile) return
+
+    Alert.alert(
+      "Switch backend",
+      `Use the ${profile.profile} profile?${isLoggedIn ? " You will be logged out." : ""}`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Switch", onPress: () => switchProfile(profile) },
+      ],
+    )
+  }
+
+  return (
+    <ScreenWrapper bg="white">
+      <View style={styles.container}>
+        <Header title="Developer" onBackPress={() => router.back()} />
+
+        <ScrollView contentContainerStyle={styles.list}>
+          <Text style={styles.sectionTitle}>Backend profile</Text>
+          {profiles.map((profile) => {
+            const selected = profile.profile === active.profile
+            return (
+              <Pressable
+                key={profile.profile}
+                style={[styles.profile, selected && styles.profileSelected]}
+                onPress={() => onSelect(profile)}
+              >
+                <Text style={[styles.profileName, selected && { color: theme.colors.primaryDark }]}>
+                  {profile.profile}
+                  {selected ? " (active)" : ""}
+                </Text>
+                <Text style={styles.profileDetail}>Backend: {profile.backend}</Text>
+                <Text style={styles.profileDetail}>{profile.apiUrl}</Text>
+                <Text style={styles.profileDetail}>{profile.supabaseUrl}</Text>
+              </Pressable>
+            )
+          })}
+        </ScrollView>
+      </View>
+    </ScreenWrapper>
+  )
+}
+
+// Store builds do not have the screen, even when linked to
+const Developer = () => (developerMenuEnabled ? <DeveloperScreen /> : <Redirect href="/welcome" />)
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingHorizontal: wp(4),
+  },
+  list: {
+    gap: 12,
+    paddingVertical: 20,
+  },
+  sectionTitle: {
+    fontSize: hp(1.8),
+    fontWeight: "600",
+    color: theme.colors.textLight,
+  },
+  profile: {
+    padding: 15,
+    gap: 4,
+    borderRadius: theme.radius.xl,
+    borderWidth: 0.5,
+    borderColor: theme.colors.gray,
+  },
+  profileSelected: {
+    borderColor: theme.colors.primary,
+    borderWidth: 1.5,
+  },
+  profileName: {
+    fontSize: hp(2),
+    fontWeight: "600",
+    color: theme.colors.textDark,
+    textTransform: "capitalize",
+  },
+  profileDetail: {
+    fontSize: hp(1.5),
+    color: theme.colors.textLight,
+  },
+})
+
+export default Developer
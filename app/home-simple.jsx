@@ -3,7 +3,8 @@ import { useEffect, useState } from "react"
 import { SafeAreaView } from "react-native-safe-area-context"
 import { useRouter } from "expo-router"
 import useAuth from "../hooks/useAuth"
-import ApiService from "../services"
+import { getBackend } from "../services/backend"
+import { isOfflineError } from "../services/apiErrors"
 
 const home = () => {
   const { user, logout } = useAuth()
@@ -21,12 +22,15 @@ const home = () => {
       setLoading(true)
       setError(null)
 
-      // Replace with your actual API endpoint for posts
-      const response = await ApiService.get("")
+      const response = await getBackend().feed.list({ page: 1 })
       setPosts(response.feed_items)
     } catch (err) {
       console.error("Error fetching posts:", err)
-      setError("Failed to load posts. Please try again.")
+      setError(
+        isOfflineError(err)
+          ? "You're offline. Check your connection and try again."
+          : "Failed to load posts. Please try again.",
+      )
     } finally {
       setLoading(false)
     }
@@ -5,24 +5,31 @@ import { useEffect } from "react"
 import Loading from "../components/Loading"
 import { useRouter } from "expo-router"
 import AsyncStorage from "@react-native-async-storage/async-storage"
-import { useAppDispatch } from "../redux/hooks"
+import { useAppDispatch, useIsLoggedIn } from "../redux/hooks"
 import { fetchUser } from "../redux/session/sessionSlice"
 
 const StartPage = () => {
   const router = useRouter()
   const dispatch = useAppDispatch()
+  const isLoggedIn = useIsLoggedIn()
 
   useEffect(() => {
     const checkAuthStatus = async () => {
+      // Rehydrated session: go straight to the feed, the root layout revalidates it
+      if (isLoggedIn) {
+        router.replace("/home")
+        return
+      }
+
       try {
         // Check if we have a token in AsyncStorage
         const token = await AsyncStorage.getItem("token")
 
         if (token) {
-          // If we have a token, try to get the current user
+          // No saved session yet (e.g. first launch after an update): fetch the current user
           try {
-            await dispatch(fetchUser())
-            router.replace("/home")
+            const resultAction = await dispatch(fetchUser())
+            router.replace(fetchUser.fulfilled.match(resultAction) ? "/home" : "/welcome")
           } catch (error) {
             console.error("Error fetching user:", error)
             router.replace("/welcome")
@@ -38,7 +45,7 @@ const StartPage = () => {
     }
 
     checkAuthStatus()
-  }, [dispatch, router])
+  }, [dispatch, router, isLoggedIn])
 
   return (
     <View style={{ flex: 1, alignItems: "center", justifyContent: "center" }}>
@@ -46,8 +46,26 @@ const Login = () => {
         router.replace("/home")
       } else if (loginUser.rejected.match(resultAction)) {
         // Login failed
-        const errorMessage = resultAction.payload?.message || "Email or password incorrect"
-        Alert.alert("Login", errorMessage)
+        const error = resultAction.payload
+        switch (error?.kind) {
+          case "auth":
+            Alert.alert("Login", "Email or password incorrect")
+            break
+          case "validation":
+            Alert.alert(
+              "Login",
+              Object.values(error.errors || {})
+                .flat()
+                .join("\n") || error.message,
+            )
+            break
+          case "network":
+          case "timeout":
+            Alert.alert("Login", "You're offline. Please check your connection and try again.")
+            break
+          default:
+            Alert.alert("Login", error?.message || "An error occurred during login")
+        }
       }
     } catch (error: any) {
       console.error("Login error:", error)
@@ -11,7 +11,9 @@ import { useRouter } from "expo-router"
 import Button from "../components/Button"
 import Icon from "../assets/icons"
 import Input from "../components/Input"
-import ApiService from "../services"
+import { getBackend } from "../services/backend"
+import { isApiError, isOfflineError } from "../services/apiErrors"
+import ErrorMessage from "../services/errorMessages"
 
 const SignUp = () => {
   const emailRef = useRef<string>("")
@@ -19,6 +21,7 @@ const SignUp = () => {
   const passwordRef = useRef<string>("")
   const passwordConfirmationRef = useRef<string>("")
   const [loading, setLoading] = useState<boolean>(false)
+  const [submitError, setSubmitError] = useState<unknown>(null)
 
   const router = useRouter()
 
@@ -39,35 +42,33 @@ const SignUp = () => {
     const password_confirmation = passwordConfirmationRef.current.trim()
 
     setLoading(true)
+    setSubmitError(null)
 
     try {
-      // Call the Rails API to register a new user
-      const response = await ApiService.post("/signup", {
-        user: {
-          name,
-          email,
-          password,
-          password_confirmation,
-        },
+      // Register the new user with the configured backend
+      await getBackend().auth.signUp({
+        name,
+        email,
+        password,
+        password_confirmation,
       })
 
-      if (response && response.user) {
-        Alert.alert("Success", "Account created successfully! Please login.", [
-          {
-            text: "OK",
-            onPress: () => router.push("/login"),
-          },
-        ])
-      } else if (response && response.errors) {
-        // Format and display errors
-        const errorMessages = Object.entries(response.errors)
-          .map(([key, errors]) => `${key} ${errors.join(", ")}`)
-          .join("\n")
-        Alert.alert("Sign up failed", errorMessages)
+      Alert.alert("Success", "Account created successfully! Please login.", [
+        {
+          text: "OK",
+          onPress: () => router.push("/login"),
+        },
+      ])
+    } catch (error) {
+      if (isApiError(error, "validation")) {
+        // Shown above the form
+        setSubmitError(error)
+      } else if (isOfflineError(error)) {
+        Alert.alert("Sign up", "You're offline. Please try again once you're connected.")
+      } else {
+        console.error("Sign up error:", error)
+        Alert.alert("Sign up", isApiError(error) ? error.message : "An error occurred during sign up")
       }
-    } catch (error: any) {
-      console.error("Sign up error:", error)
-      Alert.alert("Sign up", error.message || "An error occurred during sign up")
     } finally {
       setLoading(false)
     }
@@ -93,6 +94,7 @@ const SignUp = () => {
           <Text style={{ fontSize: hp(1.5), color: theme.colors.text }}>
             Please fill the details to create an account
           </Text>
+          <ErrorMessage error={submitError} />
           <Input
             icon={<Icon name="user" size={26} strokeWidth={1.6} />}
             placeholder="Enter your name"
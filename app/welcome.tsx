@@ -7,6 +7,7 @@ import { theme } from "../constants/theme"
 import { useRouter } from "expo-router"
 import Button from "../components/Button"
 import ScreenWrapper from "../components/ScreenWrapper"
+import { developerMenuEnabled } from "../services/config"
 
 const WelcomePage = () => {
   const router = useRouter()
@@ -20,7 +21,13 @@ const WelcomePage = () => {
 
         {/* title */}
         <View style={{ gap: 20 }}>
-          <Text style={styles.titlePrimary}>BookBug!</Text>
+          {/* long press opens the developer screen, outside of store builds */}
+          <Text
+            style={styles.titlePrimary}
+            onLongPress={developerMenuEnabled ? () => router.push("/developer") : undefined}
+          >
+            BookBug!
+          </Text>
           <Text style={styles.punchline}>Where every thought finds a home and every image tells a story.</Text>
         </View>
 
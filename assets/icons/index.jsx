@@ -22,6 +22,8 @@ import Delete from './Delete';
 import Logout from './logout';
 import Image from './Image';
 import Video from './Video';
+import VolumeHigh from './VolumeHigh';
+import VolumeOff from './VolumeOff';
 
 
 const icons = {
@@ -46,6 +48,8 @@ const icons = {
     logout: Logout,
     image: Image,
     video: Video,
+    volumeHigh: VolumeHigh,
+    volumeOff: VolumeOff,
 
 }
 
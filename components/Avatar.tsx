@@ -3,6 +3,10 @@ import { StyleSheet } from "react-native"
 import { hp } from "../helpers/common"
 import { theme } from "../constants/theme"
 import { Image } from "expo-image"
+import { useImageCachePolicy } from "../contexts/ImageCacheContext"
+
+// Shown while the avatar loads, and for users without one
+const DEFAULT_AVATAR = require("../assets/images/default-avatar.png")
 
 interface AvatarProps {
   uri?: string
@@ -12,13 +16,10 @@ interface AvatarProps {
 }
 
 const Avatar: React.FC<AvatarProps> = ({ uri, size = hp(4.5), rounded = theme.radius.md, style = {} }) => {
-  // Default placeholder image if no URI is provided
-  const defaultImage = "https://via.placeholder.com/150?text=User"
+  const cachePolicy = useImageCachePolicy()
 
   // Process the image URI
-  const getImageSource = (imageUri?: string): string => {
-    if (!imageUri) return defaultImage
-
+  const getImageSource = (imageUri: string): string => {
     // If it's already a complete URL, use it directly
     if (imageUri.startsWith("http")) {
       return imageUri
@@ -37,7 +38,11 @@ const Avatar: React.FC<AvatarProps> = ({ uri, size = hp(4.5), rounded = theme.ra
 
   return (
     <Image
-      source={{ uri: getImageSource(uri) }}
+      source={uri ? { uri: getImageSource(uri) } : DEFAULT_AVATAR}
+      placeholder={DEFAULT_AVATAR}
+      placeholderContentFit="cover"
+      recyclingKey={uri}
+      cachePolicy={cachePolicy}
       transition={100}
       style={[styles.avatar, { height: size, width: size, borderRadius: rounded }, style]}
       contentFit="cover"
@@ -9,7 +9,8 @@ import Icon from "../assets/icons"
 import Button from "./Button"
 import Input from "./Input"
 import * as ImagePicker from "expo-image-picker"
-import ApiService from "../services"
+import userApi from "../services/userApi"
+import { isApiError, isOfflineError } from "../services/apiErrors"
 import { useAppDispatch } from "../redux/hooks"
 import { updateUserProfile } from "../redux/session/sessionSlice"
 
@@ -59,27 +60,19 @@ const EditProfileModal = ({ open, toggle }) => {
 
       // Handle image upload if it's a new image
       if (formData.image && formData.image !== user?.avatar) {
-        // Create a form data object for the image
-        const imageFormData = new FormData()
-        imageFormData.append("avatar", {
+        // Upload the image
+        await userApi.uploadAvatar({
           uri: formData.image,
           type: "image/jpeg",
           name: "profile-image.jpg",
         })
 
-        // Upload the image
-        await ApiService.post("/users/upload-avatar", imageFormData, {
-          headers: {
-            "Content-Type": "multipart/form-data",
-          },
-        })
-
         // Add the image URL to userData
         userData.avatar = formData.image
       }
 
       // Update user profile
-      await ApiService.put(`/users/${user?.id}`, { user: userData })
+      await userApi.update(user?.id, { user: userData })
 
       // Update Redux state
       dispatch(updateUserProfile(userData))
@@ -87,8 +80,14 @@ const EditProfileModal = ({ open, toggle }) => {
       // Close modal
       toggle(false)
     } catch (error) {
-      console.error("Error updating profile:", error)
-      alert("Failed to update profile")
+      if (isApiError(error, "validation")) {
+        alert(Object.values(error.errors).flat().join("\n") || error.message)
+      } else if (isOfflineError(error)) {
+        alert("You're offline. Please try again once you're connected.")
+      } else {
+        console.error("Error updating profile:", error)
+        alert("Failed to update profile")
+      }
     } finally {
       setLoading(false)
     }
@@ -7,6 +7,14 @@ import { hp } from "../helpers/common"
 import { theme } from "../constants/theme"
 import BackButton from "./BackButton"
 
+/**
+ * @param {object} props
+ * @param {string} props.title
+ * @param {boolean} [props.showBackButton]
+ * @param {number} [props.mb] Bottom margin
+ * @param {() => void} [props.onBackPress] Defaults to going back
+ * @param {import("react").ReactNode} [props.rightComponent] Shown on the right, e.g. an action button
+ */
 const Header = ({ title, showBackButton = true, mb = 10, onBackPress, rightComponent }) => {
   const router = useRouter()
 
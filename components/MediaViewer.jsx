@@ -1,66 +1,123 @@
 "use client"
 
-import { View, StyleSheet, Image, TouchableOpacity } from "react-native"
-import { useState, useEffect } from "react"
+import { View, Text, StyleSheet, FlatList } from "react-native"
+import { useMemo, useState } from "react"
 import VideoPlayer from "./VideoPlayer"
+import ProgressiveImage from "./ProgressiveImage"
 import { theme } from "../constants/theme"
-import Icon from "../assets/icons"
+import { hp } from "../helpers/common"
 
-const MediaViewer = ({ media, onRemove, style = {} }) => {
-  const [mediaType, setMediaType] = useState(null)
+// Determine media type from a MIME type or a file extension
+const typeOf = (type, uri) => {
+  if (type === "video" || type?.startsWith("video")) return "video"
+  if (type === "image" || type?.startsWith("image")) return "image"
+  return uri?.match(/\.(mp4|mov|avi|wmv|m4v|webm)$/i) ? "video" : "image"
+}
 
-  useEffect(() => {
-    if (!media) {
-      setMediaType(null)
-      return
-    }
+// Attachments of a post, or a single URL or picked file
+const toItems = (media) => {
+  if (!media) return []
+
+  return (Array.isArray(media) ? media : [media]).map((item, index) => {
+    if (typeof item === "string") return { key: String(index), url: item, type: typeOf(undefined, item) }
 
-    // Determine media type
-    if (typeof media === "string") {
-      if (media.match(/\.(jpeg|jpg|gif|png)$/i)) {
-        setMediaType("image")
-      } else if (media.match(/\.(mp4|mov|avi|wmv)$/i)) {
-        setMediaType("video")
-      } else {
-        setMediaType("unknown")
-      }
-    } else if (media.type) {
-      if (media.type.startsWith("image")) {
-        setMediaType("image")
-      } else if (media.type.startsWith("video")) {
-        setMediaType("video")
-      } else {
-        setMediaType("unknown")
-      }
-    } else if (media.uri) {
-      if (media.uri.match(/\.(jpeg|jpg|gif|png)$/i)) {
-        setMediaType("image")
-      } else if (media.uri.match(/\.(mp4|mov|avi|wmv)$/i)) {
-        setMediaType("video")
-      } else {
-        setMediaType("unknown")
-      }
+    const url = item.url || item.uri
+    return {
+      key: String(item.id ?? index),
+      url,
+      type: typeOf(item.type, url),
+      alt: item.alt,
+      width: item.width,
+      height: item.height,
+      blurhash: item.blurhash,
+      thumbnail: item.thumbnail_url || item.thumbnail,
+      duration: item.duration,
     }
-  }, [media])
+  })
+}
+
+// Widest and tallest shapes shown whole; others are cropped to them
+const MIN_ASPECT_RATIO = 4 / 5
+const MAX_ASPECT_RATIO = 1.91
+
+// Shape of the viewer: the first item's, so the feed does not jump once it loads
+const aspectRatioOf = (item) => {
+  if (!(item?.width > 0 && item?.height > 0)) return null
+  return Math.min(MAX_ASPECT_RATIO, Math.max(MIN_ASPECT_RATIO, item.width / item.height))
+}
+
+// Swipeable carousel of images and videos, with a page indicator when there is more than one.
+// Items without a size fall back to a fixed height. With `playing` set, as in the feed, videos play on their
+// own (muted by default) while it is true and the video is the page shown; without it they have controls.
+// Props are read in the body so TypeScript screens may pass `playing` as a boolean
+const MediaViewer = (props) => {
+  const { media, height = hp(40), playing = undefined, style = {} } = props
+  const items = useMemo(() => toItems(media), [media])
+  const [size, setSize] = useState({ width: 0, height: 0 })
+  const [page, setPage] = useState(0)
+
+  if (items.length === 0) return null
 
-  if (!media) return null
+  const aspectRatio = aspectRatioOf(items[0])
+  const { width } = size
 
   return (
-    <View style={[styles.container, style]}>
-      {mediaType === "image" && (
-        <Image
-          source={{ uri: typeof media === "string" ? media : media.uri }}
-          style={styles.media}
-          resizeMode="cover"
+    <View
+      style={[styles.container, aspectRatio ? { aspectRatio } : { height }, style]}
+      onLayout={(event) => setSize(event.nativeEvent.layout)}
+      accessibilityLabel={items.length > 1 ? `Media ${page + 1} of ${items.length}` : undefined}
+    >
+      {/* Pages are the size of the viewer, so it is measured first */}
+      {width > 0 && (
+        <FlatList
+          data={items}
+          horizontal
+          pagingEnabled
+          nestedScrollEnabled
+          scrollEnabled={items.length > 1}
+          showsHorizontalScrollIndicator={false}
+          keyExtractor={(item) => item.key}
+          getItemLayout={(_, index) => ({ length: width, offset: width * index, index })}
+          extraData={`${playing}-${page}`}
+          onMomentumScrollEnd={(event) => setPage(Math.round(event.nativeEvent.contentOffset.x / width))}
+          renderItem={({ item, index }) => (
+            <View style={{ width, height: size.height }}>
+              {item.type === "video" ? (
+                <VideoPlayer
+                  source={item.url}
+                  poster={item.thumbnail}
+                  blurhash={item.blurhash}
+                  duration={item.duration}
+                  playing={playing === undefined ? undefined : playing && index === page}
+                  style={styles.video}
+                />
+              ) : (
+                <ProgressiveImage
+                  uri={item.url}
+                  thumbnailUri={item.thumbnail}
+                  blurhash={item.blurhash}
+                  alt={item.alt}
+                  style={styles.media}
+                />
+              )}
+            </View>
+          )}
         />
       )}
 
-      {mediaType === "video" && <VideoPlayer source={typeof media === "string" ? media : media.uri} />}
-
-      {onRemove && (
-        <TouchableOpacity style={styles.removeButton} onPress={onRemove}>
-          <Icon name="x-circle" size={24} color={theme.colors.rose} />
-        </TouchableOpacity>
+      {items.length > 1 && (
+        <>
+          <View style={styles.counter} pointerEvents="none">
+            <Text style={styles.counterText}>
+              {page + 1}/{items.length}
+            </Text>
+          </View>
+          <View style={styles.dots} pointerEvents="none">
+            {items.map((item, index) => (
+              <View key={item.key} style={[styles.dot, index === page && styles.dotActive]} />
+            ))}
+          </View>
+        </>
       )}
     </View>
   )
@@ -69,23 +126,54 @@ const MediaViewer = ({ media, onRemove, style = {} }) => {
 const styles = StyleSheet.create({
   container: {
     width: "100%",
-    height: 250,
     borderRadius: 8,
     overflow: "hidden",
-    backgroundColor: theme.colors.background,
+    backgroundColor: theme.colors.gray,
     position: "relative",
   },
   media: {
     width: "100%",
     height: "100%",
   },
-  removeButton: {
+  video: {
+    height: "100%",
+    borderRadius: 0,
+  },
+  counter: {
+    position: "absolute",
+    top: 10,
+    right: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 12,
+    backgroundColor: "rgba(0,0,0,0.55)",
+  },
+  counterText: {
+    color: "white",
+    fontSize: hp(1.4),
+    fontWeight: "600",
+  },
+  dots: {
     position: "absolute",
-    top: 8,
-    right: 8,
-    backgroundColor: "rgba(255,255,255,0.8)",
-    borderRadius: 20,
-    padding: 4,
+    bottom: 10,
+    left: 0,
+    right: 0,
+    flexDirection: "row",
+    justifyContent: "center",
+    gap: 5,
+  },
+  dot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: "rgba(255,255,255,0.6)",
+  },
+  dotActive: {
+    backgroundColor: "white",
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginTop: -1,
   },
 })
 
@@ -0,0 +1,87 @@
+import type React from "react"
+import { View, Text, StyleSheet, Pressable } from "react-native"
+import Avatar from "./Avatar"
+import Loading from "./Loading"
+import { theme } from "../constants/theme"
+import { hp } from "../helpers/common"
+import type { MentionSuggestion } from "../hooks/useMentionSuggestions"
+
+interface MentionSuggestionsProps {
+  suggestions: MentionSuggestion[]
+  highlighted: number
+  loading?: boolean
+  onSelect: (user: MentionSuggestion) => void
+  onHighlight?: (index: number) => void
+  style?: object
+}
+
+// Users to mention, shown under the composer while "@name" is typed
+const MentionSuggestions: React.FC<MentionSuggestionsProps> = ({
+  suggestions,
+  highlighted,
+  loading = false,
+  onSelect,
+  onHighlight,
+  style = {},
+}) => {
+  if (suggestions.length === 0 && !loading) return null
+
+  return (
+    <View style={[styles.container, style]}>
+      {suggestions.map((user, index) => (
+        <Pressable
+          key={user.id}
+          style={[styles.row, index === highlighted && styles.highlighted]}
+          onPress={() => onSelect(user)}
+          onHoverIn={() => onHighlight?.(index)}
+        >
+          <Avatar uri={user.gravatar_id} size={hp(3.6)} rounded={theme.radius.sm} />
+          <Text style={styles.name} numberOfLines={1}>
+            {user.name}
+          </Text>
+          {user.followed && <Text style={styles.followed}>Following</Text>}
+        </Pressable>
+      ))}
+      {loading && suggestions.length === 0 && (
+        <View style={styles.loading}>
+          <Loading size="small" />
+        </View>
+      )}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderWidth: 1,
+    borderColor: theme.colors.gray,
+    borderRadius: theme.radius.md,
+    backgroundColor: "white",
+    overflow: "hidden",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  highlighted: {
+    backgroundColor: theme.colors.gray,
+  },
+  name: {
+    flex: 1,
+    fontSize: hp(1.7),
+    color: theme.colors.textDark,
+    fontWeight: "500",
+  },
+  followed: {
+    fontSize: hp(1.4),
+    color: theme.colors.textLight,
+  },
+  loading: {
+    paddingVertical: 10,
+  },
+})
+
+export default MentionSuggestions
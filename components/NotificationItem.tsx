@@ -4,7 +4,9 @@ import moment from "moment"
 import Avatar from "./Avatar"
 import { theme } from "../constants/theme"
 import { hp } from "../helpers/common"
+import { htmlToText } from "../helpers/html"
 import type { Router } from "expo-router"
+import type { NotificationData } from "../services/notificationApi"
 
 interface NotificationSender {
   name: string
@@ -12,18 +14,13 @@ interface NotificationSender {
   avatar?: string
 }
 
-interface NotificationData {
-  postId: number
-  commentId?: number
-  [key: string]: any
-}
-
 interface NotificationItemProps {
   router: Router
   item: {
     id: number
     title: string
-    data: NotificationData | string
+    content?: string
+    data: NotificationData
     created_at: string
     sender?: NotificationSender
   }
@@ -31,20 +28,17 @@ interface NotificationItemProps {
 
 const NotificationItem: React.FC<NotificationItemProps> = ({ router, item }) => {
   const createdAt = moment(item?.created_at).format("MMM D")
+  // The post or comment the notification is about, when the server sends it
+  const preview = item?.content && item.content !== item.title ? htmlToText(item.content) : ""
 
   const handleClick = () => {
-    try {
-      // Parse the data if it's a string, otherwise use it directly
-      const data: NotificationData = typeof item.data === "string" ? JSON.parse(item.data) : item.data
-      const { postId, commentId } = data
+    const { postId, commentId } = item.data
+    if (postId === undefined) return
 
-      router.push({
-        pathname: "(main)/postDetails",
-        params: { id: postId, commentId },
-      })
-    } catch (error) {
-      console.error("Error navigating to notification:", error)
-    }
+    router.push({
+      pathname: "(main)/postDetails",
+      params: { id: postId, commentId },
+    })
   }
 
   return (
@@ -53,6 +47,11 @@ const NotificationItem: React.FC<NotificationItemProps> = ({ router, item }) =>
       <View style={styles.nameTitle}>
         <Text style={styles.text}>{item?.sender?.name}</Text>
         <Text style={[styles.text, { color: theme.colors.textDark }]}>{item?.title}</Text>
+        {!!preview && (
+          <Text style={styles.preview} numberOfLines={2}>
+            {preview}
+          </Text>
+        )}
       </View>
       <Text style={[styles.text, { color: theme.colors.textLight }]}>{createdAt}</Text>
     </TouchableOpacity>
@@ -82,6 +81,10 @@ const styles = StyleSheet.create({
     fontWeight: theme.fonts.medium,
     color: theme.colors.text,
   },
+  preview: {
+    fontSize: hp(1.5),
+    color: theme.colors.textLight,
+  },
 })
 
 export default NotificationItem
@@ -0,0 +1,47 @@
+"use client"
+
+import { useMemo } from "react"
+import RenderHtml from "react-native-render-html"
+import { theme } from "../constants/theme"
+import { hp } from "../helpers/common"
+import { sanitizeHtml } from "../helpers/html"
+import { linkify } from "../helpers/postContent"
+import { postBodyHtml } from "../helpers/postFormat"
+import { useContentLinks } from "../hooks/useContentLinks"
+
+export const textStyle = {
+  color: theme.colors.dark,
+  fontSize: hp(1.75),
+}
+
+// One style per element a sanitized body can hold
+const tagsStyles = {
+  p: textStyle,
+  ol: textStyle,
+  ul: textStyle,
+  h1: {
+    color: theme.colors.dark,
+  },
+  h4: {
+    color: theme.colors.dark,
+  },
+  // Hashtags, mentions and links
+  a: {
+    color: theme.colors.primary,
+    fontWeight: theme.fonts.semibold,
+    textDecorationLine: "none",
+  },
+}
+
+// Rendered body of a post in any format, e.g. in the feed or as a preview while composing
+const PostBody = ({ content, format = "html" }) => {
+  const openLink = useContentLinks()
+  const renderersProps = useMemo(() => ({ a: { onPress: (_event, href) => openLink(href) } }), [openLink])
+
+  // Sanitized, since bodies may come from other clients; hashtags and mentions become links
+  const source = useMemo(() => ({ html: linkify(sanitizeHtml(postBodyHtml(content, format))) }), [content, format])
+
+  return <RenderHtml contentWidth={hp(100)} source={source} tagsStyles={tagsStyles} renderersProps={renderersProps} />
+}
+
+export default PostBody
@@ -0,0 +1,312 @@
+"use client"
+
+import { View, Text, StyleSheet, TouchableOpacity, Alert } from "react-native"
+import { useState } from "react"
+import type { useRouter } from "expo-router"
+import { theme } from "../constants/theme"
+import { hp } from "../helpers/common"
+import { highlightSegments, snippetAround } from "../helpers/highlight"
+import { htmlToText } from "../helpers/html"
+import { postBodyHtml } from "../helpers/postFormat"
+import moment from "moment"
+import Icon from "../assets/icons"
+import { Share } from "react-native"
+import Loading from "./Loading"
+import Avatar from "./Avatar"
+import PostBody, { textStyle } from "./PostBody"
+import MediaViewer from "./MediaViewer"
+import outbox from "../services/outbox"
+import { isApiError } from "../services/apiErrors"
+import { useOutbox } from "../hooks/useOutbox"
+import { useAppDispatch } from "../redux/hooks"
+import { postLiked, postUnliked } from "../redux/posts/postsSlice"
+import type { User } from "../redux/session/sessionSlice"
+import type { Attachment, AttachmentMeta, Micropost } from "../services/micropostApi"
+
+// A post written offline, shown in a "sending" state until the outbox sends it; its files are still local
+export type PendingPost = Omit<Micropost, "id" | "timestamp" | "user_id" | "attachments"> & {
+  id: string
+  pending: true
+  timestamp?: string
+  attachments?: Array<Attachment & AttachmentMeta>
+}
+
+interface PostCardProps {
+  item: (Micropost & { pending?: false }) | PendingPost
+  currentUser: User | null
+  router: ReturnType<typeof useRouter>
+  showMoreIcon?: boolean
+  hasShadow?: boolean
+  showDelete?: boolean
+  onDelete?: (post: Micropost) => void
+  onEdit?: (post: Micropost) => void
+  // Search query whose terms are highlighted in a text snippet instead of the full post
+  highlight?: string
+  // Whether the post's video plays; lists set it for their most visible post (see useFeedVideoAutoplay)
+  playVideo?: boolean
+}
+
+const PostCard = ({
+  item,
+  currentUser,
+  router,
+  showMoreIcon = true,
+  hasShadow = true,
+  showDelete = false,
+  onDelete = () => {},
+  onEdit = () => {},
+  highlight = "",
+  playVideo = false,
+}: PostCardProps) => {
+  const [loading, setLoading] = useState(false)
+  const { isSending } = useOutbox()
+  const dispatch = useAppDispatch()
+
+  // Likes live in the shared posts cache so every screen showing this post stays in sync
+  const likes = item?.postLikes || []
+
+  const liked = likes.filter((like) => like.userId === currentUser?.id)[0] ? true : false
+  const likeSending = isSending(
+    (entry) => (entry.type === "like" || entry.type === "unlike") && entry.postId === item?.id,
+  )
+  const createdAt = moment(item?.created_at || item?.timestamp).format("MMM D")
+  // Text of the body, whatever its format
+  const bodyText = () => htmlToText(postBodyHtml(item?.body || item?.content, item?.format))
+  const snippet = highlight ? snippetAround(bodyText().replace(/\s+/g, " "), highlight) : ""
+  const shadowStyles = {
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.06,
+    shadowRadius: 6,
+    elevation: 1,
+  }
+
+  const onLike = async () => {
+    if (!currentUser || item.pending) return
+
+    const like = { postId: item?.id, userId: currentUser.id }
+    try {
+      if (liked) {
+        // Unlike post
+        dispatch(postUnliked(like))
+        await outbox.perform({ type: "unlike", postId: item?.id })
+      } else {
+        // Like post
+        dispatch(postLiked(like))
+        await outbox.perform({ type: "like", postId: item?.id })
+      }
+    } catch (error) {
+      console.error("Error toggling like:", error)
+      // Roll back the optimistic update
+      dispatch(liked ? postLiked(like) : postUnliked(like))
+      Alert.alert("Post", isApiError(error, "notFound") ? "This post has been deleted." : "Something went wrong!")
+    }
+  }
+
+  const onShare = async () => {
+    try {
+      const text = bodyText()
+      const content = { message: text }
+      if (item?.attachments?.length) {
+        setLoading(true)
+        // For simplicity, we're just sharing the text content
+        content.message = `Check out this post: ${text}`
+        setLoading(false)
+      }
+      await Share.share(content)
+    } catch (error) {
+      console.error("Error sharing post:", error)
+      Alert.alert("Share", "Failed to share post")
+    }
+  }
+
+  const handlePostDelete = (post: Micropost) => {
+    Alert.alert("Confirm", "Are you sure you want to delete this post?", [
+      {
+        text: "Cancel",
+        onPress: () => console.log("Cancel delete"),
+        style: "cancel",
+      },
+      {
+        text: "Delete",
+        onPress: () => onDelete(post),
+        style: "destructive",
+      },
+    ])
+  }
+
+  const openPostDetails = () => {
+    router.push({
+      pathname: "(main)/postDetails",
+      params: { id: item?.id },
+    })
+  }
+
+  return (
+    <View style={[styles.container, hasShadow && shadowStyles]}>
+      <View style={styles.header}>
+        {/* user info and post time */}
+        <View style={styles.userInfo}>
+          <Avatar size={hp(4.5)} uri={item?.user?.avatar || item?.gravatar_id} rounded={theme.radius.md} />
+          <View style={{ gap: 2 }}>
+            <Text style={styles.username}>{item?.user?.name || item?.user_name || "User"}</Text>
+            <Text style={styles.postTime}>{item?.pending ? "Sending…" : item?.timestamp}</Text>
+          </View>
+        </View>
+
+        {/* actions */}
+        {showMoreIcon && !item?.pending && (
+          <TouchableOpacity onPress={openPostDetails}>
+            <Icon name="threeDotsHorizontal" size={hp(3.4)} strokeWidth={3} color={theme.colors.text} />
+          </TouchableOpacity>
+        )}
+        {showDelete && !item.pending && currentUser?.id === (item.userId || item.user_id) && (
+          <View style={styles.actions}>
+            <TouchableOpacity onPress={() => onEdit(item)}>
+              <Icon name="edit" size={hp(2.5)} color={theme.colors.text} />
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => handlePostDelete(item)}>
+              <Icon name="delete" size={hp(2.5)} color={theme.colors.rose} />
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+
+      {/* post image & body */}
+      <View style={styles.content}>
+        <View style={styles.postBody}>
+          {(item?.body || item?.content) &&
+            (highlight ? (
+              <Text style={textStyle}>
+                {highlightSegments(snippet, highlight).map((segment, index) =>
+                  segment.match ? (
+                    <Text key={index} style={styles.highlight}>
+                      {segment.text}
+                    </Text>
+                  ) : (
+                    segment.text
+                  ),
+                )}
+              </Text>
+            ) : (
+              <PostBody content={item?.body || item?.content} format={item?.format} />
+            ))}
+        </View>
+
+        {/* post images and videos */}
+        {Boolean(item?.attachments?.length) && (
+          <MediaViewer media={item.attachments} playing={playVideo} style={styles.postMedia} />
+        )}
+      </View>
+
+      {/* like & comment */}
+      {!item?.pending && (
+        <View style={styles.footer}>
+          <View style={styles.footerButton}>
+            <TouchableOpacity onPress={onLike}>
+              <Icon
+                name="heart"
+                fill={liked ? theme.colors.rose : "transparent"}
+                size={24}
+                color={liked ? theme.colors.rose : theme.colors.textLight}
+              />
+            </TouchableOpacity>
+            <Text style={styles.count}>{likes?.length || 0}</Text>
+            {likeSending && <Text style={styles.sending}>Sending…</Text>}
+          </View>
+          <View style={styles.footerButton}>
+            <TouchableOpacity onPress={openPostDetails}>
+              <Icon name="comment" size={24} color={theme.colors.textLight} />
+            </TouchableOpacity>
+            <Text style={styles.count}>{item?.comments?.[0]?.count || 0}</Text>
+          </View>
+          <View style={styles.footerButton}>
+            {loading ? (
+              <Loading size="small" />
+            ) : (
+              <TouchableOpacity onPress={onShare}>
+                <Icon name="share" size={24} color={theme.colors.textLight} />
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      )}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 10,
+    marginBottom: 15,
+    borderRadius: theme.radius.xxl * 1.1,
+    borderCurve: "continuous",
+    padding: 10,
+    paddingVertical: 12,
+    backgroundColor: "white",
+    borderWidth: 0.5,
+    borderColor: theme.colors.gray,
+    shadowColor: "#000",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  userInfo: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  username: {
+    fontSize: hp(1.7),
+    color: theme.colors.textDark,
+    fontWeight: "500",
+  },
+  postTime: {
+    fontSize: hp(1.4),
+    color: theme.colors.textLight,
+    fontWeight: "500",
+  },
+  content: {
+    gap: 10,
+  },
+  postMedia: {
+    borderRadius: theme.radius.xl,
+    borderCurve: "continuous",
+  },
+  postBody: {
+    marginLeft: 5,
+  },
+  footer: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 15,
+  },
+  footerButton: {
+    marginLeft: 5,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  actions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 18,
+  },
+  count: {
+    color: theme.colors.text,
+    fontSize: hp(1.8),
+  },
+  highlight: {
+    fontWeight: "700",
+    backgroundColor: "#fef3c7",
+  },
+  sending: {
+    color: theme.colors.textLight,
+    fontSize: hp(1.4),
+  },
+})
+
+export default PostCard
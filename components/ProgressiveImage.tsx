@@ -0,0 +1,56 @@
+import type React from "react"
+import { useState } from "react"
+import { View, StyleSheet } from "react-native"
+import { Image } from "expo-image"
+import { useImageCachePolicy } from "../contexts/ImageCacheContext"
+
+interface ProgressiveImageProps {
+  uri: string
+  // Small version shown while the full image loads
+  thumbnailUri?: string
+  // Shown until the thumbnail is there
+  blurhash?: string
+  alt?: string
+  style?: object
+}
+
+// Image loading in steps: blurhash, then the thumbnail, then the full image fading in over it
+const ProgressiveImage: React.FC<ProgressiveImageProps> = ({ uri, thumbnailUri, blurhash, alt, style = {} }) => {
+  const cachePolicy = useImageCachePolicy()
+  // Kept per URI, so a reused view shows the placeholders of its new image
+  const [loadedUri, setLoadedUri] = useState<string | null>(null)
+  const loaded = loadedUri === uri
+
+  return (
+    <View style={[styles.container, style]}>
+      {!loaded && (thumbnailUri || blurhash) && (
+        <Image
+          source={thumbnailUri ? { uri: thumbnailUri } : undefined}
+          placeholder={blurhash ? { blurhash } : undefined}
+          style={StyleSheet.absoluteFill}
+          contentFit="cover"
+          cachePolicy="memory"
+        />
+      )}
+      <Image
+        source={{ uri }}
+        recyclingKey={uri}
+        style={StyleSheet.absoluteFill}
+        contentFit="cover"
+        transition={200}
+        cachePolicy={cachePolicy}
+        onLoad={() => setLoadedUri(uri)}
+        accessible
+        accessibilityLabel={alt || "Image"}
+      />
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    overflow: "hidden",
+  },
+})
+
+export default ProgressiveImage
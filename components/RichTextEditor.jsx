@@ -1,25 +1,99 @@
 "use client"
 
+import { useEffect } from "react"
 import { View, Text, StyleSheet } from "react-native"
 import { theme } from "../constants/theme"
 import { actions, RichEditor, RichToolbar } from "react-native-pell-rich-editor"
+import MentionSuggestions from "./MentionSuggestions"
+import { useMentionSuggestions } from "../hooks/useMentionSuggestions"
+import { mentionAnchor, mentionQueryAt } from "../helpers/postContent"
+
+// Runs in the editor's web view: reports the text before the caret so the app can spot "@name",
+// hands navigation keys to the app while suggestions show, and replaces "@name" with a mention token
+const MENTION_SCRIPT = `(function () {
+  var content = document.getElementById("content");
+  if (!content || window.__mentions) return;
+  window.__mentions = { open: false };
+
+  function post(type, data) {
+    window.ReactNativeWebView.postMessage(JSON.stringify({ type: type, data: data }));
+  }
+  function textBeforeCaret() {
+    var selection = window.getSelection();
+    if (!selection.rangeCount || !selection.isCollapsed) return "";
+    var node = selection.anchorNode;
+    if (!node || node.nodeType !== 3) return "";
+    // Inside a link, e.g. a mention token
+    if (node.parentElement && node.parentElement.closest("a")) return "";
+    return node.textContent.slice(0, selection.anchorOffset);
+  }
+  function report() {
+    post("MENTION_TEXT", textBeforeCaret());
+  }
+
+  content.addEventListener("input", report);
+  content.addEventListener("click", report);
+  content.addEventListener("keyup", function (event) {
+    if (!window.__mentions.open && event.key.indexOf("Arrow") === 0) report();
+  });
+  content.addEventListener("keydown", function (event) {
+    if (!window.__mentions.open) return;
+    if (["ArrowUp", "ArrowDown", "Enter", "Tab", "Escape"].indexOf(event.key) === -1) return;
+    event.preventDefault();
+    event.stopImmediatePropagation();
+    post("MENTION_KEY", event.key);
+  }, true);
+
+  window.__mentions.insert = function (length, html) {
+    content.focus();
+    var selection = window.getSelection();
+    var node = selection.anchorNode;
+    if (node && node.nodeType === 3) {
+      var range = document.createRange();
+      range.setStart(node, Math.max(0, selection.anchorOffset - length));
+      range.setEnd(node, selection.anchorOffset);
+      selection.removeAllRanges();
+      selection.addRange(range);
+    }
+    document.execCommand("insertHTML", false, html + "&nbsp;");
+  };
+})();
+true;`
 
 const RichTextEditor = ({ initialValue, editorRef, onChange }) => {
+  const mentions = useMentionSuggestions((user) => {
+    // Replace the typed "@name" with the token
+    const typed = (mentions.query || "").length + 1
+    editorRef.current?.injectJavascript(
+      `window.__mentions && window.__mentions.insert(${typed}, ${JSON.stringify(mentionAnchor(user))}); true;`,
+    )
+  })
+  const open = mentions.suggestions.length > 0
+
+  // While suggestions show, the editor leaves the navigation keys to them
+  useEffect(() => {
+    editorRef.current?.injectJavascript(`window.__mentions && (window.__mentions.open = ${open}); true;`)
+  }, [open, editorRef])
+
+  const handleMessage = ({ type, data }) => {
+    if (type === "MENTION_TEXT") {
+      const typing = mentionQueryAt(data || "")
+      mentions.setQuery(typing ? typing.query : null)
+    } else if (type === "MENTION_KEY") {
+      mentions.handleKey(data)
+    }
+  }
+
   return (
     <View style={{ minHeight: 285 }}>
       <RichToolbar
+        // Only formatting the sanitizer keeps (see helpers/html.ts)
         actions={[
-          actions.setStrikethrough,
           actions.removeFormat,
           actions.setBold,
           actions.setItalic,
+          actions.insertBulletsList,
           actions.insertOrderedList,
-          actions.blockquote,
-          actions.alignLeft,
-          actions.alignCenter,
-          actions.alignRight,
-          actions.code,
-          actions.line,
           actions.heading1,
           actions.heading4,
         ]}
@@ -33,14 +107,26 @@ const RichTextEditor = ({ initialValue, editorRef, onChange }) => {
         disabled={false}
         selectedIconTint={theme.colors.primaryDark}
       />
+      {/* Above the editor, so the keyboard does not hide them */}
+      <MentionSuggestions
+        suggestions={mentions.suggestions}
+        highlighted={mentions.highlighted}
+        loading={mentions.loading}
+        onSelect={mentions.select}
+        onHighlight={mentions.setHighlighted}
+        style={styles.suggestions}
+      />
       <RichEditor
         ref={editorRef}
         containerStyle={styles.rich}
         editorStyle={styles.contentStyle}
         placeholder={"What's on your mind?"}
         onChange={onChange}
+        onMessage={handleMessage}
         initialContentHTML={initialValue}
         editorInitializedCallback={() => {
+          editorRef.current?.injectJavascript(MENTION_SCRIPT)
+
           // If there's an initial value and the editor is ready, set it
           if (initialValue && editorRef.current) {
             setTimeout(() => {
@@ -73,6 +159,9 @@ const styles = StyleSheet.create({
     borderTopRightRadius: theme.radius.xl,
     backgroundColor: theme.colors.gray,
   },
+  suggestions: {
+    marginVertical: 6,
+  },
   flatStyle: {
     paddingHorizontal: 8,
     gap: 3,
@@ -1,14 +1,17 @@
 import { View, StyleSheet, SafeAreaView, StatusBar, Platform, type ViewStyle } from "react-native"
 import { useSafeAreaInsets } from "react-native-safe-area-context"
 import type React from "react"
+import { ImageCacheProvider, type ImageCachePolicy } from "../contexts/ImageCacheContext"
 
 interface ScreenWrapperProps {
   children: React.ReactNode
   bg?: string
   style?: ViewStyle
+  // Cache policy of the images on the screen
+  imageCache?: ImageCachePolicy
 }
 
-const ScreenWrapper: React.FC<ScreenWrapperProps> = ({ children, bg = "#f5f5f5", style = {} }) => {
+const ScreenWrapper: React.FC<ScreenWrapperProps> = ({ children, bg = "#f5f5f5", style = {}, imageCache = "disk" }) => {
   const insets = useSafeAreaInsets()
 
   return (
@@ -26,7 +29,7 @@ const ScreenWrapper: React.FC<ScreenWrapperProps> = ({ children, bg = "#f5f5f5",
           style,
         ]}
       >
-        {children}
+        <ImageCacheProvider value={imageCache}>{children}</ImageCacheProvider>
       </View>
     </SafeAreaView>
   )
@@ -1,47 +1,110 @@
 "use client"
 
-import { View, StyleSheet, ActivityIndicator } from "react-native"
-import { useState, useRef } from "react"
-import { Video as ExpoVideo } from "expo-av"
+import { View, Text, StyleSheet, ActivityIndicator, Pressable } from "react-native"
+import { useState, useEffect } from "react"
+import { useVideoPlayer, VideoView } from "expo-video"
+import { Image } from "expo-image"
+import Icon from "../assets/icons"
 import { theme } from "../constants/theme"
+import { formatDuration, hp } from "../helpers/common"
+import { useImageCachePolicy } from "../contexts/ImageCacheContext"
+import { useVideoMuted } from "../hooks/useVideoMuted"
 
-const VideoPlayer = ({ source, style = {}, autoplay = false }) => {
-  const [status, setStatus] = useState({})
+// Video with its poster frame until it plays.
+// Without `playing` it has the native controls; with it (feed videos) it plays and pauses as told,
+// following the remembered mute setting, with its length and a sound button on top.
+const VideoPlayer = ({
+  source,
+  poster = undefined,
+  blurhash = undefined,
+  duration = undefined,
+  playing = undefined,
+  style = {},
+}) => {
+  const managed = playing !== undefined
+  const cachePolicy = useImageCachePolicy()
+  const [muted, toggleMuted] = useVideoMuted()
   const [loading, setLoading] = useState(true)
-  const videoRef = useRef(null)
+  // Set once the first frame is shown, hiding the poster
+  const [started, setStarted] = useState(false)
+  const [length, setLength] = useState(duration)
 
-  // Handle video load
-  const handleLoad = () => {
-    setLoading(false)
-    if (autoplay && videoRef.current) {
-      videoRef.current.playAsync()
-    }
-  }
+  const player = useVideoPlayer(typeof source === "string" ? source : source?.uri, (player) => {
+    player.loop = true
+  })
 
-  // Handle video error
-  const handleError = (error) => {
-    console.error("Video error:", error)
-    setLoading(false)
-  }
+  useEffect(() => {
+    const subscriptions = [
+      player.addListener("statusChange", ({ status, error }) => {
+        setLoading(status === "loading")
+        if (status === "readyToPlay" && player.duration > 0) setLength(player.duration)
+        if (error) console.error("Video error:", error)
+      }),
+      player.addListener("playingChange", ({ isPlaying }) => {
+        if (isPlaying) setStarted(true)
+      }),
+    ]
+    return () => subscriptions.forEach((subscription) => subscription.remove())
+  }, [player])
+
+  // Only feed videos start muted; one opened on its own plays with sound
+  useEffect(() => {
+    player.muted = managed && muted
+  }, [player, managed, muted])
+
+  useEffect(() => {
+    if (!managed) return
+    if (playing) player.play()
+    else player.pause()
+  }, [player, managed, playing])
+
+  const showPoster = !started && Boolean(poster || blurhash)
 
   return (
     <View style={[styles.container, style]}>
-      <ExpoVideo
-        ref={videoRef}
+      <VideoView
         style={styles.video}
-        source={typeof source === "string" ? { uri: source } : source}
-        useNativeControls
-        resizeMode="contain"
-        isLooping
-        onPlaybackStatusUpdate={(status) => setStatus(() => status)}
-        onLoad={handleLoad}
-        onError={handleError}
+        player={player}
+        nativeControls={!managed}
+        contentFit="contain"
+        allowsFullscreen={!managed}
       />
-      {loading && (
-        <View style={styles.loadingContainer}>
+
+      {showPoster && (
+        <Image
+          source={poster ? { uri: poster } : undefined}
+          placeholder={blurhash ? { blurhash } : undefined}
+          style={StyleSheet.absoluteFill}
+          contentFit="contain"
+          cachePolicy={cachePolicy}
+          pointerEvents="none"
+        />
+      )}
+
+      {loading && (!managed || playing) && (
+        <View style={styles.loadingContainer} pointerEvents="none">
           <ActivityIndicator size="large" color={theme.colors.primary} />
         </View>
       )}
+
+      {managed && (
+        <>
+          {length > 0 && (
+            <View style={styles.duration} pointerEvents="none">
+              <Text style={styles.durationText}>{formatDuration(length)}</Text>
+            </View>
+          )}
+          <Pressable
+            style={styles.mute}
+            onPress={toggleMuted}
+            hitSlop={8}
+            accessibilityRole="button"
+            accessibilityLabel={muted ? "Turn sound on" : "Turn sound off"}
+          >
+            <Icon name={muted ? "volumeOff" : "volumeHigh"} size={hp(2.2)} strokeWidth={2} color="white" />
+          </Pressable>
+        </>
+      )}
     </View>
   )
 }
@@ -64,6 +127,28 @@ const styles = StyleSheet.create({
     alignItems: "center",
     backgroundColor: "rgba(0,0,0,0.3)",
   },
+  duration: {
+    position: "absolute",
+    bottom: 10,
+    left: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 12,
+    backgroundColor: "rgba(0,0,0,0.55)",
+  },
+  durationText: {
+    color: "white",
+    fontSize: hp(1.4),
+    fontWeight: "600",
+  },
+  mute: {
+    position: "absolute",
+    bottom: 8,
+    right: 8,
+    padding: 6,
+    borderRadius: 20,
+    backgroundColor: "rgba(0,0,0,0.55)",
+  },
 })
 
 export default VideoPlayer
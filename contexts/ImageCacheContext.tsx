@@ -0,0 +1,12 @@
+import { createContext, useContext } from "react"
+import type { ImageProps } from "expo-image"
+
+export type ImageCachePolicy = NonNullable<ImageProps["cachePolicy"]>
+
+// How the remote images of a screen are cached; screens set it with ScreenWrapper's `imageCache`.
+// "memory-disk" suits lists scrolled back and forth, "disk" screens seen once, "none" local files.
+const ImageCacheContext = createContext<ImageCachePolicy>("disk")
+
+export const ImageCacheProvider = ImageCacheContext.Provider
+
+export const useImageCachePolicy = (): ImageCachePolicy => useContext(ImageCacheContext)
@@ -0,0 +1,194 @@
+import { decodeEntities, htmlToText, sanitizeHtml } from "../html"
+
+describe("sanitizeHtml", () => {
+  it("keeps the allowed tags", () => {
+    const html = "<p><b>Bold</b>, <i>italic</i><br></p><ol><li>one</li></ol><h1>Title</h1>"
+
+    expect(sanitizeHtml(html)).toBe(html)
+  })
+
+  it("maps the editor's tags to their allowed equivalent", () => {
+    expect(sanitizeHtml("<div><strong>a</strong> <em>b</em></div><h2>c</h2>")).toBe(
+      "<p><b>a</b> <i>b</i></p><h1>c</h1>",
+    )
+  })
+
+  it("drops unknown tags but keeps their text", () => {
+    expect(sanitizeHtml('<span style="color: red">red</span> <u>under</u>')).toBe("red under")
+  })
+
+  describe("links", () => {
+    it("keeps http and https links and mentions", () => {
+      expect(sanitizeHtml('<a href="https://example.com/?a=1&amp;b=2" target="_blank">site</a>')).toBe(
+        '<a href="https://example.com/?a=1&amp;b=2">site</a>',
+      )
+      expect(sanitizeHtml('<a data-user-id="42">@Alice</a>')).toBe('<a data-user-id="42">@Alice</a>')
+    })
+
+    it.each([
+      ["plain", "javascript:alert(1)"],
+      ["upper case", "JavaScript:alert(1)"],
+      ["with an encoded letter", "&#106;avascript:alert(1)"],
+      ["with an encoded tab", "java&#x09;script:alert(1)"],
+      ["with an encoded newline", "java&#10;script:alert(1)"],
+      ["with a named entity newline", "java&NewLine;script:alert(1)"],
+      ["with leading whitespace", " \t javascript:alert(1)"],
+      ["with a control character", "\u0001javascript:alert(1)"],
+    ])("drops a javascript: href %s", (_name, href) => {
+      expect(sanitizeHtml(`<a href="${href}">click</a>`)).toBe("<a>click</a>")
+    })
+
+    it.each(["data:text/html;base64,PHNjcmlwdD4=", "vbscript:msgbox(1)", "/relative/path", "//example.com"])(
+      "drops a %s href",
+      (href) => {
+        expect(sanitizeHtml(`<a href="${href}">click</a>`)).toBe("<a>click</a>")
+      },
+    )
+
+    it("drops mention IDs that are not plain identifiers", () => {
+      expect(sanitizeHtml('<a data-user-id="1&quot; onclick=&quot;x">@Bob</a>')).toBe("<a>@Bob</a>")
+    })
+
+    it("does not nest links", () => {
+      expect(sanitizeHtml('<a href="https://a.com">a<a href="https://b.com">b</a></a>')).toBe(
+        '<a href="https://a.com">ab</a>',
+      )
+    })
+  })
+
+  describe("attributes", () => {
+    it("drops event handlers", () => {
+      expect(sanitizeHtml('<p onclick="alert(1)">hi</p>')).toBe("<p>hi</p>")
+      expect(sanitizeHtml('<a href="https://example.com" onmouseover="alert(1)">hi</a>')).toBe(
+        '<a href="https://example.com">hi</a>',
+      )
+    })
+
+    it("reads unquoted attributes", () => {
+      expect(sanitizeHtml("<a href=https://example.com/page>link</a>")).toBe(
+        '<a href="https://example.com/page">link</a>',
+      )
+      expect(sanitizeHtml("<a href=javascript:alert(1)>link</a>")).toBe("<a>link</a>")
+      expect(sanitizeHtml("<a href=https://example.com onclick=alert(1)>link</a>")).toBe(
+        '<a href="https://example.com">link</a>',
+      )
+    })
+
+    it("reads quoted attributes holding a >", () => {
+      expect(sanitizeHtml("<a href='https://example.com/?q=>' onclick='alert(1)'>link</a>")).toBe(
+        '<a href="https://example.com/?q=&gt;">link</a>',
+      )
+    })
+
+    it("escapes quotes in kept values", () => {
+      expect(sanitizeHtml('<a href="https://example.com/&quot;onclick=&quot;x">link</a>')).toBe(
+        '<a href="https://example.com/&quot;onclick=&quot;x">link</a>',
+      )
+    })
+  })
+
+  describe("dangerous content", () => {
+    it("drops images and their handlers", () => {
+      expect(sanitizeHtml('<img src="x" onerror="alert(1)">')).toBe("")
+      expect(sanitizeHtml("<img src=x onerror=alert(1)>after")).toBe("after")
+      expect(sanitizeHtml('<IMG SRC="x" ONERROR="alert(1)"/>after')).toBe("after")
+    })
+
+    it("drops scripts with their content", () => {
+      expect(sanitizeHtml("before<script>alert(1)</script>after")).toBe("beforeafter")
+      expect(sanitizeHtml("<SCRIPT type='text/javascript'>alert(1)</SCRIPT >after")).toBe("after")
+      expect(sanitizeHtml("<script>alert(1)")).toBe("")
+    })
+
+    it("never lets a nested script through", () => {
+      const outputs = [
+        "<script><script>alert(1)</script>alert(2)</script>",
+        "<scr<script>ipt>alert(1)</scr</script>ipt>",
+        "<p><script>document.write('<script>alert(1)</scr' + 'ipt>')</script></p>",
+      ].map(sanitizeHtml)
+
+      outputs.forEach((output) => {
+        expect(output).not.toMatch(/<script/i)
+        expect(output).not.toMatch(/<\/?[a-z]+[^>]*\s(on\w+|src)=/i)
+      })
+    })
+
+    it("drops svg and math with their content", () => {
+      expect(
+        sanitizeHtml('<svg onload="alert(1)"><script>alert(2)</script><a href="https://x.com">x</a></svg>ok'),
+      ).toBe("ok")
+      expect(sanitizeHtml("<svg/onload=alert(1)>")).toBe("")
+      expect(sanitizeHtml("<math><mtext><img src=x onerror=alert(1)></mtext></math>ok")).toBe("ok")
+    })
+
+    it("drops styles, iframes and embeds with their content", () => {
+      expect(
+        sanitizeHtml(
+          '<style>p { color: red }</style><iframe src="https://evil.com">x</iframe><object data="x">y</object>ok',
+        ),
+      ).toBe("ok")
+    })
+
+    it("drops comments, doctypes and processing instructions", () => {
+      expect(sanitizeHtml("<!-- <script>alert(1)</script> -->text")).toBe("text")
+      expect(sanitizeHtml("<!--[if IE]><script>alert(1)</script><![endif]-->text")).toBe("text")
+      expect(sanitizeHtml("<!DOCTYPE html><?xml version='1.0'?>text")).toBe("text")
+      expect(sanitizeHtml("text<!-- never closed <script>alert(1)</script>")).toBe("text")
+    })
+
+    it("escapes text that looks like markup", () => {
+      expect(sanitizeHtml("1 < 2 &lt;script&gt;alert(1)&lt;/script&gt;")).toBe(
+        "1 &lt; 2 &lt;script&gt;alert(1)&lt;/script&gt;",
+      )
+    })
+  })
+
+  it("closes what is left open and ignores stray closing tags", () => {
+    expect(sanitizeHtml("<p><b>bold")).toBe("<p><b>bold</b></p>")
+    expect(sanitizeHtml("</p>text</b>")).toBe("text")
+  })
+
+  it("returns an empty string for empty input", () => {
+    expect(sanitizeHtml("")).toBe("")
+  })
+})
+
+describe("htmlToText", () => {
+  it("puts paragraphs, headings and line breaks on lines of their own", () => {
+    expect(htmlToText("<h1>Title</h1><p>First<br>line</p><div>Second</div>")).toBe("Title\nFirst\nline\nSecond")
+  })
+
+  it("bullets list items", () => {
+    expect(htmlToText("<p>List:</p><ul><li>one</li><li>two</li></ul>")).toBe("List:\n• one\n• two")
+  })
+
+  it("decodes entities and non-breaking spaces", () => {
+    expect(htmlToText("<p>Tom &amp; Jerry&nbsp;&lt;3 &#x1F600;</p>")).toBe("Tom & Jerry <3 \u{1F600}")
+  })
+
+  it("collapses whitespace and blank lines", () => {
+    expect(htmlToText("<p>  a \t  b  </p>\n\n<p></p><p>c</p>")).toBe("a b\nc")
+  })
+
+  it("leaves out scripts, styles and comments", () => {
+    expect(htmlToText("<style>p{}</style><script>alert(1)</script><!-- note --><p>visible</p>")).toBe("visible")
+  })
+
+  it("keeps the text of unknown tags", () => {
+    expect(htmlToText('<span>a</span> <a href="https://example.com">link</a>')).toBe("a link")
+  })
+
+  it("returns an empty string for empty input", () => {
+    expect(htmlToText("")).toBe("")
+  })
+})
+
+describe("decodeEntities", () => {
+  it("decodes named, decimal and hexadecimal entities", () => {
+    expect(decodeEntities("&lt;&#65;&#x42;&QUOT;")).toBe('<AB"')
+  })
+
+  it("keeps unknown entities and replaces invalid code points", () => {
+    expect(decodeEntities("&unknown; &#0; &#x110000;")).toBe("&unknown; � �")
+  })
+})
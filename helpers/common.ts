@@ -41,9 +41,23 @@ export const stripHtmlTags = (html: string): string => {
   return html.replace(/<[^>]*>?/gm, "")
 }
 
+/**
+ * Formats a length of time as a clock, e.g. 1:05 or 1:02:09
+ * @param seconds Length in seconds
+ * @returns Formatted length
+ */
+export const formatDuration = (seconds: number): string => {
+  const total = Math.max(0, Math.round(seconds))
+  const hours = Math.floor(total / 3600)
+  const minutes = Math.floor((total % 3600) / 60)
+  const rest = String(total % 60).padStart(2, "0")
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${rest}` : `${minutes}:${rest}`
+}
+
 export default {
   capitalize,
   wp,
   hp,
   stripHtmlTags,
+  formatDuration,
 }
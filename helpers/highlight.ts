@@ -0,0 +1,61 @@
+// Part of a text, matching the search terms or not
+export interface TextSegment {
+  text: string
+  match: boolean
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+/**
+ * Split a search query into terms
+ * @param query Search query
+ * @returns Lowercase terms, without empty ones
+ */
+export const searchTerms = (query: string): string[] => query.toLowerCase().split(/\s+/).filter(Boolean)
+
+/**
+ * Split a text into the parts matching any search term and the parts in between
+ * @param text Text to highlight
+ * @param query Search query
+ * @returns Segments in text order; a single unmatched segment when nothing matches
+ */
+export const highlightSegments = (text: string, query: string): TextSegment[] => {
+  const terms = searchTerms(query)
+  if (terms.length === 0 || !text) return [{ text, match: false }]
+
+  // Longest terms first, so "john" wins over "jo"
+  const pattern = new RegExp(
+    `(${terms
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp)
+      .join("|")})`,
+    "gi",
+  )
+  return text
+    .split(pattern)
+    .filter(Boolean)
+    .map((part) => ({ text: part, match: terms.includes(part.toLowerCase()) }))
+}
+
+/**
+ * Cut a long text down to the part around the first search term
+ * @param text Full text
+ * @param query Search query
+ * @param length Maximum length of the snippet
+ * @returns The snippet, with an ellipsis on each side that was cut
+ */
+export const snippetAround = (text: string, query: string, length = 160): string => {
+  if (text.length <= length) return text
+
+  const lower = text.toLowerCase()
+  const first = Math.min(
+    ...searchTerms(query)
+      .map((term) => lower.indexOf(term))
+      .filter((index) => index >= 0),
+  )
+  // Start a little before the match so it reads in context
+  const start = Number.isFinite(first) ? Math.max(0, Math.min(first - 30, text.length - length)) : 0
+  const end = start + length
+
+  return `${start > 0 ? "…" : ""}${text.slice(start, end).trim()}${end < text.length ? "…" : ""}`
+}
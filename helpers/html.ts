@@ -0,0 +1,260 @@
+/**
+ * HTML of post and comment bodies
+ * Bodies come from the rich text editor and from other clients, so they are sanitized against an allow-list
+ * before they are posted and again before they are rendered.
+ */
+
+type Token =
+  | { type: "text"; text: string }
+  | { type: "open"; name: string; attributes: Record<string, string>; selfClosing: boolean }
+  | { type: "close"; name: string }
+
+const ALLOWED_TAGS = new Set(["p", "b", "i", "ol", "ul", "li", "h1", "h4", "a", "br"])
+const VOID_TAGS = new Set(["br"])
+// Tags the editor or older clients produce, kept as their allowed equivalent
+const TAG_ALIASES: Record<string, string> = {
+  strong: "b",
+  em: "i",
+  div: "p",
+  blockquote: "p",
+  pre: "p",
+  h2: "h1",
+  h3: "h4",
+  h5: "h4",
+  h6: "h4",
+}
+// Dropped along with everything inside them; other unknown tags are dropped but keep their text
+const DROPPED_TAGS = new Set([
+  "script",
+  "style",
+  "iframe",
+  "frame",
+  "frameset",
+  "object",
+  "embed",
+  "template",
+  "noscript",
+  "noembed",
+  "noframes",
+  "textarea",
+  "title",
+  "head",
+  "select",
+  "svg",
+  "math",
+  "xmp",
+])
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = { a: ["href", "data-user-id"] }
+// Lines of their own in plain text
+const BLOCK_TAGS = new Set([
+  "p",
+  "div",
+  "ol",
+  "ul",
+  "li",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "blockquote",
+  "pre",
+  "tr",
+])
+
+const TAG_PATTERN = /^<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/
+const ATTRIBUTE_PATTERN = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g
+const NAMED_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: "\u00a0" }
+
+/**
+ * Decode the entities of HTML text
+ * @param text HTML text
+ * @returns Text as shown; unknown named entities stay as they are
+ */
+export const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);?/gi, (entity, code: string) => {
+    if (code[0] !== "#") return NAMED_ENTITIES[code.toLowerCase()] ?? entity
+
+    const point = code[1] === "x" || code[1] === "X" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+    return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : "\ufffd"
+  })
+
+export const escapeHtml = (text: string): string =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+
+const parseAttributes = (source: string): Record<string, string> => {
+  const attributes: Record<string, string> = {}
+  for (const [, name, doubleQuoted, singleQuoted, unquoted] of source.matchAll(ATTRIBUTE_PATTERN)) {
+    const key = name.toLowerCase()
+    if (!(key in attributes)) attributes[key] = decodeEntities(doubleQuoted ?? singleQuoted ?? unquoted ?? "")
+  }
+  return attributes
+}
+
+// Split HTML into text and tags; comments, doctypes and dropped tags with their content are left out
+const tokenize = (html: string): Token[] => {
+  const tokens: Token[] = []
+  let text = ""
+  let index = 0
+
+  const flushText = () => {
+    if (text) tokens.push({ type: "text", text })
+    text = ""
+  }
+
+  while (index < html.length) {
+    const next = html.indexOf("<", index)
+    if (next === -1) {
+      text += html.slice(index)
+      break
+    }
+    text += html.slice(index, next)
+    index = next
+
+    const rest = html.slice(index)
+    if (rest.startsWith("<!--")) {
+      const end = html.indexOf("-->", index + 4)
+      index = end === -1 ? html.length : end + 3
+      continue
+    }
+    if (rest.startsWith("<!") || rest.startsWith("<?")) {
+      const end = html.indexOf(">", index)
+      index = end === -1 ? html.length : end + 1
+      continue
+    }
+
+    const match = rest.match(TAG_PATTERN)
+    if (!match) {
+      // A "<" that opens no tag is text
+      text += "<"
+      index += 1
+      continue
+    }
+
+    const [source, closing, rawName, attributeSource] = match
+    const name = rawName.toLowerCase()
+    index += source.length
+    flushText()
+
+    if (closing) {
+      tokens.push({ type: "close", name })
+    } else if (DROPPED_TAGS.has(name)) {
+      if (/\/\s*$/.test(attributeSource)) continue
+      const end = html.slice(index).search(new RegExp(`</${name}\\s*>`, "i"))
+      index = end === -1 ? html.length : html.indexOf(">", index + end) + 1
+    } else {
+      tokens.push({
+        type: "open",
+        name,
+        attributes: parseAttributes(attributeSource),
+        selfClosing: /\/\s*$/.test(attributeSource),
+      })
+    }
+  }
+  flushText()
+
+  return tokens
+}
+
+// Links may only lead to web pages; "javascript:", "data:" and relative links are dropped
+const safeHref = (href: string): string | null => {
+  // Browsers ignore control characters and whitespace inside the scheme
+  const normalized = href.replace(/[\u0000- \u007f-\u009f]/g, "")
+  return /^https?:\/\//i.test(normalized) ? href.trim() : null
+}
+
+const allowedAttributes = (name: string, attributes: Record<string, string>): string => {
+  const kept: string[] = []
+  for (const key of ALLOWED_ATTRIBUTES[name] || []) {
+    const value = attributes[key]
+    if (value === undefined) continue
+
+    if (key === "href") {
+      const href = safeHref(value)
+      if (href) kept.push(`href="${escapeHtml(href)}"`)
+    } else if (key === "data-user-id") {
+      if (/^[\w-]+$/.test(value)) kept.push(`data-user-id="${value}"`)
+    }
+  }
+  return kept.map((attribute) => ` ${attribute}`).join("")
+}
+
+/**
+ * Keep only the allowed tags and attributes of HTML
+ * Allowed are p, b, i, ol, ul, li, h1, h4, br, and a with an http(s) href or a mention's data-user-id.
+ * Other tags are dropped but keep their text; scripts, styles and embeds are dropped with their content.
+ * @param html Untrusted HTML
+ * @returns Well-formed HTML safe to store and render
+ */
+export const sanitizeHtml = (html: string): string => {
+  if (!html) return ""
+
+  let output = ""
+  const open: string[] = []
+
+  for (const token of tokenize(html)) {
+    if (token.type === "text") {
+      output += escapeHtml(decodeEntities(token.text))
+      continue
+    }
+
+    const name = TAG_ALIASES[token.name] || token.name
+    if (!ALLOWED_TAGS.has(name)) continue
+
+    if (token.type === "open") {
+      if (VOID_TAGS.has(name)) {
+        output += `<${name}>`
+      } else if (!(name === "a" && open.includes("a")) && !token.selfClosing) {
+        // Links do not nest
+        output += `<${name}${allowedAttributes(name, token.attributes)}>`
+        open.push(name)
+      }
+    } else if (open.includes(name)) {
+      // Close what is still open inside the element too
+      while (open.length > 0) {
+        const last = open.pop() as string
+        output += `</${last}>`
+        if (last === name) break
+      }
+    }
+  }
+
+  return (
+    output +
+    open
+      .reverse()
+      .map((name) => `</${name}>`)
+      .join("")
+  )
+}
+
+/**
+ * Convert HTML to plain text, e.g. to share a post or preview it in a notification
+ * @param html HTML of a body
+ * @returns Text with a line per paragraph or list item
+ */
+export const htmlToText = (html: string): string => {
+  if (!html) return ""
+
+  let text = ""
+  for (const token of tokenize(html)) {
+    if (token.type === "text") {
+      text += decodeEntities(token.text)
+    } else if (token.name === "br") {
+      text += "\n"
+    } else if (token.type === "open" && token.name === "li") {
+      text += "\n• "
+    } else if (BLOCK_TAGS.has(token.name)) {
+      text += "\n"
+    }
+  }
+
+  return text
+    .replace(/\u00a0/g, " ")
+    .split("\n")
+    .map((line) => line.replace(/[ \t\r\f\v]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{2,}/g, "\n")
+    .trim()
+}
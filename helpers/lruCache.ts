@@ -0,0 +1,42 @@
+/**
+ * Create a least recently used cache
+ * Reading or writing a key makes it the most recent; the least recent key goes once the cache is full.
+ * @param capacity Maximum number of keys
+ * @returns Cache with get, set, has, delete and clear methods
+ */
+export const createLruCache = <K, V>(capacity: number) => {
+  // Map iterates in insertion order: the first key is the least recently used
+  const entries = new Map<K, V>()
+
+  return {
+    get(key: K): V | undefined {
+      if (!entries.has(key)) return undefined
+      const value = entries.get(key) as V
+      entries.delete(key)
+      entries.set(key, value)
+      return value
+    },
+
+    set(key: K, value: V) {
+      entries.delete(key)
+      entries.set(key, value)
+      if (entries.size > capacity) {
+        entries.delete(entries.keys().next().value as K)
+      }
+    },
+
+    has: (key: K): boolean => entries.has(key),
+
+    delete: (key: K): boolean => entries.delete(key),
+
+    clear() {
+      entries.clear()
+    },
+
+    get size(): number {
+      return entries.size
+    },
+  }
+}
+
+export type LruCache<K, V> = ReturnType<typeof createLruCache<K, V>>
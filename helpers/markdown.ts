@@ -0,0 +1,104 @@
+import { escapeHtml } from "./html"
+
+/**
+ * Markdown posts
+ * A small Markdown subset rendered to the elements post bodies allow (see sanitizeHtml):
+ * headings, paragraphs, line breaks, bullet and numbered lists, bold, italics and web links.
+ * Anything else, like code spans or images, shows as text.
+ */
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/
+const BULLET_PATTERN = /^\s*[-*+]\s+(.*)$/
+const NUMBERED_PATTERN = /^\s*\d{1,9}[.)]\s+(.*)$/
+
+// Characters a backslash makes literal, kept aside while the inline syntax is parsed
+const ESCAPABLE = "\\`*_{}[]()#+-.!>~|"
+const escapedPlaceholder = (index: number) => `\u0000${index}\u0000`
+
+// Inline syntax of one block: escapes, code spans, links, bold and italics
+const renderInline = (text: string): string => {
+  const literals: string[] = []
+  const keep = (html: string) => {
+    literals.push(html)
+    return escapedPlaceholder(literals.length - 1)
+  }
+
+  let html = text
+    .replace(/\\(.)/g, (match, char: string) => (ESCAPABLE.includes(char) ? keep(escapeHtml(char)) : match))
+    // Code spans are shown as they are written, without formatting
+    .replace(/`([^`]+)`/g, (_, code: string) => keep(escapeHtml(code)))
+  html = escapeHtml(html)
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g, (_, label: string, href: string) =>
+      keep(`<a href="${href}">${label}</a>`),
+    )
+    .replace(/&lt;(https?:\/\/[^\s&]+)&gt;/g, (_, href: string) => keep(`<a href="${href}">${href}</a>`))
+    .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, "<b>$2</b>")
+    .replace(/(^|[^\w*])\*(?=\S)([^*]*?\S)\*(?!\w)/g, "$1<i>$2</i>")
+    .replace(/(^|[^\w])_(?=\S)([^_]*?\S)_(?!\w)/g, "$1<i>$2</i>")
+
+  // Links may hold formatting and placeholders themselves
+  for (let pass = 0; pass < 2 && html.includes("\u0000"); pass++) {
+    html = html.replace(/\u0000(\d+)\u0000/g, (_, index: string) => literals[Number(index)])
+  }
+  return html
+}
+
+/**
+ * Render a Markdown post body
+ * @param markdown Markdown source
+ * @returns HTML made of the elements post bodies allow
+ */
+export const markdownToHtml = (markdown: string): string => {
+  if (!markdown) return ""
+
+  const blocks: string[] = []
+  let paragraph: string[] = []
+  let list: { tag: "ul" | "ol"; items: string[] } | null = null
+
+  const closeParagraph = () => {
+    if (paragraph.length > 0) blocks.push(`<p>${paragraph.map(renderInline).join("<br>")}</p>`)
+    paragraph = []
+  }
+  const closeList = () => {
+    if (list) blocks.push(`<${list.tag}>${list.items.map((item) => `<li>${item}</li>`).join("")}</${list.tag}>`)
+    list = null
+  }
+  const addListItem = (tag: "ul" | "ol", text: string) => {
+    closeParagraph()
+    if (list?.tag !== tag) closeList()
+    list = list || { tag, items: [] }
+    list.items.push(renderInline(text))
+  }
+
+  for (const line of markdown.replace(/\r\n?/g, "\n").split("\n")) {
+    const heading = line.match(HEADING_PATTERN)
+    const bullet = line.match(BULLET_PATTERN)
+    const numbered = line.match(NUMBERED_PATTERN)
+
+    if (!line.trim()) {
+      closeParagraph()
+      closeList()
+    } else if (heading) {
+      closeParagraph()
+      closeList()
+      // Posts have two heading sizes: "#" is the large one, deeper levels the small one
+      const tag = heading[1].length === 1 ? "h1" : "h4"
+      blocks.push(`<${tag}>${renderInline(heading[2])}</${tag}>`)
+    } else if (bullet) {
+      addListItem("ul", bullet[1])
+    } else if (numbered) {
+      addListItem("ol", numbered[1])
+    } else if (list && /^\s{2,}\S/.test(line)) {
+      // An indented line continues the list item
+      const items: string[] = (list as { items: string[] }).items
+      items[items.length - 1] += `<br>${renderInline(line.trim())}`
+    } else {
+      closeList()
+      paragraph.push(line.trim())
+    }
+  }
+  closeParagraph()
+  closeList()
+
+  return blocks.join("")
+}
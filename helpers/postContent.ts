@@ -0,0 +1,190 @@
+import { decodeEntities, escapeHtml } from "./html"
+
+/**
+ * Hashtags and mentions in post content
+ * Content is HTML. A mention is either a plain "@name" or, when picked from suggestions,
+ * an anchor carrying the user ID: <a data-user-id="42">@Jane Doe</a>.
+ */
+
+export interface Mention {
+  name: string
+  // Known for mentions picked from suggestions; plain "@name" mentions are resolved by name
+  userId?: string
+}
+
+// Where a link of linkified content leads
+export type ContentLink =
+  { type: "hashtag"; tag: string } | { type: "user"; userId: string } | { type: "mention"; name: string }
+
+const LINK_SCHEME = "myapp://"
+
+// Link to a user's profile, as opened by useContentLinks
+export const userLink = (userId: string) => `${LINK_SCHEME}user/${encodeURIComponent(userId)}`
+
+// Not preceded by a word character or "&", so emails and HTML entities like "&#39;" are left alone
+const HASHTAG_PATTERN = /(^|[^\w&])#(\w+)/g
+const MENTION_PATTERN = /(^|[^\w])@(\w[\w.]*\w|\w)/g
+const MENTION_ANCHOR_PATTERN = /<a\b[^>]*\bdata-user-id="([^"]+)"[^>]*>([\s\S]*?)<\/a>/gi
+
+// Text of the content outside anchors, which already are links
+const textOutsideLinks = (html: string) =>
+  decodeEntities(html.replace(/<a\b[\s\S]*?<\/a>/gi, " ").replace(/<[^>]+>/g, " "))
+
+/**
+ * Find the hashtags of post content
+ * @param html Post content
+ * @returns Lowercase tags without "#", each once, in order of appearance
+ */
+export const extractHashtags = (html: string): string[] => {
+  const tags = [...textOutsideLinks(html || "").matchAll(HASHTAG_PATTERN)].map((match) => match[2].toLowerCase())
+  return [...new Set(tags)]
+}
+
+/**
+ * Find the mentions of post content
+ * @param html Post content
+ * @returns Mentions picked from suggestions first, then plain ones; each user or name once
+ */
+export const extractMentions = (html: string): Mention[] => {
+  const content = html || ""
+  const mentions: Mention[] = []
+
+  for (const [, userId, text] of content.matchAll(MENTION_ANCHOR_PATTERN)) {
+    if (mentions.some((mention) => mention.userId === userId)) continue
+    mentions.push({ userId, name: decodeEntities(text.replace(/<[^>]+>/g, "")).replace(/^@/, "") })
+  }
+  for (const [, , name] of textOutsideLinks(content).matchAll(MENTION_PATTERN)) {
+    if (mentions.some((mention) => mention.name.toLowerCase() === name.toLowerCase())) continue
+    mentions.push({ name })
+  }
+
+  return mentions
+}
+
+/**
+ * IDs of the users a post mentions, as sent when it is created
+ * @param html Post content
+ * @returns IDs of the mentions picked from suggestions
+ */
+export const mentionedUserIds = (html: string): string[] =>
+  extractMentions(html).flatMap((mention) => (mention.userId ? [mention.userId] : []))
+
+// A user mention suggestions can insert
+export interface MentionTarget {
+  id: string
+  name: string
+}
+
+// Mention being typed: "@" at the start of a word, followed by the start of a name
+const MENTION_QUERY_PATTERN = /(?:^|\s)@([\w.]{0,30})$/
+
+/**
+ * Find the mention being typed before the caret
+ * @param text Text before the caret, e.g. of the current paragraph
+ * @returns The name typed so far (possibly empty) and where its "@" is, or null outside a mention
+ */
+export const mentionQueryAt = (text: string): { query: string; start: number } | null => {
+  const match = text.match(MENTION_QUERY_PATTERN)
+  if (!match) return null
+  return { query: match[1], start: text.length - match[1].length - 1 }
+}
+
+/**
+ * The stored form of a mention: it keeps the user ID, so renaming the user does not break it
+ * @param user Mentioned user
+ * @returns Anchor like <a data-user-id="42">@Jane Doe</a>
+ */
+export const mentionAnchor = (user: MentionTarget): string =>
+  `<a data-user-id="${escapeHtml(String(user.id))}">@${escapeHtml(user.name)}</a>`
+
+/**
+ * Store plain text with the mentions picked for it, e.g. a comment
+ * @param text Text as typed, with picked mentions as "@Name"
+ * @param mentions Users picked from suggestions
+ * @returns HTML-escaped text whose picked mentions are anchors
+ */
+export const serializeMentions = (text: string, mentions: MentionTarget[]): string => {
+  const escaped = escapeHtml(text)
+  const byName = new Map(mentions.map((user) => [`@${escapeHtml(user.name)}`, user]))
+  if (byName.size === 0) return escaped
+
+  // Longest names first, so "@Jane Doe" wins over "@Jane"
+  const names = [...byName.keys()].sort((a, b) => b.length - a.length)
+  const pattern = new RegExp(names.map((name) => name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|"), "g")
+  return escaped.replace(pattern, (name) => mentionAnchor(byName.get(name) as MentionTarget))
+}
+
+/**
+ * Split stored text into plain runs and mentions, e.g. to show a comment
+ * @param content Text possibly holding mention anchors
+ * @returns Runs of text; mentions picked from suggestions carry the user ID
+ */
+export const mentionSegments = (content: string): Array<{ text: string; userId?: string }> => {
+  const segments: Array<{ text: string; userId?: string }> = []
+  const source = content || ""
+  let last = 0
+
+  for (const match of source.matchAll(MENTION_ANCHOR_PATTERN)) {
+    const index = match.index ?? 0
+    if (index > last) segments.push({ text: decodeEntities(source.slice(last, index).replace(/<[^>]+>/g, "")) })
+    segments.push({ text: decodeEntities(match[2].replace(/<[^>]+>/g, "")), userId: match[1] })
+    last = index + match[0].length
+  }
+  if (last < source.length) segments.push({ text: decodeEntities(source.slice(last).replace(/<[^>]+>/g, "")) })
+
+  return segments
+}
+
+/**
+ * Turn the hashtags and mentions of post content into links
+ * @param html Post content
+ * @returns Content whose links can be read back with `parseContentLink`
+ */
+export const linkify = (html: string): string => {
+  if (!html) return ""
+
+  let anchorDepth = 0
+  return html
+    .split(/(<[^>]+>)/)
+    .map((part) => {
+      if (part.startsWith("<")) {
+        if (/^<a\b/i.test(part)) {
+          anchorDepth += 1
+          // Mentions picked from suggestions link to the user
+          const userId = part.match(/\bdata-user-id="([^"]+)"/)?.[1]
+          if (userId && !/\bhref=/i.test(part)) {
+            return part.replace(/^<a\b/i, `<a href="${userLink(userId)}"`)
+          }
+        } else if (/^<\/a>/i.test(part)) {
+          anchorDepth = Math.max(0, anchorDepth - 1)
+        }
+        return part
+      }
+      if (anchorDepth > 0) return part
+
+      return part
+        .replace(HASHTAG_PATTERN, (_, before, tag) => `${before}<a href="${LINK_SCHEME}hashtag/${tag}">#${tag}</a>`)
+        .replace(MENTION_PATTERN, (_, before, name) => `${before}<a href="${LINK_SCHEME}mention/${name}">@${name}</a>`)
+    })
+    .join("")
+}
+
+/**
+ * Read a link made by `linkify`
+ * @param href Link target
+ * @returns Where the link leads, or null for other links
+ */
+export const parseContentLink = (href: string): ContentLink | null => {
+  const match = href.match(new RegExp(`^${LINK_SCHEME}(hashtag|user|mention)/(.+)$`))
+  if (!match) return null
+
+  const value = decodeURIComponent(match[2])
+  switch (match[1]) {
+    case "hashtag":
+      return { type: "hashtag", tag: value.toLowerCase() }
+    case "user":
+      return { type: "user", userId: value }
+    default:
+      return { type: "mention", name: value }
+  }
+}
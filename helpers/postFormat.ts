@@ -0,0 +1,33 @@
+import { escapeHtml } from "./html"
+import { markdownToHtml } from "./markdown"
+
+// How the content of a post is written; posts without a format are HTML
+export type PostFormat = "html" | "markdown" | "plain"
+
+export const POST_FORMATS: PostFormat[] = ["html", "markdown", "plain"]
+
+/**
+ * HTML of a post body, whatever its format
+ * Still to be sanitized before it is rendered: HTML bodies are returned as they are.
+ * @param content Post content
+ * @param format Post format
+ * @returns HTML of the body
+ */
+export const postBodyHtml = (content: string, format: PostFormat = "html"): string => {
+  if (!content) return ""
+
+  switch (format) {
+    case "markdown":
+      return markdownToHtml(content)
+    case "plain":
+      // A paragraph per blank-line separated block, line breaks within it
+      return content
+        .replace(/\r\n?/g, "\n")
+        .split(/\n\s*\n/)
+        .filter((block) => block.trim())
+        .map((block) => `<p>${escapeHtml(block.trim()).replace(/\n/g, "<br>")}</p>`)
+        .join("")
+    default:
+      return content
+  }
+}
@@ -0,0 +1,298 @@
+import { act, create, type ReactTestRenderer } from "react-test-renderer"
+import { usePagination, type PageRequest } from "../usePagination"
+
+// Lists are newest first, like the home feed: higher IDs are newer
+const PAGE_SIZE = 3
+
+type Pagination = ReturnType<typeof usePagination<number, number[], number>>
+type FetchPage = (request: PageRequest<number>) => Promise<number[]>
+
+// Server answering cursor requests from a list of IDs: `cursor` excluded and below, down to `until` excluded
+const serverOf = (ids: number[]) =>
+  jest.fn<ReturnType<FetchPage>, Parameters<FetchPage>>(async ({ cursor, until }) =>
+    ids
+      .filter((id) => (cursor === undefined || id < cursor) && (until === undefined || id > until))
+      .slice(0, PAGE_SIZE),
+  )
+
+// Renders the hook and returns a getter for its latest result
+const renderPagination = async (fetchPage: FetchPage, options: { initialItems?: number[] } = {}) => {
+  let result: Pagination | undefined
+  const Probe = () => {
+    result = usePagination<number, number[], number>({
+      strategy: "cursor",
+      fetchPage,
+      getItems: (response) => response,
+      getKey: (id) => id,
+      getCursor: (id) => id,
+      pageSize: PAGE_SIZE,
+      refreshAbove: true,
+      ...options,
+    })
+    return null
+  }
+
+  let renderer: ReactTestRenderer | undefined
+  await act(async () => {
+    renderer = create(<Probe />)
+  })
+  return { current: () => result!, unmount: () => act(() => renderer?.unmount()) }
+}
+
+describe("usePagination with cursors", () => {
+  it("loads pages after the last item until a page is not full", async () => {
+    const fetchPage = serverOf([100, 99, 98, 97, 96])
+    const list = await renderPagination(fetchPage)
+    expect(list.current().items).toEqual([100, 99, 98])
+    expect(list.current().hasMore).toBe(true)
+
+    await act(() => list.current().loadMore())
+
+    expect(fetchPage).toHaveBeenLastCalledWith(expect.objectContaining({ cursor: 98 }))
+    expect(list.current().items).toEqual([100, 99, 98, 97, 96])
+    expect(list.current().hasMore).toBe(false)
+    list.unmount()
+  })
+
+  it("shows the initial items until the first page arrives", async () => {
+    let answer: (ids: number[]) => void = () => undefined
+    const list = await renderPagination(() => new Promise((resolve) => (answer = resolve)), { initialItems: [90, 89] })
+    expect(list.current().items).toEqual([90, 89])
+
+    await act(async () => answer([100, 99, 98]))
+
+    expect(list.current().items).toEqual([100, 99, 98])
+    list.unmount()
+  })
+
+  it("refreshes above the first item, leaving a gap after a full page", async () => {
+    const ids = [100, 99, 98]
+    const fetchPage = serverOf(ids)
+    const list = await renderPagination(fetchPage)
+
+    // Five newer posts: a full page does not reach the loaded ones
+    ids.unshift(105, 104, 103, 102, 101)
+    await act(() => list.current().refresh())
+
+    expect(fetchPage).toHaveBeenLastCalledWith(expect.objectContaining({ page: 1, until: 100 }))
+    expect(list.current().items).toEqual([105, 104, 103, 100, 99, 98])
+    expect(list.current().gaps).toEqual([103])
+
+    // The gap is filled page by page
+    await act(() => list.current().fillGap(103))
+    expect(fetchPage).toHaveBeenLastCalledWith(expect.objectContaining({ cursor: 103, until: 100 }))
+    expect(list.current().items).toEqual([105, 104, 103, 102, 101, 100, 99, 98])
+    expect(list.current().gaps).toEqual([])
+    list.unmount()
+  })
+
+  it("moves the gap down when filling it gets a full page", async () => {
+    const ids = [100]
+    const fetchPage = serverOf(ids)
+    const list = await renderPagination(fetchPage)
+    ids.unshift(108, 107, 106, 105, 104, 103, 102, 101)
+    await act(() => list.current().refresh())
+    expect(list.current().gaps).toEqual([106])
+
+    await act(() => list.current().fillGap(106))
+
+    expect(list.current().items).toEqual([108, 107, 106, 105, 104, 103, 100])
+    expect(list.current().gaps).toEqual([103])
+    list.unmount()
+  })
+
+  it("prepends items, with a gap unless they are complete", async () => {
+    const list = await renderPagination(serverOf([100, 99]))
+
+    act(() => list.current().prependItems([101]))
+    expect(list.current().items).toEqual([101, 100, 99])
+    expect(list.current().gaps).toEqual([])
+
+    act(() => list.current().prependItems([110, 109, 108, 101], false))
+    expect(list.current().items).toEqual([110, 109, 108, 101, 100, 99])
+    expect(list.current().gaps).toEqual([108])
+    list.unmount()
+  })
+
+  it("moves the gap of a removed item up to the item above", async () => {
+    const list = await renderPagination(serverOf([100, 99]))
+    act(() => list.current().prependItems([103, 102, 101], false))
+    expect(list.current().gaps).toEqual([101])
+
+    act(() => list.current().removeItem(101))
+
+    expect(list.current().items).toEqual([103, 102, 100, 99])
+    expect(list.current().gaps).toEqual([102])
+    list.unmount()
+  })
+
+  it("drops the gaps when the list is reset", async () => {
+    const ids = [100]
+    const list = await renderPagination(serverOf(ids))
+    ids.unshift(104, 103, 102, 101)
+    await act(() => list.current().refresh())
+    expect(list.current().gaps).toEqual([102])
+
+    await act(() => list.current().reset())
+
+    expect(list.current().items).toEqual([104, 103, 102])
+    expect(list.current().gaps).toEqual([])
+    list.unmount()
+  })
+})
+
+interface PageResponse {
+  items: number[]
+  total?: number
+}
+
+type PagedPagination = ReturnType<typeof usePagination<number, PageResponse, number>>
+type FetchNumberedPage = (request: PageRequest<number>) => Promise<PageResponse>
+
+// Server answering page numbers from a list of IDs, with their total count when given
+const pagedServerOf = (ids: number[], { withTotal = false } = {}) =>
+  jest.fn<ReturnType<FetchNumberedPage>, Parameters<FetchNumberedPage>>(async ({ page }) => ({
+    items: ids.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE),
+    total: withTotal ? ids.length : undefined,
+  }))
+
+// Server whose answers the test sends, to overlap requests
+const pendingServer = () => {
+  const calls: Array<{ request: PageRequest<number>; answer: (items: number[]) => Promise<void> }> = []
+  const fetchPage = jest.fn<ReturnType<FetchNumberedPage>, Parameters<FetchNumberedPage>>(
+    (request) =>
+      new Promise((resolve) => {
+        calls.push({ request, answer: (items) => act(async () => resolve({ items })) })
+      }),
+  )
+  return { calls, fetchPage }
+}
+
+const renderPages = async (fetchPage: FetchNumberedPage, options: { pageSize?: number; withTotal?: boolean } = {}) => {
+  const { withTotal = false } = options
+  const pageSize = "pageSize" in options ? options.pageSize : PAGE_SIZE
+  let result: PagedPagination | undefined
+  const Probe = () => {
+    result = usePagination<number, PageResponse, number>({
+      fetchPage,
+      getItems: (response) => response.items,
+      getKey: (id) => id,
+      getTotalCount: withTotal ? (response) => response.total : undefined,
+      pageSize,
+    })
+    return null
+  }
+
+  let renderer: ReactTestRenderer | undefined
+  await act(async () => {
+    renderer = create(<Probe />)
+  })
+  return { current: () => result!, unmount: () => act(() => renderer?.unmount()) }
+}
+
+describe("usePagination with pages", () => {
+  it("asks for page numbers until a page is not full", async () => {
+    const fetchPage = pagedServerOf([1, 2, 3, 4, 5])
+    const list = await renderPages(fetchPage)
+    expect(fetchPage).toHaveBeenLastCalledWith(expect.objectContaining({ page: 1 }))
+    expect(list.current().items).toEqual([1, 2, 3])
+    expect(list.current().hasMore).toBe(true)
+
+    await act(() => list.current().loadMore())
+
+    expect(fetchPage).toHaveBeenLastCalledWith(expect.objectContaining({ page: 2 }))
+    expect(list.current().items).toEqual([1, 2, 3, 4, 5])
+    expect(list.current().hasMore).toBe(false)
+    list.unmount()
+  })
+
+  it("keeps the page numbers in step when items are removed", async () => {
+    const ids = [1, 2, 3, 4, 5, 6, 7]
+    const fetchPage = pagedServerOf(ids)
+    const list = await renderPages(fetchPage)
+
+    // Removed on the server too: the second page starts one item earlier
+    act(() => list.current().removeItem(2))
+    ids.splice(1, 1)
+    await act(() => list.current().loadMore())
+
+    expect(fetchPage).toHaveBeenLastCalledWith(expect.objectContaining({ page: 1 }))
+    expect(list.current().items).toEqual([1, 3, 4])
+    await act(() => list.current().loadMore())
+    expect(list.current().items).toEqual([1, 3, 4, 5, 6, 7])
+    list.unmount()
+  })
+
+  it("ends the list at the total count, even after a full page", async () => {
+    const list = await renderPages(pagedServerOf([1, 2, 3, 4, 5, 6], { withTotal: true }), { withTotal: true })
+    expect(list.current().totalCount).toBe(6)
+    expect(list.current().hasMore).toBe(true)
+
+    await act(() => list.current().loadMore())
+
+    expect(list.current().items).toEqual([1, 2, 3, 4, 5, 6])
+    expect(list.current().hasMore).toBe(false)
+    list.unmount()
+  })
+
+  it("goes on after short pages while the total count has more", async () => {
+    // No page size known: the server decides how many items a page holds
+    const fetchPage = jest.fn(async ({ page }: PageRequest<number>) => ({ items: page === 1 ? [1, 2] : [3], total: 3 }))
+    const list = await renderPages(fetchPage, { pageSize: undefined, withTotal: true })
+    expect(list.current().hasMore).toBe(true)
+
+    await act(() => list.current().loadMore())
+
+    expect(fetchPage).toHaveBeenLastCalledWith(expect.objectContaining({ page: 2 }))
+    expect(list.current().items).toEqual([1, 2, 3])
+    expect(list.current().hasMore).toBe(false)
+    list.unmount()
+  })
+
+  it("aborts and ignores the page being loaded when the list is refreshed", async () => {
+    const server = pendingServer()
+    const list = await renderPages(server.fetchPage)
+    await server.calls[0].answer([1, 2, 3])
+
+    act(() => {
+      list.current().loadMore()
+    })
+    expect(list.current().loadingMore).toBe(true)
+    act(() => {
+      list.current().refresh()
+    })
+    const [, more, refresh] = server.calls
+    expect(more.request.signal.aborted).toBe(true)
+    expect(refresh.request.signal.aborted).toBe(false)
+
+    // The abandoned page arrives anyway
+    await more.answer([4, 5, 6])
+    expect(list.current().items).toEqual([1, 2, 3])
+
+    await refresh.answer([0, 1, 2])
+    expect(list.current().items).toEqual([0, 1, 2, 3])
+    expect(list.current().refreshing).toBe(false)
+    expect(list.current().loadingMore).toBe(false)
+    list.unmount()
+  })
+
+  it("ignores the answer of a request started before a reset", async () => {
+    const server = pendingServer()
+    const list = await renderPages(server.fetchPage)
+
+    act(() => {
+      list.current().reset()
+    })
+    const [before, after] = server.calls
+    expect(before.request.signal.aborted).toBe(true)
+
+    await before.answer([9, 8, 7])
+    expect(list.current().items).toEqual([])
+    expect(list.current().loading).toBe(true)
+
+    await after.answer([1, 2])
+    expect(list.current().items).toEqual([1, 2])
+    expect(list.current().loading).toBe(false)
+    list.unmount()
+  })
+})
@@ -1,41 +1,89 @@
 "use client"
 
-import { useState, useCallback } from "react"
+import { useState, useCallback, useEffect, useRef } from "react"
 import { logger } from "../services/debug-utils"
+import queryCache, { hashQueryKey, type QueryKey } from "../services/queryCache"
 
 type ApiRequestFunction<T, P> = (params: P) => Promise<T>
 
-interface UseApiRequestOptions {
-  onSuccess?: (data: any) => void
+interface UseApiRequestOptions<T = any> {
+  onSuccess?: (data: T) => void
   onError?: (error: any) => void
   loadingInitial?: boolean
+  // Share the responses through the query cache under this endpoint name, keyed by the params of `execute`
+  queryKey?: string
+  // How long cached responses are used without a request, in ms
+  staleTime?: number
 }
 
 /**
  * Custom hook for making API requests with loading and error states
+ * With a `queryKey`, responses come from the query cache: cached data shows at once and is refetched
+ * when stale or invalidated by a mutation (stale while revalidate).
  * @param apiFunction The API function to call
  * @param options Options for the hook
  * @returns Object with data, loading, error, and execute function
  */
 export const useApiRequest = <T, P = any>(
   apiFunction: ApiRequestFunction<T, P>,
-  options: UseApiRequestOptions = {},
+  options: UseApiRequestOptions<T> = {},
 ) => {
   const [data, setData] = useState<T | null>(null)
   const [loading, setLoading] = useState(options.loadingInitial || false)
   const [error, setError] = useState<Error | null>(null)
 
+  // Latest function and options, so `execute` keeps its identity while callers pass inline ones
+  const latest = useRef({ apiFunction, options })
+  latest.current = { apiFunction, options }
+
+  // Cache key of the last `execute` and its subscription
+  const subscription = useRef<{ hash: string; unsubscribe: () => void } | null>(null)
+
+  const unsubscribe = useCallback(() => {
+    subscription.current?.unsubscribe()
+    subscription.current = null
+  }, [])
+
   const execute = useCallback(
-    async (params: P) => {
+    async (params: P): Promise<{ success: boolean; data?: T; error?: any }> => {
+      const { apiFunction, options } = latest.current
+      const { queryKey, staleTime, onSuccess, onError } = options
+
       try {
         setLoading(true)
         setError(null)
 
-        const result = await apiFunction(params)
+        let result: T
+        if (queryKey) {
+          const key: QueryKey = [queryKey, params]
+          const hash = hashQueryKey(key)
+
+          // Keep the data in step with the cache: refetch once it is invalidated
+          if (subscription.current?.hash !== hash) {
+            unsubscribe()
+            subscription.current = {
+              hash,
+              unsubscribe: queryCache.subscribe(key, () => {
+                if (queryCache.isStale(key, latest.current.options.staleTime)) {
+                  execute(params)
+                } else {
+                  setData(queryCache.getData<T>(key) ?? null)
+                }
+              }),
+            }
+          }
+
+          // Show what the cache has while the request runs
+          const cached = queryCache.getData<T>(key)
+          if (cached !== undefined) setData(cached)
+          result = await queryCache.fetch(key, () => apiFunction(params), { staleTime })
+        } else {
+          result = await apiFunction(params)
+        }
         setData(result)
 
-        if (options.onSuccess) {
-          options.onSuccess(result)
+        if (onSuccess) {
+          onSuccess(result)
         }
 
         return { success: true, data: result }
@@ -43,8 +91,8 @@ export const useApiRequest = <T, P = any>(
         logger.error("API request failed:", err)
         setError(err)
 
-        if (options.onError) {
-          options.onError(err)
+        if (onError) {
+          onError(err)
         }
 
         return { success: false, error: err }
@@ -52,14 +100,17 @@ export const useApiRequest = <T, P = any>(
         setLoading(false)
       }
     },
-    [apiFunction, options],
+    [unsubscribe],
   )
 
+  useEffect(() => unsubscribe, [unsubscribe])
+
   const reset = useCallback(() => {
+    unsubscribe()
     setData(null)
     setError(null)
     setLoading(false)
-  }, [])
+  }, [unsubscribe])
 
   return {
     data,
@@ -0,0 +1,69 @@
+"use client"
+
+import { useCallback } from "react"
+import { Alert, Linking } from "react-native"
+import { useRouter } from "expo-router"
+import { useUser } from "../redux/hooks"
+import { parseContentLink } from "../helpers/postContent"
+import searchApi from "../services/searchApi"
+import { isOfflineError } from "../services/apiErrors"
+
+/**
+ * Custom hook opening the links of post content
+ * Hashtags open their feed, mentions the mentioned user's profile; other links open in the browser.
+ * @returns Function opening a link target
+ */
+export const useContentLinks = () => {
+  const router = useRouter()
+  const user = useUser()
+
+  const openProfile = useCallback(
+    (userId: string) => {
+      if (userId === user?.id) {
+        router.push("/profile")
+      } else {
+        router.push({ pathname: "/profile", params: { id: userId } })
+      }
+    },
+    [router, user?.id],
+  )
+
+  return useCallback(
+    async (href: string) => {
+      const link = parseContentLink(href)
+      if (!link) {
+        Linking.openURL(href).catch((error) => console.warn("Cannot open link:", href, error))
+        return
+      }
+
+      switch (link.type) {
+        case "hashtag":
+          router.push({ pathname: "(main)/hashtag", params: { tag: link.tag } })
+          break
+        case "user":
+          openProfile(link.userId)
+          break
+        case "mention":
+          // Plain "@name" mentions carry no user ID: look the name up
+          try {
+            const mentioned = await searchApi.findMentionedUser(link.name)
+            if (mentioned) {
+              openProfile(mentioned.id)
+            } else {
+              Alert.alert("Profile", `No user found for @${link.name}`)
+            }
+          } catch (error) {
+            if (isOfflineError(error)) {
+              Alert.alert("Profile", "You're offline. Check your connection and try again.")
+            } else {
+              console.error("Error finding mentioned user:", error)
+            }
+          }
+          break
+      }
+    },
+    [router, openProfile],
+  )
+}
+
+export default useContentLinks
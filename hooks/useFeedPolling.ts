@@ -0,0 +1,73 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { AppState } from "react-native"
+import { useAppDispatch } from "../redux/hooks"
+import { pollNewPosts } from "../redux/feed/feedSlice"
+import useNetworkStatus from "./useNetworkStatus"
+
+interface UseFeedPollingOptions {
+  // Delay between two checks while everything goes well, in ms
+  interval?: number
+  // Longest delay after repeated failures, in ms
+  maxInterval?: number
+  enabled?: boolean
+}
+
+/**
+ * Custom hook checking for new home feed posts in the background.
+ * Paused while the app is in the background or offline, with a check as soon as it is back;
+ * the delay doubles after each failed check up to `maxInterval`.
+ * @param options Polling options
+ */
+export const useFeedPolling = ({
+  interval = 30000,
+  maxInterval = 5 * 60000,
+  enabled = true,
+}: UseFeedPollingOptions = {}) => {
+  const dispatch = useAppDispatch()
+  const { isConnected } = useNetworkStatus()
+  const [appActive, setAppActive] = useState<boolean>(AppState.currentState === "active")
+  const delay = useRef<number>(interval)
+  // Set while polling is paused, so it resumes with an immediate check
+  const paused = useRef<boolean>(false)
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener("change", (state) => setAppActive(state === "active"))
+    return () => subscription.remove()
+  }, [])
+
+  useEffect(() => {
+    if (!enabled || !appActive || isConnected === false) {
+      paused.current = true
+      return
+    }
+
+    let timer: ReturnType<typeof setTimeout> | null = null
+    let cancelled = false
+
+    const poll = async () => {
+      const result = await dispatch(pollNewPosts())
+      if (cancelled) return
+
+      if (pollNewPosts.fulfilled.match(result)) {
+        delay.current = interval
+      } else if (!result.meta.condition) {
+        delay.current = Math.min(delay.current * 2, maxInterval)
+      }
+      // Checks skipped because the feed has no first page yet keep the current pace.
+      // A check racing a refresh is dropped by the feed slice once the top post has changed.
+      timer = setTimeout(poll, delay.current)
+    }
+
+    timer = setTimeout(poll, paused.current ? 0 : delay.current)
+    paused.current = false
+
+    return () => {
+      cancelled = true
+      if (timer) clearTimeout(timer)
+    }
+  }, [dispatch, enabled, appActive, isConnected, interval, maxInterval])
+}
+
+export default useFeedPolling
@@ -0,0 +1,55 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { AppState, type ViewToken, type ViewabilityConfigCallbackPair } from "react-native"
+import { useIsFocused } from "@react-navigation/native"
+import type { Micropost } from "../services/micropostApi"
+
+// Share of a post on screen, in percent, for its video to play; more visible posts win
+const VISIBILITY_STEPS = [60, 80, 100]
+// Posts scrolled past quickly do not start their video
+const MIN_VIEW_TIME = 250
+
+const hasVideo = (item: Micropost): boolean =>
+  Boolean(item.attachments?.some((attachment) => attachment.type === "video"))
+
+/**
+ * Custom hook choosing the one feed post whose video plays: the most visible post with a video.
+ * Nothing plays while the screen is hidden or the app is in the background.
+ * @returns The post ID whose video plays, if any, and the viewability callbacks for the FlatList
+ */
+export const useFeedVideoAutoplay = () => {
+  const [visibleId, setVisibleId] = useState<number | null>(null)
+  const [appActive, setAppActive] = useState<boolean>(AppState.currentState === "active")
+  const focused = useIsFocused()
+  // IDs of the posts with a video at least as visible as each step, in list order
+  const visible = useRef<number[][]>(VISIBILITY_STEPS.map(() => []))
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener("change", (state) => setAppActive(state === "active"))
+    return () => subscription.remove()
+  }, [])
+
+  // FlatList does not allow changing these, so they are made once
+  const viewabilityConfigCallbackPairs = useRef<ViewabilityConfigCallbackPair[]>(
+    VISIBILITY_STEPS.map((threshold, step) => ({
+      viewabilityConfig: { itemVisiblePercentThreshold: threshold, minimumViewTime: MIN_VIEW_TIME },
+      onViewableItemsChanged: ({ viewableItems }: { viewableItems: ViewToken[] }) => {
+        visible.current[step] = viewableItems
+          .filter((token) => token.isViewable && hasVideo(token.item))
+          .map((token) => token.item.id)
+
+        // The topmost of the posts past the highest step
+        const best = [...visible.current].reverse().find((ids) => ids.length > 0)
+        setVisibleId(best ? best[0] : null)
+      },
+    })),
+  ).current
+
+  return {
+    playingId: focused && appActive ? visibleId : null,
+    viewabilityConfigCallbackPairs,
+  }
+}
+
+export default useFeedVideoAutoplay
@@ -0,0 +1,137 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import { useUser } from "../redux/hooks"
+import userApi from "../services/userApi"
+import { logger } from "../services/debug-utils"
+import type { MentionTarget } from "../helpers/postContent"
+import { useSearch } from "./useSearch"
+
+export interface MentionSuggestion extends MentionTarget {
+  gravatar_id?: string
+  // Followed by the current user; these come first
+  followed: boolean
+}
+
+const MAX_SUGGESTIONS = 6
+
+// Whether a name starts with the query, or one of its words does
+const matchesName = (name: string, query: string) => {
+  const wanted = query.toLowerCase()
+  return (
+    !wanted ||
+    name
+      .toLowerCase()
+      .split(/\s+/)
+      .some((word) => word.startsWith(wanted))
+  )
+}
+
+/**
+ * Custom hook for @mention autocomplete
+ * Suggests the users the current user follows first, then global search results.
+ * The composer reports the mention being typed with `setQuery` and forwards navigation keys to `handleKey`.
+ * @param onSelect Inserts the picked user as a mention token
+ * @returns Object with the suggestions, the highlighted one and the functions driving them
+ */
+export const useMentionSuggestions = (onSelect: (user: MentionSuggestion) => void) => {
+  const user = useUser()
+  // Name typed after "@", or null while no mention is being typed
+  const [query, setQuery] = useState<string | null>(null)
+  const [following, setFollowing] = useState<MentionSuggestion[] | null>(null)
+  const [highlighted, setHighlighted] = useState<number>(0)
+
+  const latestOnSelect = useRef(onSelect)
+  latestOnSelect.current = onSelect
+
+  const search = useSearch((term, signal) => userApi.search(term, signal), {
+    minLength: 1,
+    debounce: 250,
+    cacheSize: 10,
+    onError: (error) => logger.warn("Mention search failed", error),
+  })
+  const { setQuery: setSearchQuery } = search
+
+  useEffect(() => {
+    setSearchQuery(query ?? "")
+    setHighlighted(0)
+  }, [query, setSearchQuery])
+
+  // Load the followed users once a mention is first typed
+  const open = query !== null
+  useEffect(() => {
+    if (!open || following || !user?.id) return
+
+    userApi
+      .follow(user.id, 1, "following")
+      .then((response) => setFollowing((response.users || []).map((item) => ({ ...item, followed: true }))))
+      .catch((error) => {
+        logger.warn("Failed to load followed users for mentions", error)
+        setFollowing([])
+      })
+  }, [open, following, user?.id])
+
+  const suggestions = useMemo<MentionSuggestion[]>(() => {
+    if (query === null) return []
+
+    const followed = (following || []).filter((item) => matchesName(item.name, query))
+    const followedIds = new Set(followed.map((item) => item.id))
+    const others = query
+      ? search.results
+          .filter((item) => !followedIds.has(item.id) && item.id !== user?.id)
+          .map((item) => ({ ...item, followed: false }))
+      : []
+
+    return [...followed, ...others].slice(0, MAX_SUGGESTIONS)
+  }, [query, following, search.results, user?.id])
+
+  const close = useCallback(() => setQuery(null), [])
+
+  const select = useCallback((picked: MentionSuggestion) => {
+    latestOnSelect.current(picked)
+    setQuery(null)
+  }, [])
+
+  /**
+   * Handle a key pressed in the composer while suggestions show
+   * @returns Whether the key was used, so the composer should not handle it too
+   */
+  const handleKey = useCallback(
+    (key: string): boolean => {
+      if (suggestions.length === 0) return false
+
+      switch (key) {
+        case "ArrowDown":
+          setHighlighted((index) => (index + 1) % suggestions.length)
+          return true
+        case "ArrowUp":
+          setHighlighted((index) => (index - 1 + suggestions.length) % suggestions.length)
+          return true
+        case "Enter":
+        case "Tab":
+          select(suggestions[Math.min(highlighted, suggestions.length - 1)])
+          return true
+        case "Escape":
+          close()
+          return true
+        default:
+          return false
+      }
+    },
+    [suggestions, highlighted, select, close],
+  )
+
+  return {
+    query,
+    setQuery,
+    suggestions,
+    loading: open && (following === null || search.loading),
+    highlighted,
+    setHighlighted,
+    select,
+    close,
+    handleKey,
+  }
+}
+
+export default useMentionSuggestions
@@ -0,0 +1,112 @@
+"use client"
+
+import { useState, useEffect, useCallback, useMemo } from "react"
+import { Alert } from "react-native"
+import outbox, { type FlushResult, type OutboxEntry } from "../services/outbox"
+import { logger } from "../services/debug-utils"
+import queryCache from "../services/queryCache"
+import useNetworkStatus from "./useNetworkStatus"
+import { useAppDispatch } from "../redux/hooks"
+import { postLiked, postUnliked } from "../redux/posts/postsSlice"
+import { pendingCommentFailed, pendingCommentSent } from "../redux/comments/commentsSlice"
+
+/**
+ * Describe an outbox entry for the user
+ * @param entry Outbox entry
+ * @returns Short human readable description
+ */
+export const describeOutboxEntry = (entry: OutboxEntry): string => {
+  switch (entry.type) {
+    case "like":
+      return "Like a post"
+    case "unlike":
+      return "Unlike a post"
+    case "comment":
+      return `Comment "${entry.content.slice(0, 30)}"`
+    case "follow":
+      return "Follow a user"
+    case "unfollow":
+      return "Unfollow a user"
+    case "createPost":
+      return "New post"
+  }
+}
+
+/**
+ * Custom hook exposing the mutations waiting in the outbox
+ * @returns Object with pending entries
+ */
+export const useOutbox = () => {
+  const [entries, setEntries] = useState<OutboxEntry[]>([])
+
+  useEffect(() => outbox.subscribe(setEntries), [])
+
+  return {
+    entries,
+    isSending: (predicate: (entry: OutboxEntry) => boolean) => entries.some(predicate),
+  }
+}
+
+/**
+ * Custom hook replaying the outbox of the signed-in user on start, on sign-in and whenever the device reconnects.
+ * Entries the server rejects are reported, and likes and comments among them are undone.
+ * Comments written offline are replaced by their server copy once sent.
+ * Mount it once, near the root of the app.
+ * @param userId ID of the signed-in user, if any
+ * @param onFlushed Optional callback with the result of each replay
+ */
+export const useOutboxSync = (userId: string | null | undefined, onFlushed?: (result: FlushResult) => void) => {
+  const dispatch = useAppDispatch()
+
+  const flush = useCallback(async () => {
+    try {
+      const result = await outbox.flush()
+      if (onFlushed) {
+        onFlushed(result)
+      }
+    } catch (error) {
+      logger.error("Error replaying outbox", error)
+    }
+  }, [onFlushed])
+
+  // Replays also start from outbox.perform, so failures are reported wherever they happen
+  useEffect(
+    () =>
+      outbox.subscribeFailures((failed) => {
+        failed.forEach(({ entry }) => {
+          if (entry.type === "comment") dispatch(pendingCommentFailed({ postId: entry.postId, outboxId: entry.id }))
+          if (!userId) return
+          if (entry.type === "like") dispatch(postUnliked({ postId: entry.postId, userId }))
+          if (entry.type === "unlike") dispatch(postLiked({ postId: entry.postId, userId }))
+        })
+
+        Alert.alert(
+          "Some changes could not be sent",
+          failed.map(({ entry }) => `• ${describeOutboxEntry(entry)}`).join("\n"),
+        )
+      }),
+    [dispatch, userId],
+  )
+
+  useEffect(
+    () =>
+      outbox.subscribeSent((sent) => {
+        sent.forEach((entry) => {
+          if (entry.type !== "comment") return
+          dispatch(pendingCommentSent({ postId: entry.postId, outboxId: entry.id }))
+          // Screens showing the comments refetch them
+          queryCache.invalidate(["microposts.comments", { id: entry.postId }])
+        })
+      }),
+    [dispatch],
+  )
+
+  const networkOptions = useMemo(() => ({ onConnect: flush }), [flush])
+  useNetworkStatus(networkOptions)
+
+  useEffect(() => {
+    outbox.setUser(userId ?? null).then(flush)
+  }, [userId, flush])
+}
+
+export default useOutbox
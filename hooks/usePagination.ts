@@ -1,125 +1,346 @@
 "use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
 import { logger } from "../services/debug-utils"
 
-interface PaginationParams {
+// "page" asks for page numbers; "cursor" asks for the items after the last loaded one
+export type PaginationStrategy = "page" | "cursor"
+
+// Why a page is loaded
+export type PageLoadMode = "initial" | "refresh" | "more" | "gap"
+
+// What `fetchPage` is asked for
+export interface PageRequest<TCursor> {
+  // Page number, from 1
   page: number
-  [key: string]: any
+  // Cursor of the last loaded item (cursor strategy); undefined for the first page
+  cursor?: TCursor
+  // Cursor strategy: the requested items stop before the item of this cursor. Set to fetch the items above the
+  // first loaded one (`refreshAbove`), or the ones missing in a gap
+  until?: TCursor
+  // Aborted once the answer is no longer wanted: the list was refreshed, reset or unmounted meanwhile
+  signal: AbortSignal
 }
 
-type ApiFunction<T> = (params: PaginationParams) => Promise<T>
-
-interface UsePaginationOptions<T> {
-  initialPage?: number
+interface UsePaginationOptions<TItem, TResponse, TCursor> {
+  fetchPage: (request: PageRequest<TCursor>) => Promise<TResponse>
+  getItems: (response: TResponse) => TItem[]
+  // Items are deduplicated by key: pages shift when items are added or removed on the server
+  getKey: (item: TItem) => string | number
+  strategy?: PaginationStrategy
+  // Cursor strategy: the cursor that asks for the items after this one
+  getCursor?: (item: TItem) => TCursor
+  // Cursor strategy, for servers handing out cursors: the one asking for the next page, none after the last page
+  getNextCursor?: (response: TResponse) => TCursor | undefined
+  // Total number of items on the server, when the response has it
+  getTotalCount?: (response: TResponse) => number | undefined
+  // Items per page of the server, when known
   pageSize?: number
-  initialData?: T[]
-  onSuccess?: (data: T[], meta?: any) => void
-  onError?: (error: any) => void
-  extractData?: (response: any) => T[]
-  extractMeta?: (response: any) => any
-  autoLoad?: boolean
+  // Cursor strategy: refreshing only fetches the items above the first loaded one and puts them on top.
+  // A full page of them may not reach the loaded items, so a gap is left after them (see `fillGap`).
+  refreshAbove?: boolean
+  // Shown until the first page arrives, e.g. the first page cached by the previous run
+  initialItems?: TItem[]
+  onSuccess?: (response: TResponse, mode: PageLoadMode) => void
+  onError?: (error: unknown, mode: PageLoadMode) => void
+  // The list is cleared and loaded again when this value changes, e.g. the user whose posts are listed
+  resetOn?: unknown
+  enabled?: boolean
 }
 
+type PaginationStatus = "idle" | "loading" | "refreshing" | "loadingMore"
+
 /**
- * Custom hook for paginated API requests
- * @param apiFunction The API function to call
+ * Custom hook for infinite lists loaded page by page
+ * Requests never overlap: loading more waits for the running request, refreshing replaces it.
+ * Filling a gap runs beside them, one gap at a time; resetting the list cancels it.
+ * `hasMore` comes from the total count when the response has one, from full pages when the page size is known,
+ * and otherwise from the first empty page.
  * @param options Options for pagination
- * @returns Object with data, loading states, and pagination controls
+ * @returns Object with the items, loading states and pagination controls
  */
-export const usePagination = <T>(apiFunction: ApiFunction<any>, options: UsePaginationOptions<T> = {}) => {
-  const {
-    initialPage = 1,
-    initialData = [],
-    onSuccess,
-    onError,
-    extractData = (res) => res,
-    extractMeta = () => ({}),
-    autoLoad = true,
-  } = options
-
-  const [data, setData] = useState<T[]>(initialData)
-  const [meta, setMeta] = useState<any>({})
-  const [page, setPage] = useState(initialPage)
-  const [loading, setLoading] = useState(false)
-  const [refreshing, setRefreshing] = useState(false)
-  const [error, setError] = useState<Error | null>(null)
-  const [hasMore, setHasMore] = useState(true)
-
-  const loadData = useCallback(
-    async (pageNum: number, shouldAppend = false) => {
-      try {
-        if (shouldAppend) {
-          setLoading(true)
-        } else {
-          setRefreshing(true)
-        }
-        setError(null)
+export const usePagination = <TItem, TResponse = TItem[], TCursor = string | number>(
+  options: UsePaginationOptions<TItem, TResponse, TCursor>,
+) => {
+  const { resetOn, enabled = true } = options
+
+  const [items, setItems] = useState<TItem[]>(() => options.initialItems ?? [])
+  const [status, setStatus] = useState<PaginationStatus>(enabled ? "loading" : "idle")
+  const [error, setError] = useState<unknown>(null)
+  const [hasMore, setHasMore] = useState<boolean>(true)
+  const [totalCount, setTotalCount] = useState<number | undefined>(undefined)
+  // Keys of the items followed by a gap: items may be missing between them and the next loaded one
+  const [gaps, setGaps] = useState<Array<string | number>>([])
+  const [fillingGap, setFillingGap] = useState<string | number | null>(null)
+
+  // Latest options, so the controls keep a stable identity while screens pass inline callbacks
+  const optionsRef = useRef(options)
+  optionsRef.current = options
+
+  // Mirrors of the state read by the controls between renders
+  const itemsRef = useRef<TItem[]>(items)
+  const hasMoreRef = useRef<boolean>(true)
+  const gapsRef = useRef<Array<string | number>>([])
+  const pagesLoaded = useRef<number>(0)
+  const nextCursor = useRef<TCursor | undefined>(undefined)
+  const request = useRef<AbortController | null>(null)
+  const gapRequest = useRef<AbortController | null>(null)
+
+  const commit = useCallback(
+    (nextItems: TItem[], nextHasMore: boolean, nextGaps: Array<string | number> = gapsRef.current) => {
+      itemsRef.current = nextItems
+      hasMoreRef.current = nextHasMore
+      gapsRef.current = nextGaps
+      setItems(nextItems)
+      setHasMore(nextHasMore)
+      setGaps(nextGaps)
+    },
+    [],
+  )
+
+  // The given items, without the ones already loaded
+  const notLoaded = useCallback((received: TItem[]) => {
+    const { getKey } = optionsRef.current
+    const loadedKeys = new Set(itemsRef.current.map(getKey))
+    return received.filter((item) => !loadedKeys.has(getKey(item)))
+  }, [])
+
+  // A full page means the server may have more items past the last one returned
+  const isFullPage = useCallback((received: TItem[]) => {
+    const { pageSize } = optionsRef.current
+    return pageSize !== undefined && received.length >= pageSize
+  }, [])
+
+  const nextRequest = useCallback((): Omit<PageRequest<TCursor>, "signal"> => {
+    const { strategy = "page", getCursor, pageSize } = optionsRef.current
+    const loaded = itemsRef.current
+
+    if (strategy === "cursor") {
+      if (optionsRef.current.getNextCursor) return { page: pagesLoaded.current + 1, cursor: nextCursor.current }
+      const last = loaded[loaded.length - 1]
+      return { page: pagesLoaded.current + 1, cursor: last === undefined || !getCursor ? undefined : getCursor(last) }
+    }
+    // Count the loaded items rather than the pages: removed items shift the following pages up
+    return { page: pageSize ? Math.floor(loaded.length / pageSize) + 1 : pagesLoaded.current + 1 }
+  }, [])
+
+  const load = useCallback(
+    async (mode: Exclude<PageLoadMode, "gap">) => {
+      const { fetchPage, getItems, getKey, getCursor, getTotalCount, getNextCursor, pageSize, onSuccess, onError } =
+        optionsRef.current
+      const { strategy = "page", refreshAbove = false } = optionsRef.current
 
-        const response = await apiFunction({ page: pageNum })
-        const extractedData = extractData(response)
-        const metaData = extractMeta(response)
+      // Only the latest request may change the list
+      request.current?.abort()
+      const controller = new AbortController()
+      request.current = controller
 
-        setData((prev) => (shouldAppend ? [...prev, ...extractedData] : extractedData))
-        setMeta(metaData)
+      setStatus(mode === "initial" ? "loading" : mode === "refresh" ? "refreshing" : "loadingMore")
+      setError(null)
 
-        // Determine if there's more data to load
-        setHasMore(extractedData.length > 0)
+      // Refreshing above the loaded items keeps them, gaps included
+      const first = itemsRef.current[0]
+      const above = mode === "refresh" && refreshAbove && strategy === "cursor" && getCursor && first !== undefined
+      const abovePage = above ? { page: 1, until: getCursor(first) } : { page: 1 }
 
-        if (onSuccess) {
-          onSuccess(extractedData, metaData)
+      try {
+        const pageRequest = mode === "more" ? nextRequest() : abovePage
+        const response = await fetchPage({ ...pageRequest, signal: controller.signal })
+        if (controller.signal.aborted) return
+
+        const received = getItems(response)
+        const total = getTotalCount?.(response)
+        const current = mode === "initial" ? [] : itemsRef.current
+        const receivedKeys = new Set(received.map(getKey))
+        let nextItems: TItem[]
+        let nextGaps = mode === "initial" ? [] : gapsRef.current
+
+        if (mode === "more") {
+          nextItems = [...current, ...notLoaded(received)]
+          pagesLoaded.current += 1
+        } else if (above) {
+          const fresh = notLoaded(received)
+          nextItems = [...fresh, ...current]
+          if (isFullPage(received) && fresh.length > 0) nextGaps = [...nextGaps, getKey(fresh[fresh.length - 1])]
+        } else if (mode === "refresh" && current.some((item) => receivedKeys.has(getKey(item)))) {
+          // Fresh first page on top, then the loaded items it does not repeat
+          nextItems = [...received, ...current.filter((item) => !receivedKeys.has(getKey(item)))]
+        } else {
+          // Nothing in common with the loaded items: whatever was between them is unknown, so start over
+          nextItems = received
+          nextGaps = []
+          pagesLoaded.current = 1
         }
 
-        return { success: true, data: extractedData, meta: metaData }
-      } catch (err: any) {
+        // The next page follows this one, unless this refresh was merged on top of longer loaded pages
+        const followsThisPage = mode !== "refresh" || nextItems === received
+        if (getNextCursor && followsThisPage) nextCursor.current = getNextCursor(response)
+
+        const moreAfterPage =
+          received.length === 0
+            ? false
+            : getNextCursor
+              ? nextCursor.current !== undefined
+              : total !== undefined
+                ? nextItems.length < total
+                : pageSize
+                  ? received.length >= pageSize
+                  : true
+        // A refresh merged into a longer list says nothing about the end of that list
+        const nextHasMore = !followsThisPage && total === undefined ? hasMoreRef.current : moreAfterPage
+
+        commit(
+          nextItems,
+          nextHasMore,
+          nextGaps.filter((key) => nextItems.some((item) => getKey(item) === key)),
+        )
+        setTotalCount(total)
+        onSuccess?.(response, mode)
+      } catch (err) {
+        if (controller.signal.aborted) return
         logger.error("Pagination request failed:", err)
         setError(err)
-
-        if (onError) {
-          onError(err)
+        onError?.(err, mode)
+      } finally {
+        if (request.current === controller) {
+          request.current = null
+          setStatus("idle")
         }
+      }
+    },
+    [commit, nextRequest, notLoaded, isFullPage],
+  )
+
+  // Clear the list, back to the initial items, and load the first page
+  const reset = useCallback(() => {
+    request.current?.abort()
+    request.current = null
+    gapRequest.current?.abort()
+    gapRequest.current = null
+    setFillingGap(null)
+    pagesLoaded.current = 0
+    nextCursor.current = undefined
+    commit(optionsRef.current.initialItems ?? [], true, [])
+    setTotalCount(undefined)
+    return load("initial")
+  }, [commit, load])
+
+  // Pull to refresh: merge the first page into the loaded items
+  const refresh = useCallback(() => load(itemsRef.current.length === 0 ? "initial" : "refresh"), [load])
+
+  // Load the next page, unless a request is running or the list is complete
+  const loadMore = useCallback(async () => {
+    if (request.current || !hasMoreRef.current || itemsRef.current.length === 0) return
+    await load("more")
+  }, [load])
+
+  // Load the items missing in the gap after an item; a full page of them moves the gap down to the last one
+  const fillGap = useCallback(
+    async (key: string | number) => {
+      const { fetchPage, getItems, getKey, getCursor, onSuccess, onError } = optionsRef.current
+      const loaded = itemsRef.current
+      const index = loaded.findIndex((item) => getKey(item) === key)
+      if (gapRequest.current || !getCursor || index === -1 || !gapsRef.current.includes(key)) return
+
+      const controller = new AbortController()
+      gapRequest.current = controller
+      setFillingGap(key)
+
+      try {
+        const next = loaded[index + 1]
+        const response = await fetchPage({
+          page: 1,
+          cursor: getCursor(loaded[index]),
+          until: next === undefined ? undefined : getCursor(next),
+          signal: controller.signal,
+        })
+        if (controller.signal.aborted) return
+
+        const received = getItems(response)
+        const fresh = notLoaded(received)
+        const current = itemsRef.current
+        const at = current.findIndex((item) => getKey(item) === key)
+        const nextGaps = gapsRef.current.filter((gap) => gap !== key)
+        // Removed meanwhile: removeItem already moved its gap
+        if (at === -1) return
 
-        return { success: false, error: err }
+        if (isFullPage(received) && fresh.length > 0) nextGaps.push(getKey(fresh[fresh.length - 1]))
+        commit([...current.slice(0, at + 1), ...fresh, ...current.slice(at + 1)], hasMoreRef.current, nextGaps)
+        onSuccess?.(response, "gap")
+      } catch (err) {
+        if (controller.signal.aborted) return
+        logger.error("Pagination request failed:", err)
+        onError?.(err, "gap")
       } finally {
-        setLoading(false)
-        setRefreshing(false)
+        if (gapRequest.current === controller) {
+          gapRequest.current = null
+          setFillingGap(null)
+        }
+      }
+    },
+    [commit, notLoaded, isFullPage],
+  )
+
+  // Put items newer than the loaded ones on top, e.g. found in the background.
+  // Unless `complete`, more may be missing between them and the loaded items, so a gap is left after them.
+  const prependItems = useCallback(
+    (added: TItem[], complete = true) => {
+      const { getKey } = optionsRef.current
+      const fresh = notLoaded(added)
+      if (fresh.length === 0) return
+
+      const nextGaps = complete ? gapsRef.current : [...gapsRef.current, getKey(fresh[fresh.length - 1])]
+      commit([...fresh, ...itemsRef.current], hasMoreRef.current, nextGaps)
+    },
+    [commit, notLoaded],
+  )
+
+  // Drop an item removed on this device, e.g. a deleted post; its gap moves up to the item above
+  const removeItem = useCallback(
+    (key: string | number) => {
+      const { getKey } = optionsRef.current
+      const index = itemsRef.current.findIndex((item) => getKey(item) === key)
+      if (index === -1) return
+
+      const nextItems = itemsRef.current.filter((item) => getKey(item) !== key)
+      let nextGaps = gapsRef.current
+      if (nextGaps.includes(key)) {
+        nextGaps = nextGaps.filter((gap) => gap !== key)
+        if (index > 0) nextGaps.push(getKey(itemsRef.current[index - 1]))
       }
+      commit(nextItems, hasMoreRef.current, nextGaps)
+      setTotalCount((total) => (total === undefined ? total : total - 1))
     },
-    [apiFunction, extractData, extractMeta, onSuccess, onError],
+    [commit],
   )
 
-  // Load initial data
   useEffect(() => {
-    if (autoLoad) {
-      loadData(initialPage, false)
-    }
-  }, [autoLoad, initialPage, loadData])
-
-  // Refresh data (pull to refresh)
-  const refresh = useCallback(() => {
-    setPage(initialPage)
-    return loadData(initialPage, false)
-  }, [initialPage, loadData])
-
-  // Load next page
-  const loadMore = useCallback(() => {
-    if (!loading && hasMore) {
-      const nextPage = page + 1
-      setPage(nextPage)
-      return loadData(nextPage, true)
+    if (!enabled) return
+    reset()
+    return () => {
+      request.current?.abort()
+      request.current = null
+      gapRequest.current?.abort()
+      gapRequest.current = null
     }
-    return Promise.resolve({ success: false, error: "No more data or already loading" })
-  }, [loading, hasMore, page, loadData])
+  }, [enabled, resetOn, reset])
 
   return {
-    data,
-    meta,
-    loading,
-    refreshing,
+    items,
+    totalCount,
     error,
     hasMore,
-    page,
+    gaps,
+    fillingGap,
+    loading: status === "loading",
+    refreshing: status === "refreshing",
+    loadingMore: status === "loadingMore",
     refresh,
     loadMore,
-    setPage,
+    reset,
+    fillGap,
+    prependItems,
+    removeItem,
   }
 }
 
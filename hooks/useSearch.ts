@@ -0,0 +1,186 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { createLruCache } from "../helpers/lruCache"
+import searchHistory from "../services/searchHistory"
+
+// A page of results and the cursor of the next one
+export interface SearchResultsPage<T> {
+  items: T[]
+  nextCursor?: string
+}
+
+// Returns every result at once, or a page continued through `cursor`
+type SearchFunction<T> = (query: string, signal: AbortSignal, cursor?: string) => Promise<T[] | SearchResultsPage<T>>
+
+interface UseSearchOptions {
+  // Wait after the last keystroke before searching, in ms
+  debounce?: number
+  // Shorter queries show no results
+  minLength?: number
+  // Number of recent queries whose results are kept in memory
+  cacheSize?: number
+  // What is searched, e.g. the tab of the search screen; changing it searches again
+  scope?: string
+  onError?: (error: unknown) => void
+}
+
+const toPage = <T>(result: T[] | SearchResultsPage<T>): SearchResultsPage<T> =>
+  Array.isArray(result) ? { items: result } : result
+
+/**
+ * Custom hook for search-as-you-type
+ * Debounces the query, aborts the request of a superseded query so a slow answer never replaces newer results,
+ * keeps the results of recent queries in memory and the recent searches on the device.
+ * @param search Search function; it should pass the signal on to its request
+ * @param options Search options
+ * @returns Object with the query, its results, loading states and the search history
+ */
+export const useSearch = <T>(
+  search: SearchFunction<T>,
+  { debounce = 300, minLength = 2, cacheSize = 20, scope = "", onError }: UseSearchOptions = {},
+) => {
+  const [query, setQuery] = useState<string>("")
+  const [page, setPage] = useState<SearchResultsPage<T>>({ items: [] })
+  const [loading, setLoading] = useState<boolean>(false)
+  const [loadingMore, setLoadingMore] = useState<boolean>(false)
+  // The results belong to the current query, so "no results" can be told apart from "not searched yet"
+  const [searched, setSearched] = useState<boolean>(false)
+  const [error, setError] = useState<unknown>(null)
+  const [history, setHistory] = useState<string[]>([])
+
+  const [cache] = useState(() => createLruCache<string, SearchResultsPage<T>>(cacheSize))
+  // Latest callbacks, so changing them does not restart the search
+  const latest = useRef({ search, onError })
+  latest.current = { search, onError }
+
+  // Search the results belong to, and the request loading more of them
+  const current = useRef<{ term: string; cacheKey: string; page: SearchResultsPage<T> } | null>(null)
+  const moreRequest = useRef<AbortController | null>(null)
+
+  const showPage = useCallback((term: string, cacheKey: string, nextPage: SearchResultsPage<T>) => {
+    current.current = { term, cacheKey, page: nextPage }
+    setPage(nextPage)
+  }, [])
+
+  useEffect(() => {
+    searchHistory.load().then(setHistory)
+  }, [])
+
+  useEffect(() => {
+    const term = query.trim()
+    const cacheKey = `${scope}:${term.toLowerCase()}`
+
+    current.current = null
+    moreRequest.current?.abort()
+    moreRequest.current = null
+    setLoadingMore(false)
+
+    if (term.length < minLength) {
+      setPage({ items: [] })
+      setSearched(false)
+      setLoading(false)
+      setError(null)
+      return
+    }
+
+    const cached = cache.get(cacheKey)
+    if (cached) {
+      showPage(term, cacheKey, cached)
+      setSearched(true)
+      setLoading(false)
+      setError(null)
+      return
+    }
+
+    setLoading(true)
+    const controller = new AbortController()
+    const timer = setTimeout(async () => {
+      try {
+        const found = toPage(await latest.current.search(term, controller.signal))
+        if (controller.signal.aborted) return
+
+        cache.set(cacheKey, found)
+        showPage(term, cacheKey, found)
+        setError(null)
+      } catch (err) {
+        if (controller.signal.aborted) return
+
+        setPage({ items: [] })
+        setError(err)
+        latest.current.onError?.(err)
+      }
+      setSearched(true)
+      setLoading(false)
+    }, debounce)
+
+    // The query changed or the screen closed: this search is superseded
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+      moreRequest.current?.abort()
+    }
+  }, [query, scope, minLength, debounce, cache, showPage])
+
+  // Load the next page of the current results
+  const loadMore = useCallback(async () => {
+    const search = current.current
+    if (!search?.page.nextCursor || moreRequest.current) return
+
+    const controller = new AbortController()
+    moreRequest.current = controller
+    setLoadingMore(true)
+
+    try {
+      const found = toPage(await latest.current.search(search.term, controller.signal, search.page.nextCursor))
+      if (controller.signal.aborted) return
+
+      const nextPage = { items: [...search.page.items, ...found.items], nextCursor: found.nextCursor }
+      cache.set(search.cacheKey, nextPage)
+      showPage(search.term, search.cacheKey, nextPage)
+    } catch (err) {
+      if (controller.signal.aborted) return
+      latest.current.onError?.(err)
+    } finally {
+      if (moreRequest.current === controller) {
+        moreRequest.current = null
+        setLoadingMore(false)
+      }
+    }
+  }, [cache, showPage])
+
+  // Remember a query, e.g. once the user submits it or opens one of its results
+  const saveToHistory = useCallback(
+    async (value: string = query) => {
+      setHistory(await searchHistory.add(value))
+    },
+    [query],
+  )
+
+  const removeFromHistory = useCallback(async (value: string) => {
+    setHistory(await searchHistory.remove(value))
+  }, [])
+
+  const clearHistory = useCallback(async () => {
+    await searchHistory.clear()
+    setHistory([])
+  }, [])
+
+  return {
+    query,
+    setQuery,
+    results: page.items,
+    hasMore: Boolean(page.nextCursor),
+    loading,
+    loadingMore,
+    loadMore,
+    searched,
+    error,
+    history,
+    saveToHistory,
+    removeFromHistory,
+    clearHistory,
+  }
+}
+
+export default useSearch
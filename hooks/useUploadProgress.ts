@@ -0,0 +1,41 @@
+"use client"
+
+import { useState, useEffect, useMemo } from "react"
+import mediaService, { type UploadProgress } from "../services/mediaService"
+
+export interface UploadTotals {
+  sent: number
+  total: number
+  // Between 0 and 1
+  fraction: number
+  retrying: boolean
+}
+
+/**
+ * Custom hook following the uploads of a set of files, e.g. the attachments of the post being sent
+ * @param uris URIs of the files
+ * @returns Bytes sent across the files, or null while none of them is uploading
+ */
+export const useUploadProgress = (uris: string[]): UploadTotals | null => {
+  const [uploads, setUploads] = useState<UploadProgress[]>([])
+
+  useEffect(() => mediaService.subscribeUploads(setUploads), [])
+
+  const key = uris.join("\n")
+  return useMemo(() => {
+    const wanted = new Set(key.split("\n"))
+    const current = uploads.filter((upload) => wanted.has(upload.uri))
+    if (current.length === 0) return null
+
+    const sent = current.reduce((sum, upload) => sum + upload.sent, 0)
+    const total = current.reduce((sum, upload) => sum + upload.total, 0)
+    return {
+      sent,
+      total,
+      fraction: total > 0 ? sent / total : 1,
+      retrying: current.some((upload) => upload.state === "retrying"),
+    }
+  }, [uploads, key])
+}
+
+export default useUploadProgress
@@ -0,0 +1,22 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import videoSettings from "../services/videoSettings"
+
+/**
+ * Custom hook for the remembered mute setting of videos, shared by every player
+ * @returns Whether videos are muted, and a function toggling it for all of them
+ */
+export const useVideoMuted = (): [boolean, () => void] => {
+  const [muted, setMuted] = useState(videoSettings.isMuted)
+
+  useEffect(() => videoSettings.subscribe(setMuted), [])
+
+  const toggle = useCallback(() => {
+    videoSettings.setMuted(!videoSettings.isMuted())
+  }, [])
+
+  return [muted, toggle]
+}
+
+export default useVideoMuted
@@ -0,0 +1,9 @@
+// Native modules used by the services, replaced by the in-memory mocks their packages ship for Jest
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock"),
+)
+jest.mock("@react-native-community/netinfo", () => require("@react-native-community/netinfo/jest/netinfo-mock"))
+// Players are native views; nothing under test plays video
+jest.mock("expo-video", () => ({ createVideoPlayer: jest.fn(), useVideoPlayer: jest.fn(), VideoView: "VideoView" }))
+// Backend profiles come from app.json, as in the app
+jest.mock("expo-constants", () => ({ __esModule: true, default: { expoConfig: require("./app.json").expo } }))
@@ -2,16 +2,24 @@ import { AppState } from 'react-native'
 import 'react-native-url-polyfill/auto'
 import AsyncStorage from '@react-native-async-storage/async-storage'
 import { createClient } from '@supabase/supabase-js'
-import { supabaseAnonKey, supabaseUrl } from '../constants'
+import { getConfig, onConfigChange } from '../services/config'
 
+const createSupabaseClient = ({ supabaseUrl, supabaseAnonKey }) =>
+  createClient(supabaseUrl, supabaseAnonKey, {
+    auth: {
+      storage: AsyncStorage,
+      autoRefreshToken: true,
+      persistSession: true,
+      detectSessionInUrl: false,
+    },
+  })
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
-  auth: {
-    storage: AsyncStorage,
-    autoRefreshToken: true,
-    persistSession: true,
-    detectSessionInUrl: false,
-  },
+// Reassigned when the backend profile changes; import it rather than caching it
+export let supabase = createSupabaseClient(getConfig())
+
+onConfigChange((config) => {
+  supabase.auth.stopAutoRefresh()
+  supabase = createSupabaseClient(config)
 })
 
 // Tells Supabase Auth to continuously refresh the session automatically
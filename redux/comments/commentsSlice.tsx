@@ -0,0 +1,110 @@
+import { createEntityAdapter, createSelector, createSlice, type PayloadAction } from "@reduxjs/toolkit"
+import type { Comment } from "../../services/micropostApi"
+import { logoutUser } from "../session/sessionSlice"
+import type { RootState } from "../store"
+
+// Comments are stored with a reference to their author; the author lives in the users slice
+export interface CommentEntity extends Omit<Comment, "user"> {
+  postId: number
+  userId?: string
+  outboxId?: string // Set while the comment is waiting in the offline outbox
+}
+
+export interface CommentsReceivedPayload {
+  postId: number
+  comments: Comment[]
+}
+
+export interface PendingCommentPayload {
+  postId: number
+  outboxId: string
+}
+
+export interface CommentAddedPayload {
+  postId: number
+  comment: Comment
+  outboxId?: string
+}
+
+const commentsAdapter = createEntityAdapter<CommentEntity>({
+  // Newest first, matching the order comments are shown in
+  sortComparer: (a, b) => (b.created_at || "").localeCompare(a.created_at || ""),
+})
+
+const toEntity = (postId: number, comment: Comment, outboxId?: string): CommentEntity => {
+  const { user, ...rest } = comment
+  return { ...rest, postId, userId: user?.id, outboxId }
+}
+
+type CommentsState = ReturnType<typeof commentsAdapter.getInitialState>
+
+// Comments shown for an outbox entry until it is sent
+const pendingIdsOf = (state: CommentsState, outboxId: string): number[] =>
+  Object.values(state.entities)
+    .filter((comment) => comment?.outboxId === outboxId)
+    .map((comment) => comment!.id)
+
+export const commentsSlice = createSlice({
+  name: "comments",
+  initialState: commentsAdapter.getInitialState(),
+  reducers: {
+    // Replace the comments of a post with a fresh page from the API; comments still in the outbox stay
+    commentsReceived: (state, action: PayloadAction<CommentsReceivedPayload>) => {
+      const { postId, comments } = action.payload
+      const received = new Set(comments.map((comment) => comment.id))
+      commentsAdapter.removeMany(
+        state,
+        Object.values(state.entities)
+          .filter((comment) => comment?.postId === postId && !comment.outboxId && !received.has(comment.id))
+          .map((comment) => comment!.id),
+      )
+      commentsAdapter.upsertMany(
+        state,
+        comments.map((comment) => toEntity(postId, comment)),
+      )
+    },
+
+    // Add a comment written by the current user
+    commentAdded: (state, action: PayloadAction<CommentAddedPayload>) => {
+      const { postId, comment, outboxId } = action.payload
+      commentsAdapter.upsertOne(state, toEntity(postId, comment, outboxId))
+    },
+
+    commentRemoved: (state, action: PayloadAction<number>) => {
+      commentsAdapter.removeOne(state, action.payload)
+    },
+
+    // The outbox sent a comment written offline: the server copy comes with the next page of comments
+    pendingCommentSent: (state, action: PayloadAction<PendingCommentPayload>) => {
+      commentsAdapter.removeMany(state, pendingIdsOf(state, action.payload.outboxId))
+    },
+
+    // The server rejected a comment written offline
+    pendingCommentFailed: (state, action: PayloadAction<PendingCommentPayload>) => {
+      commentsAdapter.removeMany(state, pendingIdsOf(state, action.payload.outboxId))
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(logoutUser.fulfilled, () => commentsAdapter.getInitialState())
+      .addCase(logoutUser.rejected, () => commentsAdapter.getInitialState())
+  },
+})
+
+// Export actions
+export const { commentsReceived, commentAdded, commentRemoved, pendingCommentSent, pendingCommentFailed } =
+  commentsSlice.actions
+
+// Selectors
+export const {
+  selectAll: selectAllComments,
+  selectById: selectCommentById,
+  selectEntities: selectCommentEntities,
+} = commentsAdapter.getSelectors((state: RootState) => state.comments)
+
+export const selectCommentsByPostId = createSelector(
+  [selectAllComments, (_: RootState, postId: number) => postId],
+  (comments, postId) => comments.filter((comment) => comment.postId === postId),
+)
+
+export default commentsSlice.reducer
@@ -0,0 +1,121 @@
+import { createAsyncThunk, createSlice, type PayloadAction } from "@reduxjs/toolkit"
+import { rehydrated } from "../persist/persistActions"
+import { logoutUser } from "../session/sessionSlice"
+import { postRemoved, postsReceived } from "../posts/postsSlice"
+import { getBackend } from "../../services/backend"
+import micropostApi, { FEED_PAGE_SIZE } from "../../services/micropostApi"
+import { toApiErrorPayload, type ApiErrorPayload } from "../../services/apiErrors"
+import type { RootState } from "../store"
+
+export interface FeedStats {
+  followers: number
+  following: number
+  micropost: number
+}
+
+// What the home feed shares with the cold start cache and the background polling.
+// The list itself is paged by the home screen (see usePagination).
+export interface FeedState {
+  stats: FeedStats | null
+  // Posts newer than the top one found by background polling, shown once the user taps the banner
+  newPostIds: number[]
+  // Polling found a full page: there may be more new posts than `newPostIds`
+  moreNewPosts: boolean
+  // IDs of the first page of the home feed, newest first
+  firstPageIds: number[]
+}
+
+// Result of a background check, with the top post it was made against
+interface PolledPosts {
+  ids: number[]
+  stats: FeedStats
+  after: number
+}
+
+const initialState: FeedState = {
+  stats: null,
+  newPostIds: [],
+  moreNewPosts: false,
+  firstPageIds: [],
+}
+
+// Background check for posts newer than the top one; they wait in `newPostIds` until shown
+export const pollNewPosts = createAsyncThunk<PolledPosts, void, { state: RootState; rejectValue: ApiErrorPayload }>(
+  "feed/pollNew",
+  async (_, { dispatch, getState, rejectWithValue }) => {
+    try {
+      const [after] = getState().feed.firstPageIds
+      const response = await getBackend().feed.list({ after, limit: FEED_PAGE_SIZE })
+      const posts = response.feed_items.map((micropost) => micropostApi.transformForPostCard(micropost))
+      dispatch(postsReceived(posts))
+
+      return {
+        // A server that ignores the cursor still can't put older posts on top
+        ids: posts.map((post) => post.id).filter((id) => id > after),
+        stats: { followers: response.followers, following: response.following, micropost: response.micropost },
+        after,
+      }
+    } catch (error) {
+      return rejectWithValue(toApiErrorPayload(error))
+    }
+  },
+  { condition: (_, { getState }) => getState().feed.firstPageIds.length > 0 },
+)
+
+export const feedSlice = createSlice({
+  name: "feed",
+  initialState,
+  reducers: {
+    // The home feed loaded or changed its first page
+    feedFirstPageReceived: (state, action: PayloadAction<number[]>) => {
+      const ids = action.payload
+      if (ids.length === state.firstPageIds.length && ids.every((id, index) => id === state.firstPageIds[index])) {
+        return
+      }
+      // Posts found by polling were checked against the previous top post
+      if (ids[0] !== state.firstPageIds[0]) {
+        state.newPostIds = []
+        state.moreNewPosts = false
+      }
+      state.firstPageIds = ids
+    },
+
+    feedStatsReceived: (state, action: PayloadAction<FeedStats>) => {
+      state.stats = action.payload
+    },
+
+    // The user tapped the "new posts" banner; the home screen puts them on top
+    newPostsShown: (state) => {
+      state.newPostIds = []
+      state.moreNewPosts = false
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(pollNewPosts.fulfilled, (state, action) => {
+        // Polled against an older top post, e.g. while a refresh was adding these
+        if (action.payload.after !== state.firstPageIds[0]) return
+        state.newPostIds = action.payload.ids
+        state.moreNewPosts = action.payload.ids.length >= FEED_PAGE_SIZE
+        state.stats = action.payload.stats
+      })
+      .addCase(postRemoved, (state, action) => {
+        state.newPostIds = state.newPostIds.filter((id) => id !== action.payload)
+      })
+      // The feed starts from the first page saved by the previous run so it shows up immediately
+      .addCase(rehydrated, (state, action) => {
+        state.firstPageIds = action.payload.feed.firstPageIds
+      })
+      .addCase(logoutUser.fulfilled, () => initialState)
+      .addCase(logoutUser.rejected, () => initialState)
+  },
+})
+
+// Export actions
+export const { feedFirstPageReceived, feedStatsReceived, newPostsShown } = feedSlice.actions
+
+// Selectors
+export const selectFeedFirstPageIds = (state: RootState) => state.feed.firstPageIds
+export const selectFeed = (state: RootState) => state.feed
+
+export default feedSlice.reducer
@@ -1,8 +1,9 @@
 "use client"
 
 import { type TypedUseSelectorHook, useDispatch, useSelector } from "react-redux"
-import { useCallback } from "react"
+import { useCallback, useMemo } from "react"
 import type { RootState, AppDispatch } from "./store"
+import { makeSelectCommentsByPostId, makeSelectPostById, makeSelectPostsByIds } from "./selectors"
 
 /**
  * Typed version of useDispatch hook
@@ -56,6 +57,36 @@ export const useSessionError = () => {
   return useAppSelector((state) => state.session.error)
 }
 
+/**
+ * Hook to read a post, with its author, from the entity cache
+ * @param id Post ID
+ * @returns The post, or undefined if it hasn't been loaded
+ */
+export const usePost = (id: number) => {
+  const selectPost = useMemo(makeSelectPostById, [])
+  return useAppSelector((state) => selectPost(state, id))
+}
+
+/**
+ * Hook to read a list of posts, with their authors, from the entity cache
+ * @param ids Post IDs in display order
+ * @returns The posts that have been loaded, in the same order
+ */
+export const usePosts = (ids: number[]) => {
+  const selectPosts = useMemo(makeSelectPostsByIds, [])
+  return useAppSelector((state) => selectPosts(state, ids))
+}
+
+/**
+ * Hook to read the comments of a post, with their authors, from the entity cache
+ * @param postId Post ID
+ * @returns The comments of the post, newest first
+ */
+export const usePostComments = (postId: number) => {
+  const selectComments = useMemo(makeSelectCommentsByPostId, [])
+  return useAppSelector((state) => selectComments(state, postId))
+}
+
 /**
  * Hook to create a dispatch function with error handling
  * @returns A function that dispatches an action and handles errors
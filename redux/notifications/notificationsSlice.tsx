@@ -0,0 +1,43 @@
+import { createSlice, type PayloadAction } from "@reduxjs/toolkit"
+import { rehydrated } from "../persist/persistActions"
+import { logoutUser } from "../session/sessionSlice"
+import type { RootState } from "../store"
+
+export interface NotificationsState {
+  unreadCount: number
+}
+
+const initialState: NotificationsState = {
+  unreadCount: 0,
+}
+
+export const notificationsSlice = createSlice({
+  name: "notifications",
+  initialState,
+  reducers: {
+    unreadCountReceived: (state, action: PayloadAction<number>) => {
+      state.unreadCount = action.payload
+    },
+
+    // The user opened the notifications screen
+    unreadCountCleared: (state) => {
+      state.unreadCount = 0
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(rehydrated, (state, action) => {
+        state.unreadCount = action.payload.notifications.unreadCount
+      })
+      .addCase(logoutUser.fulfilled, () => initialState)
+      .addCase(logoutUser.rejected, () => initialState)
+  },
+})
+
+// Export actions
+export const { unreadCountReceived, unreadCountCleared } = notificationsSlice.actions
+
+// Selectors
+export const selectUnreadNotificationCount = (state: RootState) => state.notifications.unreadCount
+
+export default notificationsSlice.reducer
@@ -0,0 +1,24 @@
+import { createAction } from "@reduxjs/toolkit"
+import type { Micropost } from "../../services/micropostApi"
+import type { UserState } from "../session/sessionSlice"
+
+// Bump when the persisted shape changes, and add a migration in persistStore
+export const PERSIST_VERSION = 2
+
+export interface PersistedState {
+  version: number
+  session: Pick<UserState, "loggedIn" | "value" | "tokens">
+  feed: {
+    firstPageIds: number[]
+  }
+  // Posts of the first feed page, with their authors
+  posts: Micropost[]
+  notifications: {
+    unreadCount: number
+  }
+}
+
+export type RehydratedPayload = Omit<PersistedState, "version" | "posts">
+
+// Dispatched once at startup with the state saved by the previous run
+export const rehydrated = createAction<RehydratedPayload>("persist/REHYDRATE")
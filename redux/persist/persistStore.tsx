@@ -0,0 +1,174 @@
+import AsyncStorage from "@react-native-async-storage/async-storage"
+import { logger } from "../../services/debug-utils"
+import { postsReceived } from "../posts/postsSlice"
+import { makeSelectPostsByIds } from "../selectors"
+import type { AppDispatch, RootState } from "../store"
+import { PERSIST_VERSION, rehydrated, type PersistedState } from "./persistActions"
+
+const STORAGE_KEY = "redux-state"
+
+// Writes are batched: the session and feed change in bursts while a screen loads
+const SAVE_DELAY = 1000
+
+interface PersistableStore {
+  dispatch: AppDispatch
+  getState: () => RootState
+  subscribe: (listener: () => void) => () => void
+}
+
+type Migration = (state: any) => any
+
+/**
+ * Migrations keyed by the version they produce (N - 1 -> N).
+ * Add one whenever PERSIST_VERSION is bumped, for example when a `User` field is renamed:
+ *
+ *   2: (state) => ({ ...state, session: { ...state.session, value: renameUserFields(state.session.value) } }),
+ *
+ * Versions with no path to the current one are dropped and the app starts from a fresh state.
+ */
+const migrations: Record<number, Migration> = {
+  // Posts gained a format, and attachments in place of their single image (sizes and placeholders are optional)
+  2: (state) => ({
+    ...state,
+    posts: Array.isArray(state?.posts)
+      ? state.posts.map((post: any) => ({
+          ...post,
+          format: post.format ?? "html",
+          attachments: post.attachments ?? (post.image ? [{ id: post.id, url: post.image, type: "image" }] : []),
+        }))
+      : state?.posts,
+  }),
+}
+
+/**
+ * Bring a stored state up to the current version
+ * @param stored Parsed value read from AsyncStorage
+ * @returns The migrated state, or null if it cannot be used
+ */
+export const migratePersistedState = (stored: any): PersistedState | null => {
+  const version = typeof stored?.version === "number" ? stored.version : 0
+
+  // Written by a newer build (e.g. after a rollback): don't guess
+  if (version > PERSIST_VERSION) return null
+
+  let state = stored
+  for (let next = version + 1; next <= PERSIST_VERSION; next++) {
+    const migration = migrations[next]
+    if (!migration) return null
+    state = migration(state)
+  }
+
+  return isPersistedState(state) ? { ...state, version: PERSIST_VERSION } : null
+}
+
+// Shape check after migration so a bad write can never crash the first render
+const isPersistedState = (state: any): state is PersistedState => {
+  const user = state?.session?.value
+  return (
+    typeof state?.session?.loggedIn === "boolean" &&
+    (user === null || typeof user?.id === "string" || typeof user?.id === "number") &&
+    Array.isArray(state?.feed?.firstPageIds) &&
+    Array.isArray(state?.posts) &&
+    typeof state?.notifications?.unreadCount === "number"
+  )
+}
+
+const selectFirstPagePosts = makeSelectPostsByIds()
+
+/**
+ * Pick the parts of the state worth restoring on the next cold start
+ * @param state Current Redux state
+ * @returns The state to persist
+ */
+export const selectPersistedState = (state: RootState): PersistedState => ({
+  version: PERSIST_VERSION,
+  session: {
+    loggedIn: state.session.loggedIn,
+    value: state.session.value,
+    tokens: state.session.tokens,
+  },
+  feed: {
+    firstPageIds: state.feed.firstPageIds,
+  },
+  posts: selectFirstPagePosts(state, state.feed.firstPageIds),
+  notifications: {
+    unreadCount: state.notifications.unreadCount,
+  },
+})
+
+/**
+ * Restore the state saved by the previous run. Call before rendering the app.
+ * @param store Redux store
+ * @returns Promise resolving to true if a saved state was restored
+ */
+export const rehydrateStore = async (store: PersistableStore): Promise<boolean> => {
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEY)
+    if (!stored) return false
+
+    const state = migratePersistedState(JSON.parse(stored))
+    if (!state) {
+      logger.warn("Discarding persisted state that cannot be migrated")
+      await AsyncStorage.removeItem(STORAGE_KEY)
+      return false
+    }
+
+    store.dispatch(postsReceived(state.posts))
+    store.dispatch(
+      rehydrated({
+        session: state.session,
+        feed: state.feed,
+        notifications: state.notifications,
+      }),
+    )
+    return true
+  } catch (error) {
+    logger.error("Error restoring persisted state", error)
+    await AsyncStorage.removeItem(STORAGE_KEY)
+    return false
+  }
+}
+
+/**
+ * Save the persisted parts of the state whenever they change
+ * @param store Redux store
+ * @returns Function stopping persistence
+ */
+export const persistStore = (store: PersistableStore): (() => void) => {
+  let lastSaved: PersistedState | null = null
+  let timer: ReturnType<typeof setTimeout> | null = null
+
+  const save = async () => {
+    timer = null
+    const next = selectPersistedState(store.getState())
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+    } catch (error) {
+      logger.error("Error saving persisted state", error)
+    }
+  }
+
+  const unsubscribe = store.subscribe(() => {
+    const next = selectPersistedState(store.getState())
+    const changed =
+      !lastSaved ||
+      next.session.value !== lastSaved.session.value ||
+      next.session.loggedIn !== lastSaved.session.loggedIn ||
+      next.session.tokens !== lastSaved.session.tokens ||
+      next.posts !== lastSaved.posts ||
+      next.feed.firstPageIds !== lastSaved.feed.firstPageIds ||
+      next.notifications.unreadCount !== lastSaved.notifications.unreadCount
+
+    if (!changed) return
+    lastSaved = next
+
+    if (!timer) {
+      timer = setTimeout(save, SAVE_DELAY)
+    }
+  })
+
+  return () => {
+    unsubscribe()
+    if (timer) clearTimeout(timer)
+  }
+}
@@ -0,0 +1,82 @@
+import { createEntityAdapter, createSlice, type PayloadAction, type Update } from "@reduxjs/toolkit"
+import type { Micropost } from "../../services/micropostApi"
+import { commentAdded, pendingCommentFailed } from "../comments/commentsSlice"
+import { logoutUser } from "../session/sessionSlice"
+import type { RootState } from "../store"
+
+// Posts are stored with a reference to their author (`user_id`); the author lives in the users slice
+export type PostEntity = Omit<Micropost, "user">
+
+interface LikePayload {
+  postId: number
+  userId: string
+}
+
+const postsAdapter = createEntityAdapter<PostEntity>()
+
+export const postsSlice = createSlice({
+  name: "posts",
+  initialState: postsAdapter.getInitialState(),
+  reducers: {
+    // Merge posts returned by any endpoint (feed, profile, details)
+    postsReceived: (state, action: PayloadAction<Micropost[]>) => {
+      postsAdapter.upsertMany(
+        state,
+        action.payload.map(({ user, ...post }) => post),
+      )
+    },
+
+    postUpdated: (state, action: PayloadAction<Update<PostEntity, number>>) => {
+      postsAdapter.updateOne(state, action.payload)
+    },
+
+    postRemoved: (state, action: PayloadAction<number>) => {
+      postsAdapter.removeOne(state, action.payload)
+    },
+
+    // Optimistically record a like from the current user
+    postLiked: (state, action: PayloadAction<LikePayload>) => {
+      const post = state.entities[action.payload.postId]
+      if (post && !post.postLikes?.some((like) => like.userId === action.payload.userId)) {
+        post.postLikes = [...(post.postLikes || []), { userId: action.payload.userId }]
+      }
+    },
+
+    postUnliked: (state, action: PayloadAction<LikePayload>) => {
+      const post = state.entities[action.payload.postId]
+      if (post) {
+        post.postLikes = (post.postLikes || []).filter((like) => like.userId !== action.payload.userId)
+      }
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      // Keep the comment counter shown in the feed in sync with the details screen
+      .addCase(commentAdded, (state, action) => {
+        const post = state.entities[action.payload.postId]
+        if (post) {
+          post.comments = [{ count: (post.comments?.[0]?.count || 0) + 1 }]
+        }
+      })
+      .addCase(pendingCommentFailed, (state, action) => {
+        const post = state.entities[action.payload.postId]
+        if (post) {
+          post.comments = [{ count: Math.max(0, (post.comments?.[0]?.count || 0) - 1) }]
+        }
+      })
+      .addCase(logoutUser.fulfilled, () => postsAdapter.getInitialState())
+      .addCase(logoutUser.rejected, () => postsAdapter.getInitialState())
+  },
+})
+
+// Export actions
+export const { postsReceived, postUpdated, postRemoved, postLiked, postUnliked } = postsSlice.actions
+
+// Selectors
+export const {
+  selectAll: selectAllPosts,
+  selectById: selectPostEntityById,
+  selectEntities: selectPostEntities,
+} = postsAdapter.getSelectors((state: RootState) => state.posts)
+
+export default postsSlice.reducer
@@ -0,0 +1,68 @@
+import { createSelector } from "@reduxjs/toolkit"
+import type { Comment, Micropost } from "../services/micropostApi"
+import type { CommentEntity } from "./comments/commentsSlice"
+import { selectCommentsByPostId } from "./comments/commentsSlice"
+import type { PostEntity } from "./posts/postsSlice"
+import { selectPostEntities, selectPostEntityById } from "./posts/postsSlice"
+import type { UserEntity } from "./users/usersSlice"
+import { selectUserEntities } from "./users/usersSlice"
+import type { RootState } from "./store"
+
+/**
+ * Selectors joining the normalized entity slices back into the shapes screens render.
+ * Each factory returns a memoized selector: create one per component with `useMemo`.
+ */
+
+type CommentView = Comment & Pick<CommentEntity, "postId" | "outboxId">
+
+const toAuthor = (user: UserEntity | undefined) =>
+  user ? { id: user.id, name: user.name, avatar: user.avatar } : undefined
+
+const joinPost = (post: PostEntity, users: Record<string, UserEntity | undefined>): Micropost => ({
+  ...post,
+  user: toAuthor(users[post.user_id]),
+})
+
+/**
+ * Create a selector returning a post with its author
+ * @returns Selector taking the post ID
+ */
+export const makeSelectPostById = () =>
+  createSelector(
+    [
+      (state: RootState, id: number) => selectPostEntityById(state, id),
+      (state: RootState, id: number) => {
+        const post = selectPostEntityById(state, id)
+        return post ? state.users.entities[post.user_id] : undefined
+      },
+    ],
+    (post, user): Micropost | undefined => (post ? { ...post, user: toAuthor(user) } : undefined),
+  )
+
+/**
+ * Create a selector returning posts, with their authors, in the order of the given IDs
+ * @returns Selector taking the list of post IDs
+ */
+export const makeSelectPostsByIds = () =>
+  createSelector(
+    [selectPostEntities, selectUserEntities, (_: RootState, ids: number[]) => ids],
+    (posts, users, ids): Micropost[] =>
+      ids.flatMap((id) => {
+        const post = posts[id]
+        return post ? [joinPost(post, users)] : []
+      }),
+  )
+
+/**
+ * Create a selector returning the comments of a post with their authors
+ * @returns Selector taking the post ID
+ */
+export const makeSelectCommentsByPostId = () =>
+  createSelector(
+    [(state: RootState, postId: number) => selectCommentsByPostId(state, postId), selectUserEntities],
+    (comments, users): CommentView[] =>
+      comments.map(({ userId, ...comment }) => ({
+        ...comment,
+        user: toAuthor(userId ? users[userId] : undefined),
+      })),
+  )
@@ -1,6 +1,10 @@
 import { createAsyncThunk, createSlice, type PayloadAction } from "@reduxjs/toolkit"
-import sessionApi from "../../services/sessionApi"
-import ApiService from "../../services"
+import { getBackend, type AuthSession } from "../../services/backend"
+import outbox from "../../services/outbox"
+import queryCache from "../../services/queryCache"
+import searchHistory from "../../services/searchHistory"
+import { toApiErrorPayload, type ApiErrorPayload } from "../../services/apiErrors"
+import { rehydrated } from "../persist/persistActions"
 import type { RootState } from "../store"
 import AsyncStorage from "@react-native-async-storage/async-storage"
 
@@ -52,71 +56,55 @@ interface LoginCredentials {
 }
 
 // Async thunk for fetching current user
-export const fetchUser = createAsyncThunk("session/getCurrentUser", async (_, { rejectWithValue }) => {
-  try {
-    const response = await ApiService.get("/sessions")
-    return response
-  } catch (error: any) {
-    // Enhanced error handling
-    if (error.response) {
-      return rejectWithValue({
-        status: error.response.status,
-        message: error.response.data?.message || "Failed to fetch user",
-      })
+export const fetchUser = createAsyncThunk<User, void, { rejectValue: ApiErrorPayload }>(
+  "session/getCurrentUser",
+  async (_, { rejectWithValue }) => {
+    try {
+      return await getBackend().auth.currentUser()
+    } catch (error) {
+      return rejectWithValue(toApiErrorPayload(error))
     }
-    return rejectWithValue({
-      status: 0,
-      message: error.message || "Network error",
-    })
-  }
-})
+  },
+)
 
 // Async thunk for user login
-export const loginUser = createAsyncThunk(
+export const loginUser = createAsyncThunk<AuthSession, LoginCredentials, { rejectValue: ApiErrorPayload }>(
   "session/login",
-  async (credentials: LoginCredentials, { rejectWithValue }) => {
+  async (credentials, { rejectWithValue }) => {
     try {
-      const response = await sessionApi.create({
-        session: {
-          email: credentials.email,
-          password: credentials.password,
-          remember_me:
-            typeof credentials.remember_me === "boolean"
-              ? credentials.remember_me
-                ? "true"
-                : "false"
-              : credentials.remember_me,
-        },
-      })
-
-      // Check for error response
-      if (response.status && response.status !== 200) {
-        return rejectWithValue({
-          status: response.status,
-          message: response.message || "Login failed",
-          errors: response.errors,
-        })
-      }
-
-      return response
-    } catch (error: any) {
-      return rejectWithValue({
-        status: 0,
-        message: error.message || "An unexpected error occurred",
+      return await getBackend().auth.login({
+        email: credentials.email,
+        password: credentials.password,
+        rememberMe: credentials.remember_me === true || credentials.remember_me === "true",
       })
+    } catch (error) {
+      return rejectWithValue(toApiErrorPayload(error))
     }
   },
 )
 
+export interface LogoutOptions {
+  // The session could not be refreshed: the user did not choose to sign out
+  expired?: boolean
+}
+
 // Async thunk for user logout
-export const logoutUser = createAsyncThunk("session/logout", async (_, { rejectWithValue }) => {
+export const logoutUser = createAsyncThunk<
+  { success: boolean },
+  LogoutOptions | void,
+  { rejectValue: ApiErrorPayload }
+>("session/logout", async (options, { rejectWithValue }) => {
   try {
-    await sessionApi.destroy()
+    await getBackend().auth.logout()
     return { success: true }
-  } catch (error: any) {
-    return rejectWithValue({
-      message: error.message || "Logout failed",
-    })
+  } catch (error) {
+    return rejectWithValue(toApiErrorPayload(error))
+  } finally {
+    // Cached responses and recent searches belong to the user who made them. So do mutations queued offline,
+    // which are kept for when the user signs in again after their session expired.
+    if (!options?.expired) await outbox.clear()
+    queryCache.clear()
+    await searchHistory.clear()
   }
 })
 
@@ -157,37 +145,52 @@ export const sessionSlice = createSlice({
       .addCase(fetchUser.pending, (state) => {
         state.status = "loading"
       })
-      .addCase(fetchUser.fulfilled, (state, action: PayloadAction<any>) => {
+      .addCase(fetchUser.fulfilled, (state, action) => {
         state.status = "idle"
         state.loggedIn = true
-        state.value = action.payload.user
+        state.value = action.payload
         state.error = null
       })
       .addCase(fetchUser.rejected, (state, action: PayloadAction<any>) => {
         state.status = "failed"
+        state.error = action.payload?.message || "Failed to fetch user"
+        // Offline revalidation of a rehydrated session: keep the cached user
+        const kind = action.payload?.kind
+        if ((kind === "network" || kind === "timeout") && state.value) {
+          return
+        }
         state.loggedIn = false
         state.value = null
-        state.error = action.payload?.message || "Failed to fetch user"
       })
 
+    // Restore the session saved by the previous run; fetchUser revalidates it in the background
+    builder.addCase(rehydrated, (state, action) => {
+      const { loggedIn, value, tokens } = action.payload.session
+      if (loggedIn && value) {
+        state.loggedIn = true
+        state.value = value
+        state.tokens = tokens
+      }
+    })
+
     // Handle loginUser actions
     builder
       .addCase(loginUser.pending, (state) => {
         state.status = "loading"
         state.error = null
       })
-      .addCase(loginUser.fulfilled, (state, action: PayloadAction<any>) => {
+      .addCase(loginUser.fulfilled, (state, action) => {
         state.status = "idle"
         state.loggedIn = true
         state.value = action.payload.user
         state.error = null
 
         // Store tokens
-        if (action.payload.tokens?.access?.token) {
-          state.tokens.accessToken = action.payload.tokens.access.token
+        if (action.payload.tokens?.accessToken) {
+          state.tokens.accessToken = action.payload.tokens.accessToken
         }
-        if (action.payload.tokens?.refresh?.token) {
-          state.tokens.refreshToken = action.payload.tokens.refresh.token
+        if (action.payload.tokens?.refreshToken) {
+          state.tokens.refreshToken = action.payload.tokens.refreshToken
         }
       })
       .addCase(loginUser.rejected, (state, action: PayloadAction<any>) => {
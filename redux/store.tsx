@@ -1,6 +1,12 @@
 import { configureStore, type ThunkAction, type Action } from "@reduxjs/toolkit"
-import sessionReducer from "./session/sessionSlice"
+import sessionReducer, { logoutUser, setTokens } from "./session/sessionSlice"
+import postsReducer from "./posts/postsSlice"
+import usersReducer from "./users/usersSlice"
+import commentsReducer from "./comments/commentsSlice"
+import feedReducer from "./feed/feedSlice"
+import notificationsReducer from "./notifications/notificationsSlice"
 import { createReduxLogger } from "../services/debug-utils"
+import { setTokenRefreshHandlers } from "../services/tokenRefresh"
 import { Platform } from "react-native"
 
 // Determine if we're in development mode
@@ -9,11 +15,15 @@ const isDev = process.env.NODE_ENV === "development"
 // Check if running on web (for different debugging approaches)
 const isWeb = Platform.OS === "web"
 
-// Configure the Redux store with only session management
+// Configure the Redux store: session plus normalized entity caches shared by every screen
 export const store = configureStore({
   reducer: {
     session: sessionReducer,
-    // No other reducers - only managing session state
+    posts: postsReducer,
+    users: usersReducer,
+    comments: commentsReducer,
+    feed: feedReducer,
+    notifications: notificationsReducer,
   },
   middleware: (getDefaultMiddleware) => {
     const middleware = getDefaultMiddleware({
@@ -34,6 +44,12 @@ export const store = configureStore({
   devTools: isDev,
 })
 
+// Keep the session in sync with refreshes triggered by the API client
+setTokenRefreshHandlers({
+  onRefreshed: (tokens) => store.dispatch(setTokens(tokens)),
+  onRefreshFailed: () => store.dispatch(logoutUser({ expired: true })),
+})
+
 // Export types for TypeScript
 export type AppDispatch = typeof store.dispatch
 export type RootState = ReturnType<typeof store.getState>
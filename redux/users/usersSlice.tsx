@@ -0,0 +1,78 @@
+import { createEntityAdapter, createSlice, type PayloadAction } from "@reduxjs/toolkit"
+import { commentAdded, commentsReceived } from "../comments/commentsSlice"
+import { postsReceived } from "../posts/postsSlice"
+import { logoutUser } from "../session/sessionSlice"
+import type { RootState } from "../store"
+
+// Public profile of any user shown next to posts and comments
+export interface UserEntity {
+  readonly id: string
+  name: string
+  avatar?: string
+  gravatar_id?: string
+  followers?: number
+  following?: number
+  current_user_following_user?: boolean
+}
+
+const usersAdapter = createEntityAdapter<UserEntity>()
+
+type UsersState = ReturnType<typeof usersAdapter.getInitialState>
+
+// Authors embedded in posts and comments only carry a few fields: merge them into what we know
+const mergeAuthors = (state: UsersState, authors: Array<UserEntity | undefined>) => {
+  authors.forEach((author) => {
+    if (author?.id) {
+      // Missing fields must not erase what another endpoint already told us
+      const known = Object.fromEntries(Object.entries(author).filter(([, value]) => value !== undefined))
+      usersAdapter.upsertOne(state, known as UserEntity)
+    }
+  })
+}
+
+export const usersSlice = createSlice({
+  name: "users",
+  initialState: usersAdapter.getInitialState(),
+  reducers: {
+    usersReceived: (state, action: PayloadAction<UserEntity[]>) => {
+      usersAdapter.upsertMany(state, action.payload)
+    },
+
+    // Update a single user (e.g. after editing the current user's profile)
+    userUpdated: (state, action: PayloadAction<UserEntity>) => {
+      usersAdapter.upsertOne(state, action.payload)
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(postsReceived, (state, action) => {
+        mergeAuthors(
+          state,
+          action.payload.map((post) => post.user),
+        )
+      })
+      .addCase(commentsReceived, (state, action) => {
+        mergeAuthors(
+          state,
+          action.payload.comments.map((comment) => comment.user),
+        )
+      })
+      .addCase(commentAdded, (state, action) => {
+        mergeAuthors(state, [action.payload.comment.user])
+      })
+      .addCase(logoutUser.fulfilled, () => usersAdapter.getInitialState())
+      .addCase(logoutUser.rejected, () => usersAdapter.getInitialState())
+  },
+})
+
+// Export actions
+export const { usersReceived, userUpdated } = usersSlice.actions
+
+// Selectors
+export const {
+  selectAll: selectAllUsers,
+  selectById: selectUserById,
+  selectEntities: selectUserEntities,
+} = usersAdapter.getSelectors((state: RootState) => state.users)
+
+export default usersSlice.reducer
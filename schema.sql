@@ -281,4 +281,24 @@ CREATE POLICY "allow all 1va6avm_2" ON storage.objects FOR UPDATE TO authenticat
 
 CREATE POLICY "allow all 1va6avm_3" ON storage.objects FOR DELETE TO authenticated USING (bucket_id = 'uploads');
 
+-- follows between users, used by the Supabase backend
+CREATE TABLE IF NOT EXISTS "public"."follows" (
+    "id" bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "followerId" "uuid" REFERENCES "public"."users"("id") ON DELETE CASCADE,
+    "followedId" "uuid" REFERENCES "public"."users"("id") ON DELETE CASCADE,
+    UNIQUE ("followerId", "followedId")
+);
+
+ALTER TABLE "public"."follows" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for all users for follows" ON "public"."follows" FOR SELECT TO "authenticated" USING (true);
+
+CREATE POLICY "Enable users to follow as themselves" ON "public"."follows" FOR INSERT TO "authenticated" WITH CHECK ("auth"."uid"() = "followerId");
+
+CREATE POLICY "Enable users to unfollow as themselves" ON "public"."follows" FOR DELETE TO "authenticated" USING ("auth"."uid"() = "followerId");
+
+GRANT ALL ON TABLE "public"."follows" TO "authenticated";
+GRANT ALL ON TABLE "public"."follows" TO "service_role";
+
 RESET ALL;
@@ -0,0 +1,505 @@
+import AsyncStorage from "@react-native-async-storage/async-storage"
+import { AuthApiError } from "@supabase/supabase-js"
+import type { Backend } from "../backend"
+import restBackend from "../restBackend"
+import supabaseBackend from "../supabaseBackend"
+import mockServer from "../mockServer"
+import queryCache from "../queryCache"
+import { createSeedDb, MOCK_PASSWORD } from "../mockData"
+import { setProfile } from "../config"
+
+/**
+ * The behaviour every Backend implementation must share, run against the REST backend served by the mock server
+ * and the Supabase backend over an in-memory fake of the Supabase client. Both start from the mock seed records.
+ */
+
+type Row = Record<string, any>
+type Table = "users" | "posts" | "postLikes" | "comments" | "follows" | "notifications"
+
+interface FakeSession {
+  access_token: string
+  refresh_token: string
+  user: { id: string }
+}
+
+// The tables of schema.sql, filled with the mock server's seed records
+const seedTables = (): Record<Table, Row[]> => {
+  const db = createSeedDb()
+  return {
+    users: db.users.map(({ id, name, email, bio }) => ({
+      id,
+      name,
+      email,
+      bio: bio ?? null,
+      image: null,
+      address: null,
+      phoneNumber: null,
+    })),
+    posts: db.posts.map((post) => ({
+      id: post.id,
+      created_at: post.createdAt,
+      body: post.content,
+      file: null,
+      userId: post.userId,
+    })),
+    postLikes: db.likes.map((like, index) => ({ id: index + 1, ...like })),
+    comments: db.comments.map((comment) => ({
+      id: comment.id,
+      created_at: comment.createdAt,
+      text: comment.content,
+      postId: comment.postId,
+      userId: comment.userId,
+    })),
+    follows: db.follows.map((follow, index) => ({ id: index + 1, ...follow })),
+    notifications: db.notifications.map((notification) => ({
+      id: notification.id,
+      created_at: notification.createdAt,
+      title: notification.title,
+      senderId: notification.senderId,
+      receiverId: notification.receiverId,
+      data: JSON.stringify({ postId: notification.postId }),
+    })),
+  }
+}
+
+// The subset of the Supabase client used by supabaseBackend.ts
+const createFakeSupabase = () => {
+  const tables = seedTables()
+  const passwords: Record<string, string> = Object.fromEntries(tables.users.map((user) => [user.id, MOCK_PASSWORD]))
+  let session: FakeSession | null = null
+  let nextId = 1000
+
+  const userOf = (id: string) => tables.users.find((user) => user.id === id) ?? null
+
+  // The embedded resources the backend selects along with each table
+  const withRelations = (table: Table, row: Row): Row => {
+    switch (table) {
+      case "posts":
+        return {
+          ...row,
+          user: userOf(row.userId),
+          postLikes: tables.postLikes.filter((like) => like.postId === row.id).map(({ userId }) => ({ userId })),
+          comments: [{ count: tables.comments.filter((comment) => comment.postId === row.id).length }],
+        }
+      case "comments":
+        return { ...row, user: userOf(row.userId) }
+      case "notifications":
+        return { ...row, sender: userOf(row.senderId) }
+      default:
+        return row
+    }
+  }
+
+  class FakeQuery {
+    private action: "select" | "insert" | "update" | "delete" = "select"
+    private filters: Array<(row: Row) => boolean> = []
+    private values: Row[] = []
+    private changes: Row = {}
+    private returning = false
+    private head = false
+    private single_ = false
+    private sort?: { column: string; ascending: boolean }
+    private window?: [from: number, to: number]
+
+    constructor(private table: Table) {}
+
+    select(_columns?: string, options: { count?: string; head?: boolean } = {}) {
+      if (this.action !== "select") this.returning = true
+      this.head = Boolean(options.head)
+      return this
+    }
+
+    insert(values: Row | Row[]) {
+      this.action = "insert"
+      this.values = [values].flat()
+      return this
+    }
+
+    update(changes: Row) {
+      this.action = "update"
+      this.changes = changes
+      return this
+    }
+
+    delete() {
+      this.action = "delete"
+      return this
+    }
+
+    eq(column: string, value: unknown) {
+      this.filters.push((row) => row[column] === value)
+      return this
+    }
+
+    lt(column: string, value: any) {
+      this.filters.push((row) => row[column] < value)
+      return this
+    }
+
+    gt(column: string, value: any) {
+      this.filters.push((row) => row[column] > value)
+      return this
+    }
+
+    order(column: string, { ascending = true }: { ascending?: boolean } = {}) {
+      this.sort = { column, ascending }
+      return this
+    }
+
+    range(from: number, to: number) {
+      this.window = [from, to]
+      return this
+    }
+
+    single() {
+      this.single_ = true
+      return this
+    }
+
+    then<T>(onFulfilled: (result: Row) => T, onRejected?: (error: unknown) => T) {
+      return Promise.resolve()
+        .then(() => this.run())
+        .then(onFulfilled, onRejected)
+    }
+
+    private matches(row: Row) {
+      return this.filters.every((filter) => filter(row))
+    }
+
+    private run() {
+      let rows: Row[]
+      switch (this.action) {
+        case "insert": {
+          const duplicate =
+            this.table === "follows" &&
+            this.values.some((value) =>
+              tables.follows.some(
+                (follow) => follow.followerId === value.followerId && follow.followedId === value.followedId,
+              ),
+            )
+          if (duplicate) {
+            return { data: null, error: { code: "23505", message: "duplicate key value" }, status: 409 }
+          }
+          rows = this.values.map((value) => ({ id: nextId++, created_at: new Date().toISOString(), ...value }))
+          tables[this.table].push(...rows)
+          break
+        }
+        case "update":
+          rows = tables[this.table].filter((row) => this.matches(row))
+          rows.forEach((row) => Object.assign(row, this.changes))
+          break
+        case "delete":
+          rows = tables[this.table].filter((row) => this.matches(row))
+          tables[this.table] = tables[this.table].filter((row) => !rows.includes(row))
+          break
+        default: {
+          rows = tables[this.table].filter((row) => this.matches(row))
+          const count = rows.length
+          if (this.sort) {
+            const { column, ascending } = this.sort
+            rows = [...rows].sort((a, b) => (a[column] < b[column] ? -1 : a[column] > b[column] ? 1 : 0))
+            if (!ascending) rows.reverse()
+          }
+          if (this.window) rows = rows.slice(this.window[0], this.window[1] + 1)
+          if (this.head) return { data: null, error: null, count, status: 200 }
+          return this.result(rows, count)
+        }
+      }
+      if (!this.returning) return { data: null, error: null, status: 204 }
+      return this.result(rows, rows.length)
+    }
+
+    private result(rows: Row[], count: number) {
+      const data = rows.map((row) => withRelations(this.table, row))
+      if (!this.single_) return { data, error: null, count, status: 200 }
+      if (data.length !== 1) {
+        return {
+          data: null,
+          error: { code: "PGRST116", message: "JSON object requested, no rows returned" },
+          status: 406,
+        }
+      }
+      return { data: data[0], error: null, status: 200 }
+    }
+  }
+
+  return {
+    from: (table: Table) => new FakeQuery(table),
+
+    auth: {
+      async getSession() {
+        return { data: { session }, error: null }
+      },
+      async signInWithPassword({ email, password }: { email: string; password: string }) {
+        const user = tables.users.find((item) => item.email === email)
+        if (!user || passwords[user.id] !== password) {
+          return {
+            data: { user: null, session: null },
+            error: new AuthApiError("Invalid login credentials", 400, "invalid_credentials"),
+          }
+        }
+        session = {
+          access_token: `fake-access-${user.id}`,
+          refresh_token: `fake-refresh-${user.id}`,
+          user: { id: user.id },
+        }
+        return { data: { user: session.user, session }, error: null }
+      },
+      async signOut() {
+        session = null
+        return { error: null }
+      },
+      // The handle_new_user trigger of schema.sql creates the users row
+      async signUp({ email, password, options }: { email: string; password: string; options: { data: Row } }) {
+        const id = `fake-user-${nextId++}`
+        tables.users.push({
+          id,
+          name: options.data.name,
+          email,
+          bio: null,
+          image: null,
+          address: null,
+          phoneNumber: null,
+        })
+        passwords[id] = password
+        return { data: { user: { id } }, error: null }
+      },
+    },
+
+    storage: {
+      from: (bucket: string) => ({
+        getPublicUrl: (path: string) => ({ data: { publicUrl: `https://fake.supabase.co/${bucket}/${path}` } }),
+        upload: async (path: string) => ({ data: { path }, error: null }),
+      }),
+    },
+  }
+}
+
+let mockSupabase = createFakeSupabase()
+
+jest.mock("../../lib/supabase", () => ({
+  get supabase() {
+    return mockSupabase
+  },
+}))
+
+interface Harness {
+  backend: Backend
+  // Fresh seed records, nobody signed in
+  reset(): Promise<void>
+}
+
+const harnesses: Array<[name: string, harness: Harness]> = [
+  [
+    "rest",
+    {
+      backend: restBackend,
+      async reset() {
+        mockServer.reset()
+        queryCache.clear()
+        await AsyncStorage.clear()
+      },
+    },
+  ],
+  [
+    "supabase",
+    {
+      backend: supabaseBackend,
+      async reset() {
+        mockSupabase = createFakeSupabase()
+        await AsyncStorage.clear()
+      },
+    },
+  ],
+]
+
+// Seed users: 1 is the demo user, who follows everybody; 2 is Alice
+const DEMO = { id: "1", email: "demo@example.com" }
+const ALICE = { id: "2", email: "alice@example.com" }
+
+beforeAll(async () => {
+  // The REST backend talks to the mock server through the API instance of the "mock" profile
+  await setProfile("mock")
+  mockServer.configure({ latency: 0, errorRate: 0 })
+})
+
+afterAll(() => {
+  // Stops the garbage collection timers of the cached responses
+  queryCache.clear()
+})
+
+describe.each(harnesses)("%s backend", (_name, { backend, reset }) => {
+  // Sign in like the session slice does, keeping the token for the next requests
+  const signIn = async (email: string) => {
+    const session = await backend.auth.login({ email, password: MOCK_PASSWORD, rememberMe: false })
+    if (session.tokens) await AsyncStorage.setItem("token", session.tokens.accessToken)
+    return session
+  }
+
+  beforeEach(async () => {
+    await reset()
+  })
+
+  describe("auth", () => {
+    it("signs in and returns the current user", async () => {
+      const session = await signIn(DEMO.email)
+
+      expect(session.user).toMatchObject({ id: DEMO.id, email: DEMO.email })
+      expect(await backend.auth.currentUser()).toMatchObject({ id: DEMO.id, email: DEMO.email })
+    })
+
+    it("rejects a wrong password with an AuthError", async () => {
+      await expect(
+        backend.auth.login({ email: DEMO.email, password: "wrong password", rememberMe: false }),
+      ).rejects.toMatchObject({ kind: "auth" })
+    })
+
+    it("rejects the current user once signed out with an AuthError", async () => {
+      await signIn(DEMO.email)
+      await backend.auth.logout()
+      await AsyncStorage.removeItem("token")
+
+      await expect(backend.auth.currentUser()).rejects.toMatchObject({ kind: "auth" })
+    })
+
+    it("rejects a sign up with a mismatched confirmation with a ValidationError", async () => {
+      await expect(
+        backend.auth.signUp({
+          name: "New User",
+          email: "new@example.com",
+          password: "secret123",
+          password_confirmation: "secret456",
+        }),
+      ).rejects.toMatchObject({ kind: "validation" })
+    })
+  })
+
+  describe("users", () => {
+    beforeEach(async () => {
+      await signIn(DEMO.email)
+    })
+
+    it("returns a user's profile and whether they are followed", async () => {
+      expect(await backend.users.get(ALICE.id)).toMatchObject({ id: ALICE.id, name: "Alice Martin", followed: true })
+
+      await backend.follows.unfollow(ALICE.id)
+      expect(await backend.users.get(ALICE.id)).toMatchObject({ id: ALICE.id, followed: false })
+    })
+
+    it("rejects an unknown user with a NotFoundError", async () => {
+      await expect(backend.users.get("999999")).rejects.toMatchObject({ kind: "notFound" })
+    })
+  })
+
+  describe("feed and posts", () => {
+    beforeEach(async () => {
+      await signIn(DEMO.email)
+    })
+
+    it("puts a new post first in the feed", async () => {
+      const post = await backend.posts.create({ content: "Hello from the contract", attachments: [] })
+      const { feed_items } = await backend.feed.list({ page: 1 })
+
+      expect(post).toMatchObject({ content: "Hello from the contract", user_id: DEMO.id })
+      expect(feed_items[0]).toMatchObject({ id: post.id, content: "Hello from the contract" })
+    })
+
+    it("lists only the posts of a user", async () => {
+      const { feed_items } = await backend.feed.list({ userId: ALICE.id })
+
+      expect(feed_items.length).toBeGreaterThan(0)
+      feed_items.forEach((post) => expect(post.user_id).toBe(ALICE.id))
+    })
+
+    it("pages the feed with cursors, newest first", async () => {
+      const first = await backend.feed.list({ limit: 3 })
+      const oldest = first.feed_items[first.feed_items.length - 1].id
+      const next = await backend.feed.list({ before: oldest, limit: 3 })
+      const ids = next.feed_items.map((post) => post.id)
+
+      expect(first.feed_items).toHaveLength(3)
+      expect(ids).toHaveLength(3)
+      expect(ids.every((id) => id < oldest)).toBe(true)
+      expect(ids).toEqual([...ids].sort((a, b) => b - a))
+    })
+
+    it("updates and removes a post", async () => {
+      const post = await backend.posts.create({ content: "First draft", attachments: [] })
+
+      await backend.posts.update(post.id, { content: "Second draft" })
+      expect(await backend.posts.get(post.id)).toMatchObject({ content: "Second draft" })
+
+      await backend.posts.remove(post.id)
+      await expect(backend.posts.get(post.id)).rejects.toMatchObject({ kind: "notFound" })
+    })
+
+    it("rejects a missing post with a NotFoundError", async () => {
+      await expect(backend.posts.get(999999)).rejects.toMatchObject({ kind: "notFound" })
+    })
+  })
+
+  describe("likes, comments and follows", () => {
+    beforeEach(async () => {
+      await signIn(DEMO.email)
+    })
+
+    it("likes and unlikes a post", async () => {
+      const post = await backend.posts.create({ content: "Like me", attachments: [] })
+
+      await backend.likes.like(post.id)
+      expect((await backend.posts.get(post.id)).postLikes).toEqual([{ userId: DEMO.id }])
+
+      await backend.likes.unlike(post.id)
+      expect((await backend.posts.get(post.id)).postLikes).toEqual([])
+    })
+
+    it("lists comments newest first", async () => {
+      const post = await backend.posts.create({ content: "Comment on me", attachments: [] })
+
+      await backend.comments.add(post.id, "First!")
+      // Comments are ordered by their time, in ms
+      await new Promise((resolve) => setTimeout(resolve, 5))
+      const comment = await backend.comments.add(post.id, "Second!")
+      const comments = await backend.comments.list(post.id)
+
+      expect(comment).toMatchObject({ content: "Second!", user: { id: DEMO.id } })
+      expect(comments.map((item) => item.content)).toEqual(["Second!", "First!"])
+    })
+
+    it("follows and unfollows, following twice being harmless", async () => {
+      const followers = async () => (await backend.feed.list({ userId: ALICE.id })).followers
+      const before = await followers()
+
+      await backend.follows.unfollow(ALICE.id)
+      expect(await followers()).toBe(before - 1)
+
+      await backend.follows.follow(ALICE.id)
+      await backend.follows.follow(ALICE.id)
+      expect(await followers()).toBe(before)
+    })
+  })
+
+  describe("notifications", () => {
+    it("notifies mentioned users", async () => {
+      await signIn(DEMO.email)
+      const post = await backend.posts.create({ content: "Hi @Alice", attachments: [], mentionIds: [ALICE.id] })
+
+      await signIn(ALICE.email)
+      const [notification] = await backend.notifications.list({ page: 1 })
+
+      expect(notification).toMatchObject({ title: "mentioned you in a post", data: { postId: post.id } })
+      expect(notification.sender).toMatchObject({ id: DEMO.id })
+    })
+
+    it("marks every notification as read", async () => {
+      await signIn(DEMO.email)
+
+      await backend.notifications.markAllAsRead()
+
+      expect(await backend.notifications.unreadCount()).toBe(0)
+      const notifications = await backend.notifications.list({ page: 1 })
+      expect(notifications.length).toBeGreaterThan(0)
+      notifications.forEach((notification) => expect(notification.read).toBe(true))
+    })
+  })
+})
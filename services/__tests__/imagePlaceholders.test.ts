@@ -0,0 +1,84 @@
+import { Platform } from "react-native"
+import * as FileSystem from "expo-file-system"
+import * as ImageManipulator from "expo-image-manipulator"
+import { Image as ExpoImage } from "expo-image"
+import { decode as decodeBlurhash, isBlurhashValid } from "blurhash"
+import { encode as encodeJpeg } from "jpeg-js"
+import mediaService from "../mediaService"
+
+jest.mock("expo-file-system", () => ({
+  EncodingType: { Base64: "base64" },
+  cacheDirectory: "file:///cache/",
+  getInfoAsync: jest.fn(),
+}))
+
+jest.mock("expo-image-manipulator", () => ({
+  SaveFormat: { JPEG: "jpeg", PNG: "png" },
+  manipulateAsync: jest.fn(),
+}))
+
+const manipulateAsync = ImageManipulator.manipulateAsync as jest.Mock
+
+// A JPEG of one color, as the image manipulator would return it
+const solidJpeg = (width: number, height: number, [red, green, blue]: number[]) => {
+  const data = Buffer.alloc(width * height * 4)
+  for (let offset = 0; offset < data.length; offset += 4) data.set([red, green, blue, 255], offset)
+  return encodeJpeg({ data, width, height }, 90).data.toString("base64")
+}
+
+const RED = [220, 30, 30]
+const IMAGE = { uri: "file:///photos/red.jpg", width: 1200, height: 800, mimeType: "image/jpeg" }
+
+beforeEach(() => {
+  // Small enough to be sent as it is
+  ;(FileSystem.getInfoAsync as jest.Mock).mockResolvedValue({ exists: true, size: 1000 })
+  // Resizes keep the aspect ratio of the image
+  manipulateAsync.mockImplementation(async (uri, [{ resize }]) => {
+    const height = Math.round((resize.width * IMAGE.height) / IMAGE.width)
+    return { uri: `${uri}.resized.jpg`, width: resize.width, height, base64: solidJpeg(resize.width, height, RED) }
+  })
+})
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+describe("image placeholders", () => {
+  it("encodes the blurhash from a tiny JPEG on Android", async () => {
+    jest.replaceProperty(Platform, "OS", "android")
+    const generateBlurhash = jest.spyOn(ExpoImage, "generateBlurhashAsync")
+
+    const prepared = await mediaService.prepareImage(IMAGE, { keepMetadata: true })
+
+    expect(generateBlurhash).not.toHaveBeenCalled()
+    const [, [{ resize }]] = manipulateAsync.mock.calls[1]
+    expect(resize).toEqual({ width: 32, height: 21 })
+    expect(prepared.thumbnail).toMatch(/^data:image\/jpeg;base64,/)
+    expect(isBlurhashValid(prepared.blurhash ?? "")).toEqual({ result: true })
+
+    // Landscape images get 4 by 3 components, and the color survives
+    expect(prepared.blurhash?.[0]).toBe("L")
+    const [red, green, blue] = decodeBlurhash(prepared.blurhash ?? "", 1, 1)
+    expect(red).toBeGreaterThan(180)
+    expect(green).toBeLessThan(80)
+    expect(blue).toBeLessThan(80)
+  })
+
+  it("keeps the thumbnail when the blurhash cannot be made", async () => {
+    jest.replaceProperty(Platform, "OS", "android")
+    const resized = manipulateAsync.getMockImplementation()
+    manipulateAsync.mockImplementationOnce(resized!).mockImplementationOnce(async (uri) => ({
+      uri: `${uri}.tiny.jpg`,
+      width: 32,
+      height: 21,
+      base64: "AAAA",
+    }))
+    // The undecodable JPEG is logged
+    jest.spyOn(console, "warn").mockImplementation(() => undefined)
+
+    const prepared = await mediaService.prepareImage(IMAGE, { keepMetadata: true })
+
+    expect(prepared.thumbnail).toMatch(/^data:image\/jpeg;base64,/)
+    expect(prepared.blurhash).toBeUndefined()
+  })
+})
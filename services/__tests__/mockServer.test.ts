@@ -0,0 +1,193 @@
+import axios, { AxiosError, type AxiosInstance } from "axios"
+import { createMockServer, type MockServer } from "../mockServer"
+import { MOCK_PASSWORD } from "../mockData"
+import { toApiError } from "../apiErrors"
+
+const createInstance = (server: MockServer): AxiosInstance =>
+  axios.create({ baseURL: "http://mock.localhost/api", adapter: server.adapter, timeout: 15000 })
+
+// Signs the demo user in, sending its token with the next requests
+const signIn = async (instance: AxiosInstance) => {
+  const { data } = await instance.post("/login", { session: { email: "demo@example.com", password: MOCK_PASSWORD } })
+  instance.defaults.headers.common.Authorization = `Bearer ${data.tokens.access.token}`
+}
+
+// The rejection of a request, to assert on it
+const failureOf = async (request: Promise<unknown>): Promise<AxiosError> => {
+  try {
+    await request
+  } catch (error) {
+    return error as AxiosError
+  }
+  throw new Error("The request did not fail")
+}
+
+describe("mock server", () => {
+  describe("latency", () => {
+    beforeEach(() => {
+      jest.useFakeTimers()
+    })
+
+    afterEach(() => {
+      jest.useRealTimers()
+      jest.restoreAllMocks()
+    })
+
+    it("answers after the configured delay", async () => {
+      const instance = createInstance(createMockServer({ latency: 300 }))
+      const settled = jest.fn()
+
+      instance.post("/login", { session: { email: "demo@example.com", password: MOCK_PASSWORD } }).then(settled)
+      await jest.advanceTimersByTimeAsync(299)
+      expect(settled).not.toHaveBeenCalled()
+
+      await jest.advanceTimersByTimeAsync(1)
+      expect(settled).toHaveBeenCalledWith(expect.objectContaining({ status: 200 }))
+    })
+
+    it("picks the delay in the configured range", async () => {
+      jest.spyOn(Math, "random").mockReturnValue(0.5)
+      const server = createMockServer()
+      server.configure({ latency: [100, 200] })
+      const settled = jest.fn()
+
+      createInstance(server)
+        .post("/login", { session: { email: "demo@example.com", password: MOCK_PASSWORD } })
+        .then(settled)
+      await jest.advanceTimersByTimeAsync(149)
+      expect(settled).not.toHaveBeenCalled()
+
+      await jest.advanceTimersByTimeAsync(1)
+      expect(settled).toHaveBeenCalled()
+    })
+
+    it("cancels a request aborted while waiting", async () => {
+      const instance = createInstance(createMockServer({ latency: 1000 }))
+      const controller = new AbortController()
+
+      const request = failureOf(instance.get("/microposts/1", { signal: controller.signal }))
+      await jest.advanceTimersByTimeAsync(100)
+      controller.abort()
+
+      expect(axios.isCancel(await request)).toBe(true)
+    })
+  })
+
+  describe("failNext", () => {
+    let server: MockServer
+    let instance: AxiosInstance
+
+    beforeEach(async () => {
+      server = createMockServer()
+      instance = createInstance(server)
+      await signIn(instance)
+      // Injected failures are logged
+      jest.spyOn(console, "warn").mockImplementation(() => undefined)
+    })
+
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    it("fails the next request of a route with a network error, then answers again", async () => {
+      server.failNext("microposts.show", "network")
+
+      const error = await failureOf(instance.get("/microposts/1"))
+      expect(error).toBeInstanceOf(AxiosError)
+      expect(error.code).toBe(AxiosError.ERR_NETWORK)
+      expect(error.response).toBeUndefined()
+      expect(toApiError(error).kind).toBe("network")
+
+      await expect(instance.get("/microposts/1")).resolves.toMatchObject({ status: 200, data: { id: 1 } })
+    })
+
+    it("only fails the given route", async () => {
+      server.failNext("microposts.like", "network")
+
+      await expect(instance.get("/microposts/1")).resolves.toMatchObject({ status: 200 })
+      await expect(instance.post("/microposts/1/like")).rejects.toMatchObject({ code: AxiosError.ERR_NETWORK })
+    })
+
+    it("fails with a timeout", async () => {
+      server.failNext("*", "timeout")
+
+      const error = await failureOf(instance.get("/microposts/1"))
+      expect(error.code).toBe(AxiosError.ECONNABORTED)
+      expect(toApiError(error).kind).toBe("timeout")
+    })
+
+    it("fails any route the given number of times with an error response", async () => {
+      server.failNext("*", { status: 503 }, 2)
+
+      for (const path of ["/microposts/1", "/notifications"]) {
+        const error = await failureOf(instance.get(path))
+        expect(error.code).toBe(AxiosError.ERR_BAD_RESPONSE)
+        expect(error.response).toMatchObject({ status: 503, data: { message: "Injected failure" } })
+        expect(toApiError(error)).toMatchObject({ kind: "server", status: 503 })
+      }
+      await expect(instance.get("/microposts/1")).resolves.toMatchObject({ status: 200 })
+    })
+
+    it("answers with the given error data", async () => {
+      server.failNext("microposts.addComment", { status: 422, data: { errors: { content: ["is too long"] } } })
+
+      const error = await failureOf(instance.post("/microposts/1/comments", { content: "Hi" }))
+      expect(error.code).toBe(AxiosError.ERR_BAD_REQUEST)
+      expect(toApiError(error)).toMatchObject({ kind: "validation", errors: { content: ["is too long"] } })
+    })
+
+    it("drops pending failures on reset", async () => {
+      server.failNext("*", "network", 5)
+      server.reset()
+      await signIn(instance)
+
+      await expect(instance.get("/microposts/1")).resolves.toMatchObject({ status: 200 })
+    })
+  })
+
+  describe("error responses", () => {
+    let server: MockServer
+    let instance: AxiosInstance
+
+    beforeEach(() => {
+      server = createMockServer()
+      instance = createInstance(server)
+    })
+
+    it("rejects protected routes without a token with a 401", async () => {
+      const error = await failureOf(instance.get("/microposts/1"))
+
+      expect(error).toBeInstanceOf(AxiosError)
+      expect(error.response).toMatchObject({ status: 401, data: { message: "Please log in." } })
+      expect(toApiError(error).kind).toBe("auth")
+    })
+
+    it("rejects missing records and unknown routes with a 404", async () => {
+      await signIn(instance)
+
+      await expect(instance.get("/microposts/999999")).rejects.toMatchObject({ response: { status: 404 } })
+      await expect(instance.get("/nowhere")).rejects.toMatchObject({ response: { status: 404 } })
+    })
+
+    it("fails every request with a 500 at an error rate of 1", async () => {
+      server.configure({ errorRate: 1 })
+
+      const error = await failureOf(instance.get("/microposts/1"))
+      expect(error.code).toBe(AxiosError.ERR_BAD_RESPONSE)
+      expect(error.response?.status).toBe(500)
+    })
+
+    it("keeps its records apart from other servers until reset", async () => {
+      const other = createInstance(createMockServer())
+      await signIn(instance)
+      await signIn(other)
+
+      const { data: post } = await instance.post("/microposts", { content: "Only here" })
+      expect(server.db.posts.some((item) => item.id === post.id)).toBe(true)
+      await expect(other.get(`/microposts/${post.id}`)).rejects.toMatchObject({ response: { status: 404 } })
+
+      server.reset()
+      expect(server.db.posts.some((item) => item.id === post.id)).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,61 @@
+import AsyncStorage from "@react-native-async-storage/async-storage"
+import outbox from "../outbox"
+import mockServer from "../mockServer"
+import restBackend from "../restBackend"
+import queryCache from "../queryCache"
+import { MOCK_PASSWORD } from "../mockData"
+import { setProfile } from "../config"
+
+const mentionsOf = (postId: number) =>
+  mockServer.db.notifications.filter((item) => item.postId === postId && item.title === "mentioned you in a post")
+
+beforeAll(async () => {
+  // The outbox sends through the REST backend of the "mock" profile
+  await setProfile("mock")
+  mockServer.configure({ latency: 0, errorRate: 0 })
+})
+
+afterAll(() => {
+  // Stops the garbage collection timers of the cached responses
+  queryCache.clear()
+})
+
+beforeEach(async () => {
+  mockServer.reset()
+  const session = await restBackend.auth.login({
+    email: "demo@example.com",
+    password: MOCK_PASSWORD,
+    rememberMe: false,
+  })
+  await AsyncStorage.setItem("token", session.tokens?.accessToken ?? "")
+})
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+describe("outbox", () => {
+  describe("createPost", () => {
+    it("notifies users mentioned by a plain @name", async () => {
+      const alice = mockServer.db.users.find((user) => user.name === "Alice Martin")!
+
+      const { queued, result } = await outbox.perform({ type: "createPost", content: "<p>Hi @Alice!</p>" })
+
+      expect(queued).toBe(false)
+      expect(mentionsOf(result.id).map((item) => item.receiverId)).toEqual([alice.id])
+    })
+
+    it("sends picked mentions once and leaves out names no user matches", async () => {
+      const alice = mockServer.db.users.find((user) => user.name === "Alice Martin")!
+      const create = jest.spyOn(restBackend.posts, "create")
+
+      await outbox.perform({
+        type: "createPost",
+        content: `<p><a data-user-id="${alice.id}">@Alice Martin</a> @Alice @nobody</p>`,
+        mentionIds: [alice.id],
+      })
+
+      expect(create).toHaveBeenCalledWith(expect.objectContaining({ mentionIds: [alice.id] }))
+    })
+  })
+})
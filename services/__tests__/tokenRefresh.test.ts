@@ -0,0 +1,142 @@
+import axios, { AxiosError, type AxiosResponse, type InternalAxiosRequestConfig } from "axios"
+import AsyncStorage from "@react-native-async-storage/async-storage"
+import store from "../../redux/store"
+import { logoutUser } from "../../redux/session/sessionSlice"
+import { setupTokenRefreshInterceptor } from "../tokenRefresh"
+import endpoints from "../endpoints"
+import { toApiError } from "../apiErrors"
+
+jest.mock("../backend", () => ({
+  getBackend: () => ({ auth: { logout: jest.fn().mockResolvedValue(undefined) } }),
+}))
+
+const REFRESH_URL = endpoints.sessions.refreshToken.path
+
+interface FakeServer {
+  // Requests received, refreshes included, as "METHOD url Authorization"
+  requests: string[]
+  refreshes: number
+  rejectRefresh: boolean
+  // Refreshes fail without rejecting the token: no response, or this server error
+  failRefresh?: "network" | number
+}
+
+const respond = (config: InternalAxiosRequestConfig, status: number, data: unknown): Promise<AxiosResponse> => {
+  const response = { data, status, statusText: String(status), headers: {}, config }
+  if (status < 400) return Promise.resolve(response)
+  return Promise.reject(
+    new AxiosError(`Request failed with status code ${status}`, "ERR_BAD_REQUEST", config, null, response),
+  )
+}
+
+// Local adapter standing in for the API: only "fresh" tokens are accepted
+const createInstance = (server: FakeServer) => {
+  const instance = axios.create({
+    baseURL: "http://test.localhost/api",
+    adapter: async (config) => {
+      server.requests.push(`${config.method?.toUpperCase()} ${config.url} ${config.headers.Authorization || ""}`)
+
+      if (config.url === REFRESH_URL) {
+        server.refreshes++
+        // Slow enough for every request of the test to hit its 401 first
+        await new Promise((resolve) => setTimeout(resolve, 20))
+        if (server.rejectRefresh) return respond(config, 401, { error: "Invalid refresh token" })
+        if (server.failRefresh === "network") throw new AxiosError("Network Error", AxiosError.ERR_NETWORK, config)
+        if (server.failRefresh) return respond(config, server.failRefresh, { error: "Unavailable" })
+        return respond(config, 200, {
+          tokens: {
+            access: { token: "fresh", expires: "2030-01-01T00:00:00Z" },
+            refresh: { token: "fresh-refresh", expires: "2030-01-01T00:00:00Z" },
+          },
+        })
+      }
+
+      if (config.headers.Authorization !== "Bearer fresh") return respond(config, 401, { error: "Token expired" })
+      return respond(config, 200, { url: config.url })
+    },
+  })
+
+  // Same order as the app's instance: attach the token, unwrap the data, then refresh on 401
+  instance.interceptors.request.use(async (config) => {
+    const token = await AsyncStorage.getItem("token")
+    if (token) config.headers.Authorization = `Bearer ${token}`
+    return config
+  })
+  instance.interceptors.response.use((response) => response.data)
+  setupTokenRefreshInterceptor(instance)
+
+  return instance
+}
+
+describe("token refresh", () => {
+  let server: FakeServer
+
+  beforeEach(async () => {
+    server = { requests: [], refreshes: 0, rejectRefresh: false }
+    await AsyncStorage.multiSet([
+      ["token", "expired"],
+      ["remember_token", "refresh-me"],
+    ])
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it("shares one refresh between concurrent requests rejected with 401", async () => {
+    const instance = createInstance(server)
+
+    await Promise.all([instance.get("/feed"), instance.get("/users/1"), instance.get("/notifications")])
+
+    expect(server.refreshes).toBe(1)
+    expect(server.requests.filter((request) => request.includes(REFRESH_URL))).toHaveLength(1)
+  })
+
+  it("replays the original requests with the new token", async () => {
+    const instance = createInstance(server)
+
+    const results = await Promise.all([instance.get("/feed"), instance.get("/users/1")])
+
+    expect(results).toEqual([{ url: "/feed" }, { url: "/users/1" }])
+    expect(server.requests).toEqual(
+      expect.arrayContaining(["GET /feed Bearer expired", "GET /feed Bearer fresh", "GET /users/1 Bearer fresh"]),
+    )
+    expect(await AsyncStorage.getItem("token")).toBe("fresh")
+    expect(await AsyncStorage.getItem("remember_token")).toBe("fresh-refresh")
+  })
+
+  it("logs the user out when the refresh is rejected", async () => {
+    server.rejectRefresh = true
+    const instance = createInstance(server)
+    const dispatch = jest.spyOn(store, "dispatch")
+    // The failed refresh is logged
+    jest.spyOn(console, "error").mockImplementation(() => undefined)
+
+    await expect(instance.get("/feed")).rejects.toMatchObject({ response: { status: 401 } })
+
+    expect(server.refreshes).toBe(1)
+    expect(dispatch).toHaveBeenCalledTimes(1)
+    const action = await (dispatch.mock.results[0].value as ReturnType<ReturnType<typeof logoutUser>>)
+    expect(logoutUser.fulfilled.match(action)).toBe(true)
+    expect(action.meta.arg).toEqual({ expired: true })
+    expect(await AsyncStorage.getItem("remember_token")).toBeNull()
+  })
+
+  it.each([
+    ["a network error", "network" as const, "network"],
+    ["a server error", 503, "server"],
+  ])("keeps the session when the refresh fails with %s", async (_name, failRefresh, kind) => {
+    server.failRefresh = failRefresh
+    const instance = createInstance(server)
+    const dispatch = jest.spyOn(store, "dispatch")
+    jest.spyOn(console, "error").mockImplementation(() => undefined)
+
+    const error = await instance.get("/feed").catch((reason: unknown) => reason)
+
+    // The request fails with why the refresh could not be made, not as logged out
+    expect(toApiError(error).kind).toBe(kind)
+    expect(dispatch).not.toHaveBeenCalled()
+    expect(await AsyncStorage.getItem("token")).toBe("expired")
+    expect(await AsyncStorage.getItem("remember_token")).toBe("refresh-me")
+  })
+})
@@ -0,0 +1,171 @@
+import axios from "axios"
+import AsyncStorage from "@react-native-async-storage/async-storage"
+import * as FileSystem from "expo-file-system"
+import mediaService, { type UploadProgress } from "../mediaService"
+import mockServer from "../mockServer"
+import restBackend from "../restBackend"
+import queryCache from "../queryCache"
+import { MOCK_PASSWORD } from "../mockData"
+import { setProfile } from "../config"
+import type { LocalAttachment } from "../outbox"
+
+jest.mock("expo-file-system", () => ({
+  EncodingType: { Base64: "base64" },
+  cacheDirectory: "file:///cache/",
+  getInfoAsync: jest.fn(),
+  readAsStringAsync: jest.fn(),
+}))
+
+// The mock server's chunk size
+const CHUNK_SIZE = 256 * 1024
+// Two full chunks and a partial one
+const FILE_SIZE = 2 * CHUNK_SIZE + 1000
+const fileBytes = Buffer.alloc(FILE_SIZE, 7)
+
+const getInfoAsync = FileSystem.getInfoAsync as jest.Mock
+const readAsStringAsync = FileSystem.readAsStringAsync as jest.Mock
+
+let fileCount = 0
+const pickFile = (): LocalAttachment => ({ uri: `file:///videos/clip-${++fileCount}.mp4`, type: "video", alt: "Clip" })
+
+// Every progress report of a file, in order
+const recordProgress = (uri: string) => {
+  const reports: UploadProgress[] = []
+  const unsubscribe = mediaService.subscribeUploads((uploads) => {
+    const report = uploads.find((upload) => upload.uri === uri)
+    if (report) reports.push(report)
+  })
+  return { reports, unsubscribe }
+}
+
+beforeAll(async () => {
+  // The REST backend talks to the mock server through the API instance of the "mock" profile
+  await setProfile("mock")
+  mockServer.configure({ latency: 0, errorRate: 0 })
+})
+
+afterAll(() => {
+  // Stops the garbage collection timers of the cached responses
+  queryCache.clear()
+})
+
+beforeEach(async () => {
+  mockServer.reset()
+  const session = await restBackend.auth.login({
+    email: "demo@example.com",
+    password: MOCK_PASSWORD,
+    rememberMe: false,
+  })
+  await AsyncStorage.setItem("token", session.tokens?.accessToken ?? "")
+
+  getInfoAsync.mockResolvedValue({ exists: true, size: FILE_SIZE })
+  readAsStringAsync.mockImplementation(async (_uri, { position, length }) =>
+    fileBytes.subarray(position, position + length).toString("base64"),
+  )
+  // Uploads log their retries
+  jest.spyOn(console, "warn").mockImplementation(() => undefined)
+})
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+describe("chunked uploads", () => {
+  it("sends a file chunk by chunk, reading each one at its offset", async () => {
+    const file = pickFile()
+    const { reports, unsubscribe } = recordProgress(file.uri)
+
+    const [input] = await mediaService.uploadAttachments([file])
+    unsubscribe()
+
+    const upload = mockServer.db.uploads[0]
+    expect(upload).toMatchObject({ size: FILE_SIZE, offset: FILE_SIZE })
+    expect(input).toEqual({ id: upload.attachment?.id, alt: "Clip" })
+    expect(readAsStringAsync.mock.calls.map(([, options]) => [options.position, options.length])).toEqual([
+      [0, CHUNK_SIZE],
+      [CHUNK_SIZE, CHUNK_SIZE],
+      [2 * CHUNK_SIZE, 1000],
+    ])
+
+    expect(reports.map(({ sent, state }) => [sent, state])).toEqual([
+      [0, "uploading"],
+      [CHUNK_SIZE, "uploading"],
+      [2 * CHUNK_SIZE, "uploading"],
+      [FILE_SIZE, "uploading"],
+      [FILE_SIZE, "done"],
+    ])
+    reports.forEach((report) => expect(report.total).toBe(FILE_SIZE))
+  })
+
+  it("resumes from where the server is after a 409", async () => {
+    const file = pickFile()
+    const sendChunk = jest.spyOn(restBackend.uploads!, "sendChunk")
+    // The server got the first chunk, but its response was lost
+    const { reports, unsubscribe } = recordProgress(file.uri)
+    const skipAhead = mediaService.subscribeUploads(() => {
+      const upload = mockServer.db.uploads[0]
+      if (upload?.offset === 0 && sendChunk.mock.calls.length === 0) upload.offset = CHUNK_SIZE
+    })
+
+    await mediaService.uploadAttachments([file])
+    unsubscribe()
+    skipAhead()
+
+    expect(sendChunk.mock.calls.map(([, offset]) => offset)).toEqual([0, CHUNK_SIZE, 2 * CHUNK_SIZE])
+    await expect(sendChunk.mock.results[0].value).rejects.toMatchObject({ kind: "validation", status: 409 })
+    expect(mockServer.db.uploads[0]).toMatchObject({ offset: FILE_SIZE })
+    expect(reports.map(({ sent }) => sent)).toContain(CHUNK_SIZE)
+    expect(reports[reports.length - 1]).toMatchObject({ sent: FILE_SIZE, state: "done" })
+  })
+
+  it("retries failed chunks with exponential backoff", async () => {
+    const file = pickFile()
+    const sendChunk = jest.spyOn(restBackend.uploads!, "sendChunk")
+    const { reports, unsubscribe } = recordProgress(file.uri)
+    // No jitter: the delays are half of 1s, 2s, ...
+    jest.spyOn(Math, "random").mockReturnValue(0)
+    const setTimeoutSpy = jest.spyOn(global, "setTimeout")
+    mockServer.failNext("uploads.chunk", { status: 503 }, 2)
+    const controller = new AbortController()
+    const addListener = jest.spyOn(controller.signal, "addEventListener")
+    const removeListener = jest.spyOn(controller.signal, "removeEventListener")
+
+    await expect(mediaService.uploadAttachments([file], { signal: controller.signal })).resolves.toHaveLength(1)
+    unsubscribe()
+
+    const backoffs = setTimeoutSpy.mock.calls.map(([, delay]) => delay).filter((delay) => delay && delay >= 100)
+    expect(backoffs).toEqual([500, 1000])
+    // Each backoff stops listening to the signal once it is over
+    const backoffListeners = addListener.mock.calls.filter(
+      ([, , options]) => (options as AddEventListenerOptions)?.once,
+    )
+    expect(backoffListeners).toHaveLength(2)
+    backoffListeners.forEach(([, listener]) => expect(removeListener).toHaveBeenCalledWith("abort", listener))
+    expect(sendChunk.mock.calls.map(([, offset]) => offset)).toEqual([0, 0, 0, CHUNK_SIZE, 2 * CHUNK_SIZE])
+    expect(reports.filter((report) => report.state === "retrying")).toHaveLength(2)
+    expect(reports[reports.length - 1]).toMatchObject({ sent: FILE_SIZE, state: "done" })
+  })
+
+  it("pauses when cancelled while waiting to retry, and resumes the same upload later", async () => {
+    const file = pickFile()
+    const { reports, unsubscribe } = recordProgress(file.uri)
+    mockServer.failNext("uploads.chunk", { status: 503 })
+    const controller = new AbortController()
+
+    const upload = mediaService.uploadAttachments([file], { signal: controller.signal })
+    // Aborted during the first backoff
+    const stopWhenRetrying = mediaService.subscribeUploads((uploads) => {
+      if (uploads.some((item) => item.uri === file.uri && item.state === "retrying")) controller.abort()
+    })
+
+    const error = await upload.catch((reason: unknown) => reason)
+    stopWhenRetrying()
+    expect(axios.isCancel(error)).toBe(true)
+    expect(reports[reports.length - 1]).toMatchObject({ sent: 0, state: "paused" })
+
+    await mediaService.uploadAttachments([file])
+    unsubscribe()
+    expect(mockServer.db.uploads).toHaveLength(1)
+    expect(reports[reports.length - 1]).toMatchObject({ sent: FILE_SIZE, state: "done" })
+  })
+})
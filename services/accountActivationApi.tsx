@@ -1,10 +1,9 @@
-import API from "."
+import { api } from "."
 import type { User } from "../redux/session/sessionSlice"
 
 export interface UpdateResponse {
   user_id?: string
   flash?: [message_type: string, message: string]
-  error?: string[]
 }
 
 export interface UpdateParams {
@@ -29,8 +28,7 @@ const accountActivationApi = {
    * @returns Promise with response
    */
   create(params: UpdateParams): Promise<UpdateResponse> {
-    const url = `/account_activations`
-    return API.post(url, params)
+    return api.accountActivations.create({ body: params })
   },
 
   /**
@@ -40,8 +38,7 @@ const accountActivationApi = {
    * @returns Promise with response
    */
   update(activation_token: string, email: string): Promise<Response<User>> {
-    const url = `/account_activations/${activation_token}`
-    return API.patch(url, { email: email })
+    return api.accountActivations.update({ params: { token: activation_token }, body: { email: email } })
   },
 }
 
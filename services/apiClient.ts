@@ -0,0 +1,149 @@
+import type { AxiosInstance, AxiosRequestConfig } from "axios"
+import { logger } from "./debug-utils"
+import { ApiContractError } from "./apiErrors"
+import { DecodeError, type Decoder } from "./schema"
+
+/**
+ * Typed API client
+ * Turns a declarative registry of endpoints into strongly typed request functions
+ */
+
+export type HttpMethod = "get" | "post" | "put" | "patch" | "delete"
+
+// What an endpoint sends and receives; only `response` is required
+export interface EndpointSpec {
+  response: unknown
+  body?: unknown
+  query?: unknown
+}
+
+export interface Endpoint<Path extends string = string, Spec extends EndpointSpec = EndpointSpec> {
+  readonly method: HttpMethod
+  readonly path: Path
+  // Checks the response at runtime; responses of endpoints without one are trusted
+  readonly decode?: Decoder<Spec["response"]>
+  // Phantom field carrying the spec type; never set at runtime
+  readonly __spec?: Spec
+}
+
+// Names of the `:params` in a path, e.g. "/users/:id/:relation" -> "id" | "relation"
+type PathParamNames<Path extends string> = Path extends `${string}:${infer Name}/${infer Rest}`
+  ? Name | PathParamNames<`/${Rest}`>
+  : Path extends `${string}:${infer Name}`
+    ? Name
+    : never
+
+export type PathParams<Path extends string> = { [Name in PathParamNames<Path>]: string | number }
+
+export type RequestArgs<Path extends string, Spec extends EndpointSpec> = ([PathParamNames<Path>] extends [never]
+  ? unknown
+  : { params: PathParams<Path> }) &
+  (Spec extends { query: infer Query } ? { query?: Query } : unknown) &
+  (Spec extends { body: infer Body } ? { body: Body } : unknown) & {
+    signal?: AbortSignal
+    config?: AxiosRequestConfig
+  }
+
+// Arguments are optional when the endpoint has no path params and no body
+export type ClientFunction<E> =
+  E extends Endpoint<infer Path, infer Spec>
+    ? object extends RequestArgs<Path, Spec>
+      ? (args?: RequestArgs<Path, Spec>) => Promise<Spec["response"]>
+      : (args: RequestArgs<Path, Spec>) => Promise<Spec["response"]>
+    : never
+
+export type EndpointRegistry = Record<string, Record<string, Endpoint<string, any>>>
+
+export type ApiClient<Registry extends EndpointRegistry> = {
+  [Group in keyof Registry]: { [Name in keyof Registry[Group]]: ClientFunction<Registry[Group][Name]> }
+}
+
+/**
+ * Declare an endpoint
+ * @param method HTTP method
+ * @param path Path relative to the API base URL, with `:name` placeholders for path params
+ * @returns Builder whose `with` method attaches the request and response types, and optionally the response schema
+ *
+ * @example
+ * route("post", "/microposts/:id/comments").with<{ body: { content: string }; response: Comment }>(commentSchema)
+ */
+export const route = <Path extends string>(method: HttpMethod, path: Path) => ({
+  with: <Spec extends EndpointSpec>(decode?: Decoder<Spec["response"]>): Endpoint<Path, Spec> => ({
+    method,
+    path,
+    decode,
+  }),
+})
+
+/**
+ * Fill the `:params` of a path
+ * @param path Path template
+ * @param params Values for the placeholders
+ * @returns Path with URL-encoded values
+ */
+export const buildPath = (path: string, params: Record<string, string | number> = {}): string =>
+  path.replace(/:(\w+)/g, (_, name: string) => {
+    const value = params[name]
+    if (value === undefined || value === null) {
+      throw new Error(`Missing path parameter "${name}" for ${path}`)
+    }
+    return encodeURIComponent(String(value))
+  })
+
+/**
+ * Check a response against the schema of its endpoint
+ * @param endpoint Endpoint the response comes from
+ * @param data Response body
+ * @returns The decoded response
+ * @throws ApiContractError if the response does not match the schema
+ */
+export const decodeResponse = <T>(endpoint: Endpoint<string, { response: T }>, data: unknown): T => {
+  if (!endpoint.decode) return data as T
+
+  try {
+    return endpoint.decode(data, "")
+  } catch (error) {
+    if (!(error instanceof DecodeError)) throw error
+
+    const contractError = new ApiContractError(`${endpoint.method.toUpperCase()} ${endpoint.path}`, error)
+    logger.error("API contract violation", {
+      endpoint: contractError.endpoint,
+      path: contractError.path,
+      expected: contractError.expected,
+      received: contractError.received,
+    })
+    throw contractError
+  }
+}
+
+/**
+ * Build the typed client for a registry
+ * @param apiClient Axios instance whose response interceptor unwraps `response.data`
+ * @param registry Endpoint registry
+ * @returns Object with one request function per endpoint, grouped like the registry
+ */
+export const createApiClient = <Registry extends EndpointRegistry>(
+  apiClient: AxiosInstance,
+  registry: Registry,
+): ApiClient<Registry> => {
+  const client: Record<string, Record<string, (args?: any) => Promise<any>>> = {}
+
+  Object.entries(registry).forEach(([group, endpoints]) => {
+    client[group] = {}
+    Object.entries(endpoints).forEach(([name, endpoint]) => {
+      client[group][name] = async (args: any = {}) => {
+        const data = await apiClient.request({
+          ...args.config,
+          method: endpoint.method,
+          url: buildPath(endpoint.path, args.params),
+          params: args.query,
+          data: args.body,
+          signal: args.signal,
+        })
+        return decodeResponse(endpoint, data)
+      }
+    })
+  })
+
+  return client as ApiClient<Registry>
+}
@@ -0,0 +1,197 @@
+import axios from "axios"
+import type { ErrorMessageType } from "./errorMessages"
+import type { DecodeError } from "./schema"
+
+/**
+ * API errors
+ * Every failed request rejects with one of these, built by the response interceptor of the API instance
+ */
+
+// "unknown" is anything thrown outside of a request, e.g. a bug in the app: never retried as if offline
+export type ApiErrorKind = "network" | "timeout" | "validation" | "auth" | "notFound" | "server" | "unknown"
+
+// Plain object form, safe to keep in Redux (e.g. as a rejectWithValue payload)
+export interface ApiErrorPayload {
+  kind: ApiErrorKind
+  status: number
+  message: string
+  errors?: ErrorMessageType
+}
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind
+  // HTTP status, 0 when no response was received
+  readonly status: number
+  // Method and path of the request, e.g. "GET /microposts/1"
+  readonly endpoint?: string
+
+  constructor(kind: ApiErrorKind, message: string, status = 0, endpoint?: string) {
+    super(message)
+    this.name = "ApiError"
+    this.kind = kind
+    this.status = status
+    this.endpoint = endpoint
+  }
+
+  toPayload(): ApiErrorPayload {
+    return { kind: this.kind, status: this.status, message: this.message }
+  }
+}
+
+// No response: offline, DNS failure, connection refused
+export class NetworkError extends ApiError {
+  constructor(message = "No response from server. Please check your connection.", endpoint?: string) {
+    super("network", message, 0, endpoint)
+    this.name = "NetworkError"
+  }
+}
+
+export class TimeoutError extends ApiError {
+  constructor(message = "The server took too long to respond. Please try again.", status = 0, endpoint?: string) {
+    super("timeout", message, status, endpoint)
+    this.name = "TimeoutError"
+  }
+}
+
+// The server rejected the submitted data; `errors` maps each field to its messages
+export class ValidationError extends ApiError {
+  readonly errors: ErrorMessageType
+
+  constructor(message: string, errors: ErrorMessageType, status = 422, endpoint?: string) {
+    super("validation", message, status, endpoint)
+    this.name = "ValidationError"
+    this.errors = errors
+  }
+
+  toPayload(): ApiErrorPayload {
+    return { ...super.toPayload(), errors: this.errors }
+  }
+}
+
+// Not signed in, session expired or not allowed
+export class AuthError extends ApiError {
+  constructor(message = "Please log in again.", status = 401, endpoint?: string) {
+    super("auth", message, status, endpoint)
+    this.name = "AuthError"
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message = "This content is no longer available.", endpoint?: string) {
+    super("notFound", message, 404, endpoint)
+    this.name = "NotFoundError"
+  }
+}
+
+// Any other failure on the server side
+export class ServerError extends ApiError {
+  constructor(message = "Something went wrong on our side. Please try again later.", status = 500, endpoint?: string) {
+    super("server", message, status, endpoint)
+    this.name = "ServerError"
+  }
+}
+
+/**
+ * A response that does not match the contract of its endpoint
+ */
+export class ApiContractError extends ServerError {
+  readonly path: string
+  readonly expected: string
+  readonly received: string
+
+  constructor(endpoint: string, cause: DecodeError) {
+    super(`${endpoint} returned an unexpected response: ${cause.message}`, 200, endpoint)
+    this.name = "ApiContractError"
+    this.path = cause.path
+    this.expected = cause.expected
+    this.received = cause.received
+  }
+}
+
+interface ApiErrorByKind {
+  network: NetworkError
+  timeout: TimeoutError
+  validation: ValidationError
+  auth: AuthError
+  notFound: NotFoundError
+  server: ServerError
+  unknown: ApiError
+}
+
+const describeRequest = (config?: { method?: string; url?: string }) =>
+  config ? `${(config.method || "get").toUpperCase()} ${config.url || ""}` : undefined
+
+// Rails sends `{ errors: { field: [...] } }`, `{ error: [...] }` or `{ error: { field: [...] } }`
+const readFieldErrors = (data: any): ErrorMessageType => {
+  const errors = data?.errors ?? data?.error
+  if (Array.isArray(errors)) return { base: errors.map(String) }
+  if (typeof errors === "string") return { base: [errors] }
+  if (errors && typeof errors === "object") {
+    const result: ErrorMessageType = {}
+    Object.entries(errors).forEach(([field, messages]) => {
+      result[field] = Array.isArray(messages) ? messages.map(String) : [String(messages)]
+    })
+    return result
+  }
+  return {}
+}
+
+const readMessage = (data: any): string | undefined => {
+  if (typeof data?.message === "string") return data.message
+  if (Array.isArray(data?.flash) && typeof data.flash[1] === "string") return data.flash[1]
+  if (typeof data?.error === "string") return data.error
+  return undefined
+}
+
+/**
+ * Turn whatever a request rejected with into an ApiError
+ * @param error Error thrown by axios (or already an ApiError)
+ * @returns The matching ApiError subclass
+ */
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error
+  if (!axios.isAxiosError(error)) {
+    return new ApiError("unknown", error instanceof Error ? error.message : "An unexpected error occurred")
+  }
+
+  const endpoint = describeRequest(error.config)
+  const response = error.response
+
+  if (!response) {
+    if (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT") {
+      return new TimeoutError(undefined, 0, endpoint)
+    }
+    return new NetworkError(undefined, endpoint)
+  }
+
+  const { status, data } = response
+  const message = readMessage(data)
+
+  if (status === 401 || status === 403) return new AuthError(message, status, endpoint)
+  if (status === 404) return new NotFoundError(message, endpoint)
+  if (status === 408 || status === 504) return new TimeoutError(message, status, endpoint)
+  if (status === 400 || status === 409 || status === 422) {
+    return new ValidationError(message || "The form contains errors", readFieldErrors(data), status, endpoint)
+  }
+  return new ServerError(message, status, endpoint)
+}
+
+/**
+ * Check whether an error is an ApiError, optionally of a given kind
+ * @param error Caught value
+ * @param kind Expected kind
+ */
+export const isApiError = <Kind extends ApiErrorKind = ApiErrorKind>(
+  error: unknown,
+  kind?: Kind,
+): error is ApiErrorByKind[Kind] => error instanceof ApiError && (!kind || error.kind === kind)
+
+// The request never got an answer: worth retrying once the connection is back
+export const isOfflineError = (error: unknown): boolean => isApiError(error, "network") || isApiError(error, "timeout")
+
+/**
+ * Serializable form of a caught error for thunk rejections
+ * @param error Caught value
+ * @returns Payload with kind, status and message
+ */
+export const toApiErrorPayload = (error: unknown): ApiErrorPayload => toApiError(error).toPayload()
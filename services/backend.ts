@@ -0,0 +1,124 @@
+import { getConfig, onConfigChange, type BackendKind } from "./config"
+import type { User } from "../redux/session/sessionSlice"
+import type { Comment, CreateMicropostParams, ListResponse, Micropost } from "./micropostApi"
+import type { Notification } from "./notificationApi"
+import type { ChunkOptions, CreateParams as UploadParams, UploadSession } from "./uploadApi"
+import type { SignUpField } from "./userApi"
+import restBackend from "./restBackend"
+import supabaseBackend from "./supabaseBackend"
+
+/**
+ * Backend
+ * The data operations the app needs, independent of the server behind them.
+ * Screens, thunks and the outbox go through `getBackend()`; the profile's `backend` setting picks the implementation.
+ * Every implementation rejects with an ApiError (see apiErrors.ts) and resolves with the types of the REST API.
+ */
+
+export interface AuthSession {
+  user: User
+  tokens?: {
+    accessToken: string
+    refreshToken?: string
+  }
+}
+
+export interface LoginCredentials {
+  email: string
+  password: string
+  rememberMe: boolean
+}
+
+// Pages by number or by cursor, see ListParams in micropostApi.tsx
+export interface FeedQuery {
+  page?: number
+  before?: number
+  after?: number
+  limit?: number
+  // Only the posts of this user (profile screen); the home feed otherwise
+  userId?: string
+}
+
+// A user as shown on their profile screen
+export interface UserProfile {
+  id: string
+  name: string
+  // Image URL or Gravatar ID, see Avatar
+  avatar?: string
+  bio?: string
+  // Whether the current user follows them
+  followed: boolean
+}
+
+export interface PageQuery {
+  page: number
+}
+
+export interface Backend {
+  auth: {
+    // Rejects with an AuthError for wrong credentials
+    login(credentials: LoginCredentials): Promise<AuthSession>
+    currentUser(): Promise<User>
+    // Local credentials are cleared even when the server cannot be told
+    logout(): Promise<void>
+    // Rejects with a ValidationError when the server refuses the data
+    signUp(params: SignUpField): Promise<void>
+  }
+  users: {
+    // Rejects with a NotFoundError for unknown users
+    get(id: string): Promise<UserProfile>
+  }
+  feed: {
+    list(query: FeedQuery): Promise<ListResponse<Micropost>>
+  }
+  posts: {
+    get(id: number): Promise<Micropost>
+    create(params: CreateMicropostParams): Promise<Micropost>
+    update(id: number, params: Partial<CreateMicropostParams>): Promise<Micropost>
+    remove(id: number): Promise<void>
+  }
+  likes: {
+    like(postId: number): Promise<void>
+    unlike(postId: number): Promise<void>
+  }
+  comments: {
+    list(postId: number): Promise<Comment[]>
+    add(postId: number, content: string): Promise<Comment>
+  }
+  follows: {
+    follow(userId: string): Promise<void>
+    unfollow(userId: string): Promise<void>
+  }
+  notifications: {
+    list(query: PageQuery): Promise<Notification[]>
+    unreadCount(): Promise<number>
+    markAllAsRead(): Promise<void>
+  }
+  // Resumable chunked uploads; backends without them take files whole in posts.create and posts.update
+  uploads?: {
+    start(params: UploadParams): Promise<UploadSession>
+    // Rejects with a NotFoundError once the server has dropped the upload
+    status(id: string): Promise<UploadSession>
+    // Rejects with a 409 ValidationError when `offset` is not where the server is
+    sendChunk(id: string, offset: number, chunk: ArrayBuffer, options?: ChunkOptions): Promise<UploadSession>
+  }
+}
+
+const backends: Record<BackendKind, Backend> = {
+  rest: restBackend,
+  supabase: supabaseBackend,
+  // Same requests as "rest", answered by the mock server adapter of the API instance
+  mock: restBackend,
+}
+
+let backend = backends[getConfig().backend]
+
+onConfigChange((config) => {
+  backend = backends[config.backend]
+})
+
+/**
+ * Get the backend of the active config profile.
+ * Call it for every operation rather than keeping the result: it changes with the profile.
+ * @returns Backend implementation
+ */
+export const getBackend = (): Backend => backend
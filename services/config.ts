@@ -0,0 +1,174 @@
+import Constants from "expo-constants"
+import AsyncStorage from "@react-native-async-storage/async-storage"
+import { logger } from "./debug-utils"
+import type { MockOptions } from "./mockServer"
+
+/**
+ * App configuration
+ * Backend settings come from named profiles in `app.json` (`expo.extra.profiles`), on top of the settings
+ * they share (`expo.extra.profileDefaults`, e.g. the Supabase project).
+ * The profile used on startup is, in order:
+ *   1. the one picked on the developer screen (persisted),
+ *   2. `EXPO_PUBLIC_APP_PROFILE`,
+ *   3. `expo.extra.defaultProfile`,
+ *   4. "production".
+ * `EXPO_PUBLIC_API_URL`, `EXPO_PUBLIC_SUPABASE_URL`, `EXPO_PUBLIC_SUPABASE_ANON_KEY` and `EXPO_PUBLIC_BACKEND`
+ * override the values of the build profile (2 to 4) so CI can point a build elsewhere without editing app.json.
+ * The developer screen only exists in development and in builds with `EXPO_PUBLIC_DEVELOPER_MENU=true`
+ * (the "preview" EAS profile); elsewhere the build profile is always used.
+ */
+
+export const PROFILE_NAMES = ["local", "staging", "production", "mock"] as const
+
+export type ProfileName = (typeof PROFILE_NAMES)[number]
+
+export const BACKEND_KINDS = ["rest", "supabase", "mock"] as const
+
+// Which implementation of services/backend serves the app data; "mock" is the REST backend served by mockServer.ts
+export type BackendKind = (typeof BACKEND_KINDS)[number]
+
+export interface BackendProfile {
+  // Base URL of the Rails API, e.g. "https://example.com/api"
+  apiUrl: string
+  supabaseUrl: string
+  supabaseAnonKey: string
+  // Defaults to "rest"
+  backend: BackendKind
+  // Latency and error injection of the "mock" backend
+  mock?: MockOptions
+}
+
+export interface AppConfig extends BackendProfile {
+  profile: ProfileName
+}
+
+type ConfigListener = (config: AppConfig) => void
+
+const STORAGE_KEY = "config-profile"
+
+// Whether the developer screen, and so switching profiles, is available
+export const developerMenuEnabled = __DEV__ || process.env.EXPO_PUBLIC_DEVELOPER_MENU === "true"
+
+const extra = (Constants.expoConfig?.extra ?? {}) as {
+  defaultProfile?: string
+  profileDefaults?: Partial<BackendProfile>
+  profiles?: Partial<Record<ProfileName, Partial<BackendProfile>>>
+}
+
+const isProfileName = (name: unknown): name is ProfileName => PROFILE_NAMES.includes(name as ProfileName)
+
+const isBackendKind = (kind: unknown): kind is BackendKind => BACKEND_KINDS.includes(kind as BackendKind)
+
+const buildProfile: ProfileName =
+  [process.env.EXPO_PUBLIC_APP_PROFILE, extra.defaultProfile].find(isProfileName) ?? "production"
+
+const envOverrides: Partial<BackendProfile> = {
+  apiUrl: process.env.EXPO_PUBLIC_API_URL,
+  supabaseUrl: process.env.EXPO_PUBLIC_SUPABASE_URL,
+  supabaseAnonKey: process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY,
+  backend: isBackendKind(process.env.EXPO_PUBLIC_BACKEND) ? process.env.EXPO_PUBLIC_BACKEND : undefined,
+}
+
+/**
+ * Resolve the settings of a profile
+ * @param profile Profile name
+ * @returns Complete config for the profile
+ * @throws Error if app.json does not define every setting of the profile
+ */
+export const resolveProfile = (profile: ProfileName): AppConfig => {
+  const values: Partial<BackendProfile> = { ...extra.profileDefaults, ...extra.profiles?.[profile] }
+
+  if (profile === buildProfile) {
+    Object.entries(envOverrides).forEach(([key, value]) => {
+      if (value) Object.assign(values, { [key]: value })
+    })
+  }
+
+  const { apiUrl, supabaseUrl, supabaseAnonKey, backend = "rest", mock } = values
+  if (!apiUrl || !supabaseUrl || !supabaseAnonKey) {
+    throw new Error(`Config profile "${profile}" is incomplete: check expo.extra.profiles in app.json`)
+  }
+  if (!isBackendKind(backend)) {
+    throw new Error(`Config profile "${profile}" has an unknown backend "${backend}"`)
+  }
+
+  return { profile, apiUrl, supabaseUrl, supabaseAnonKey, backend, mock }
+}
+
+let current: AppConfig = resolveProfile(buildProfile)
+const listeners = new Set<ConfigListener>()
+
+const apply = (next: AppConfig) => {
+  current = next
+  listeners.forEach((listener) => listener(next))
+}
+
+/**
+ * Get the active config
+ * @returns Config of the active profile
+ */
+export const getConfig = (): AppConfig => current
+
+/**
+ * Listen for profile switches. Used to rebuild the API instance and the Supabase client.
+ * @param listener Called with the new config
+ * @returns Function removing the listener
+ */
+export const onConfigChange = (listener: ConfigListener): (() => void) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Restore the profile picked on the developer screen. Call before the first request.
+ * @returns Promise with the active config
+ */
+export const loadConfig = async (): Promise<AppConfig> => {
+  if (!developerMenuEnabled) return current
+
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEY)
+    if (isProfileName(stored) && stored !== current.profile) {
+      apply(resolveProfile(stored))
+    }
+  } catch (error) {
+    logger.error("Error restoring config profile", error)
+  }
+  return current
+}
+
+/**
+ * Switch to another profile and remember it across restarts
+ * @param profile Profile to use
+ * @returns Promise with the new config
+ */
+export const setProfile = async (profile: ProfileName): Promise<AppConfig> => {
+  const next = resolveProfile(profile)
+
+  if (profile === buildProfile) {
+    await AsyncStorage.removeItem(STORAGE_KEY)
+  } else {
+    await AsyncStorage.setItem(STORAGE_KEY, profile)
+  }
+
+  if (profile !== current.profile) {
+    logger.info(`Switching backend profile to ${profile}`, next.backend === "rest" ? next.apiUrl : next.supabaseUrl)
+    apply(next)
+  }
+  return next
+}
+
+/**
+ * Profiles defined in app.json, for the developer screen
+ * @returns Profiles with their settings, skipping incomplete ones
+ */
+export const getAvailableProfiles = (): AppConfig[] =>
+  PROFILE_NAMES.flatMap((profile) => {
+    try {
+      return [resolveProfile(profile)]
+    } catch {
+      return []
+    }
+  })
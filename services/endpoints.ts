@@ -0,0 +1,176 @@
+import { route } from "./apiClient"
+import {
+  commentSchema,
+  micropostListSchema,
+  micropostSchema,
+  notificationSchema,
+  searchResponseSchema,
+  uploadSessionSchema,
+  userShowResponseSchema,
+} from "./responseSchemas"
+import { array } from "./schema"
+import type { User as SessionUser } from "../redux/session/sessionSlice"
+import type { PostFormat } from "../helpers/postFormat"
+import type {
+  Response as ActivationResponse,
+  UpdateParams as ActivationParams,
+  UpdateResponse as ActivationRequestResponse,
+} from "./accountActivationApi"
+import type {
+  Comment,
+  ListParams as MicropostListParams,
+  ListResponse as MicropostListResponse,
+  Micropost,
+  Response as MicropostResponse,
+} from "./micropostApi"
+import type { ListParams as NotificationListParams, Notification, UnreadCountResponse } from "./notificationApi"
+import type {
+  CreateParams as PasswordResetParams,
+  CreateResponse as PasswordResetResponse,
+  UpdateParams as PasswordResetUpdateParams,
+  UpdateResponse as PasswordResetUpdateResponse,
+} from "./passwordResetApi"
+import type {
+  CreateParams as RelationshipParams,
+  CreateResponse as RelationshipCreateResponse,
+  DestroyResponse as RelationshipDestroyResponse,
+} from "./relationshipApi"
+import type { SearchParams, SearchResponse } from "./searchApi"
+import type { CreateParams as UploadCreateParams, UploadSession } from "./uploadApi"
+import type { CurrentSessionResponse, Response as SessionResponse, SessionParams } from "./sessionApi"
+import type { RefreshTokenResponse } from "./tokenRefresh"
+import type {
+  CreateParams as UserCreateParams,
+  CreateResponse as UserCreateResponse,
+  EditResponse,
+  FollowResponse,
+  IUserFollow,
+  ListParams as UserListParams,
+  ListResponse as UserListResponse,
+  Response as UserResponse,
+  ShowResponse,
+  UpdateParams as UserUpdateParams,
+  UpdateResponse as UserUpdateResponse,
+  User,
+  UserFollow,
+  UserShow,
+} from "./userApi"
+
+// Multipart uploads are sent as FormData, which the types cannot look into
+type Multipart = FormData
+
+/**
+ * Every backend endpoint used by the app.
+ * Paths are relative to the API base URL; `:name` segments become required path params.
+ * Change a path here and every caller follows. Endpoints given a schema have their responses checked at runtime.
+ */
+const endpoints = {
+  sessions: {
+    login: route("post", "/login").with<{ body: SessionParams; response: SessionResponse<SessionUser> }>(),
+    current: route("get", "/sessions").with<{ response: CurrentSessionResponse }>(),
+    logout: route("delete", "/logout").with<{ response: SessionResponse<SessionUser> }>(),
+    refreshToken: route("post", "/refresh-token").with<{ body: { token: string }; response: RefreshTokenResponse }>(),
+  },
+
+  microposts: {
+    feed: route("get", "").with<{ query: MicropostListParams; response: MicropostListResponse<Micropost> }>(
+      micropostListSchema,
+    ),
+    show: route("get", "/microposts/:id").with<{ response: Micropost }>(micropostSchema),
+    create: route("post", "/microposts").with<{
+      body:
+        | {
+            content: string
+            format?: PostFormat
+            // Finished uploads, by attachment ID
+            attachments?: Array<{ id: number; alt?: string }>
+            mention_ids?: string[]
+          }
+        | Multipart
+      response: Micropost
+    }>(),
+    update: route("put", "/microposts/:id").with<{
+      body: { content?: string; format?: PostFormat; attachments?: Array<{ id: number; alt?: string }> } | Multipart
+      response: Micropost
+    }>(),
+    destroy: route("delete", "/microposts/:id").with<{ response: MicropostResponse }>(),
+    like: route("post", "/microposts/:id/like").with<{ body: Record<string, never>; response: MicropostResponse }>(),
+    unlike: route("delete", "/microposts/:id/unlike").with<{ response: MicropostResponse }>(),
+    comments: route("get", "/microposts/:id/comments").with<{ query: MicropostListParams; response: Comment[] }>(
+      array(commentSchema),
+    ),
+    addComment: route("post", "/microposts/:id/comments").with<{ body: { content: string }; response: Comment }>(
+      commentSchema,
+    ),
+  },
+
+  users: {
+    index: route("get", "/users").with<{ query: UserListParams; response: UserListResponse<User> }>(),
+    create: route("post", "/users").with<{ body: UserCreateParams; response: UserCreateResponse<SessionUser> }>(),
+    signup: route("post", "/signup").with<{ body: UserCreateParams; response: UserCreateResponse<SessionUser> }>(),
+    show: route("get", "/users/:id").with<{ query: UserListParams; response: ShowResponse<UserShow> }>(
+      userShowResponseSchema,
+    ),
+    edit: route("get", "/users/:id/edit").with<{ response: EditResponse }>(),
+    update: route("patch", "/users/:id").with<{ body: UserUpdateParams; response: UserUpdateResponse }>(),
+    destroy: route("delete", "/users/:id").with<{ response: UserResponse }>(),
+    follow: route("get", "/users/:id/:relation").with<{
+      query: { page: number }
+      response: FollowResponse<UserFollow, IUserFollow>
+    }>(),
+    search: route("get", "/users/search").with<{ query: { query: string }; response: User[] }>(),
+    uploadAvatar: route("post", "/users/upload-avatar").with<{ body: Multipart; response: UserResponse }>(),
+  },
+
+  relationships: {
+    create: route("post", "/relationships").with<{ body: RelationshipParams; response: RelationshipCreateResponse }>(),
+    destroy: route("delete", "/relationships/:id").with<{ response: RelationshipDestroyResponse }>(),
+  },
+
+  uploads: {
+    create: route("post", "/uploads").with<{ body: UploadCreateParams; response: UploadSession }>(uploadSessionSchema),
+    show: route("get", "/uploads/:id").with<{ response: UploadSession }>(uploadSessionSchema),
+    // Raw bytes of the file from `offset`
+    chunk: route("put", "/uploads/:id/chunk").with<{
+      query: { offset: number }
+      body: ArrayBuffer
+      response: UploadSession
+    }>(uploadSessionSchema),
+  },
+
+  search: {
+    index: route("get", "/search").with<{ query: SearchParams; response: SearchResponse }>(searchResponseSchema),
+  },
+
+  notifications: {
+    index: route("get", "/notifications").with<{ query: NotificationListParams; response: Notification[] }>(
+      array(notificationSchema),
+    ),
+    unreadCount: route("get", "/notifications/unread/count").with<{ response: UnreadCountResponse }>(),
+    markAsRead: route("put", "/notifications/:id/read").with<{ response: unknown }>(),
+    markAllAsRead: route("put", "/notifications/read-all").with<{ response: unknown }>(),
+  },
+
+  accountActivations: {
+    create: route("post", "/account_activations").with<{
+      body: ActivationParams
+      response: ActivationRequestResponse
+    }>(),
+    update: route("patch", "/account_activations/:token").with<{
+      body: { email: string }
+      response: ActivationResponse<SessionUser>
+    }>(),
+  },
+
+  passwordResets: {
+    create: route("post", "/password_resets").with<{ body: PasswordResetParams; response: PasswordResetResponse }>(),
+    update: route("put", "/password_resets/:token").with<{
+      body: PasswordResetUpdateParams
+      response: PasswordResetUpdateResponse
+    }>(),
+  },
+}
+
+export type Endpoints = typeof endpoints
+
+export default endpoints
@@ -2,16 +2,21 @@ import type React from "react"
 import { View, Text, StyleSheet } from "react-native"
 import { theme } from "../constants/theme"
 import { hp } from "../helpers/common"
+import { ValidationError } from "./apiErrors"
 
 export type ErrorMessageType = {
   [key: string]: string[]
 }
 
 type Props = {
-  errorMessage: ErrorMessageType
+  errorMessage?: ErrorMessageType
+  // A caught error; only validation errors are rendered
+  error?: unknown
 }
 
-const ErrorMessage: React.FC<Props> = ({ errorMessage }) => {
+const ErrorMessage: React.FC<Props> = ({ errorMessage: fieldErrors, error }) => {
+  const errorMessage = fieldErrors ?? (error instanceof ValidationError ? error.errors : undefined)
+
   if (!errorMessage || Object.keys(errorMessage).length === 0) {
     return null
   }
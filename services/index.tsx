@@ -1,103 +1,135 @@
-import axios, { type AxiosRequestConfig, type AxiosResponse } from "axios"
+import axios, { type AxiosInstance, type AxiosRequestConfig, type AxiosResponse } from "axios"
 import AsyncStorage from "@react-native-async-storage/async-storage"
 import { logger } from "./debug-utils"
+import { setupTokenRefreshInterceptor } from "./tokenRefresh"
+import { toApiError } from "./apiErrors"
+import { createApiClient } from "./apiClient"
+import endpoints from "./endpoints"
+import { getConfig, onConfigChange, type AppConfig } from "./config"
+import mockServer from "./mockServer"
 
 // Determine if we're in development mode
 const isDev = process.env.NODE_ENV === "development" // React Native's built-in development flag
 
-let BASE_URL = ""
-if (process.env.NODE_ENV === "development") {
-  // http://localhost:3001/api
-  BASE_URL = "https://ruby-rails-boilerplate-3s9t.onrender.com/api"
-} else {
-  BASE_URL = "https://ruby-rails-boilerplate-3s9t.onrender.com/api"
-}
+/**
+ * Create the axios instance for a backend
+ * @param config Config profile; the "mock" backend answers from the in-memory mock server
+ * @returns Instance with auth, logging, token refresh and error interceptors
+ */
+const createApiInstance = ({ apiUrl, backend, mock }: AppConfig): AxiosInstance => {
+  if (backend === "mock" && mock) {
+    mockServer.configure(mock)
+  }
 
-const API = axios.create({
-  baseURL: BASE_URL,
-  headers: {
-    "Content-Type": "application/json",
-    Accept: "application/json",
-    "x-lang": "EN",
-  },
-  timeout: 15000, // Add a reasonable timeout
-})
+  const instance = axios.create({
+    baseURL: apiUrl,
+    adapter: backend === "mock" ? mockServer.adapter : undefined,
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json",
+      "x-lang": "EN",
+    },
+    timeout: 15000, // Add a reasonable timeout
+  })
 
-// Enhanced request interceptor with debugging
-API.interceptors.request.use(
-  async (config) => {
-    try {
-      const token = await AsyncStorage.getItem("token")
-      const rememberToken = await AsyncStorage.getItem("remember_token")
+  // Enhanced request interceptor with debugging
+  instance.interceptors.request.use(
+    async (config) => {
+      try {
+        const token = await AsyncStorage.getItem("token")
+        const rememberToken = await AsyncStorage.getItem("remember_token")
 
-      if (token) {
-        if (config.headers) {
-          config.headers.Authorization = `Bearer ${token} ${rememberToken || ""}`
+        if (token) {
+          if (config.headers) {
+            config.headers.Authorization = `Bearer ${token} ${rememberToken || ""}`
+          }
         }
+
+        // Debug logging in development
+        if (isDev) {
+          const method = config.method?.toUpperCase() || "GET"
+          const url = config.url || ""
+          logger.info(`🚀 API Request: ${method} ${url}`, {
+            headers: config.headers,
+            params: config.params,
+            data: config.data,
+          })
+        }
+      } catch (error) {
+        logger.error("Error reading token from AsyncStorage", error)
       }
+      return config
+    },
+    (error) => {
+      logger.error("Request interceptor error", error)
+      return Promise.reject(error)
+    },
+  )
 
+  // Enhanced response interceptor with debugging
+  instance.interceptors.response.use(
+    (response: AxiosResponse) => {
       // Debug logging in development
       if (isDev) {
-        const method = config.method?.toUpperCase() || "GET"
-        const url = config.url || ""
-        logger.info(`🚀 API Request: ${method} ${url}`, {
-          headers: config.headers,
-          params: config.params,
-          data: config.data,
+        const method = response.config.method?.toUpperCase() || "GET"
+        const url = response.config.url || ""
+        logger.success(`✅ API Response: ${method} ${url}`, {
+          status: response.status,
+          data: response.data,
         })
       }
-    } catch (error) {
-      logger.error("Error reading token from AsyncStorage", error)
-    }
-    return config
-  },
-  (error) => {
-    logger.error("Request interceptor error", error)
-    return Promise.reject(error)
-  },
-)
-
-// Enhanced response interceptor with debugging
-API.interceptors.response.use(
-  (response: AxiosResponse) => {
-    // Debug logging in development
-    if (isDev) {
-      const method = response.config.method?.toUpperCase() || "GET"
-      const url = response.config.url || ""
-      logger.success(`✅ API Response: ${method} ${url}`, {
-        status: response.status,
-        data: response.data,
-      })
-    }
-    return response.data
-  },
-  (error) => {
-    // Enhanced error logging
-    if (isDev) {
-      if (error.response) {
-        // The request was made and the server responded with a status code
-        // that falls out of the range of 2xx
-        const method = error.config?.method?.toUpperCase() || "GET"
-        const url = error.config?.url || ""
-        logger.error(`❌ API Error ${error.response.status}: ${method} ${url}`, {
-          data: error.response.data,
-          headers: error.response.headers,
-        })
-      } else if (error.request) {
-        // The request was made but no response was received
-        const method = error.config?.method?.toUpperCase() || "GET"
-        const url = error.config?.url || ""
-        logger.error(`❌ API No Response: ${method} ${url}`, {
-          request: error.request,
-        })
-      } else {
-        // Something happened in setting up the request that triggered an Error
-        logger.error("API Error", error.message)
+      return response.data
+    },
+    (error) => {
+      // Enhanced error logging
+      if (isDev) {
+        if (error.response) {
+          // The request was made and the server responded with a status code
+          // that falls out of the range of 2xx
+          const method = error.config?.method?.toUpperCase() || "GET"
+          const url = error.config?.url || ""
+          logger.error(`❌ API Error ${error.response.status}: ${method} ${url}`, {
+            data: error.response.data,
+            headers: error.response.headers,
+          })
+        } else if (error.request) {
+          // The request was made but no response was received
+          const method = error.config?.method?.toUpperCase() || "GET"
+          const url = error.config?.url || ""
+          logger.error(`❌ API No Response: ${method} ${url}`, {
+            request: error.request,
+          })
+        } else {
+          // Something happened in setting up the request that triggered an Error
+          logger.error("API Error", error.message)
+        }
       }
-    }
-    return Promise.reject(error)
-  },
-)
+      return Promise.reject(error)
+    },
+  )
+
+  // Refresh expired access tokens and replay the requests that failed with 401
+  setupTokenRefreshInterceptor(instance)
+
+  // Registered last so the interceptors above still see the raw axios error.
+  // Every failed request rejects with an ApiError; cancelled requests are passed through untouched.
+  instance.interceptors.response.use(undefined, (error) =>
+    Promise.reject(axios.isCancel(error) ? error : toApiError(error)),
+  )
+
+  return instance
+}
+
+// Rebuilt when the backend profile changes: import it, don't keep a reference to it
+let API = createApiInstance(getConfig())
+
+// Typed request functions for every endpoint in the registry, e.g. `api.microposts.show({ params: { id } })`
+let api = createApiClient(API, endpoints)
+
+onConfigChange((config) => {
+  API = createApiInstance(config)
+  api = createApiClient(API, endpoints)
+})
 
 // Helper methods for common API operations
 const ApiService = {
@@ -157,5 +189,7 @@ const ApiService = {
 // For backward compatibility, export the API instance directly
 export { API }
 
+export { api }
+
 // Export the enhanced API service as the default export
 export default ApiService
@@ -1,6 +1,454 @@
+import AsyncStorage from "@react-native-async-storage/async-storage"
+import axios, { CanceledError } from "axios"
 import * as FileSystem from "expo-file-system"
 import * as ImageManipulator from "expo-image-manipulator"
-import { Platform } from "react-native"
+import { Image as ExpoImage } from "expo-image"
+import { createVideoPlayer, type VideoPlayer, type VideoThumbnail } from "expo-video"
+import * as VideoThumbnails from "expo-video-thumbnails"
+import { Image, Platform } from "react-native"
+import { encode as encodeBlurhash } from "blurhash"
+import { decode as decodeJpeg } from "jpeg-js"
+import { getBackend, type Backend } from "./backend"
+import { isApiError, isOfflineError } from "./apiErrors"
+import { logger } from "./debug-utils"
+import type { Attachment, AttachmentInput, AttachmentMeta } from "./micropostApi"
+import type { LocalAttachment } from "./outbox"
+import type { UploadSession } from "./uploadApi"
+
+export interface UploadProgress {
+  uri: string
+  // Bytes the server has, or is receiving
+  sent: number
+  total: number
+  // "paused" until the upload is tried again, e.g. once the device is back online
+  state: "uploading" | "retrying" | "paused" | "done"
+}
+
+// An image picked on the device
+export interface ImageSource {
+  uri: string
+  width?: number
+  height?: number
+  mimeType?: string
+  // EXIF tags, as given by the image picker with `exif: true`
+  exif?: Record<string, any> | null
+}
+
+export interface PrepareImageOptions {
+  // Longest side of the result in pixels
+  maxDimension?: number
+  // Size the result should fit in, in bytes
+  byteBudget?: number
+  // Send the original file, EXIF data such as the location included, when it needs no change
+  keepMetadata?: boolean
+}
+
+export interface PreparedImage extends AttachmentMeta {
+  uri: string
+  width: number
+  height: number
+  mimeType: string
+}
+
+// A video picked on the device
+export interface VideoSource {
+  uri: string
+  width?: number
+  height?: number
+  // In milliseconds, as given by the image picker
+  duration?: number | null
+}
+
+export interface PreparedVideo extends AttachmentMeta {
+  uri: string
+}
+
+type UploadListener = (uploads: UploadProgress[]) => void
+type UploadBackend = NonNullable<Backend["uploads"]>
+
+// Uploads started on the server, by file URI, so they resume where they stopped after a restart
+interface StoredUpload {
+  id: string
+  size: number
+}
+
+const UPLOADS_KEY = "uploads"
+const MAX_ATTEMPTS = 5
+const RETRY_DELAY = 1000
+const MAX_RETRY_DELAY = 30000
+
+const MAX_DIMENSION = 2048
+const BYTE_BUDGET = 1.5 * 1024 * 1024
+const QUALITY_STEPS = [0.9, 0.8, 0.7, 0.6, 0.5]
+// Applied to the size when the lowest quality is still over the budget
+const DOWNSCALE_STEP = 0.75
+const MAX_DOWNSCALES = 3
+const THUMBNAIL_DIMENSION = 320
+const THUMBNAIL_QUALITY = 0.5
+// Blurhashes only keep a few colors, so without native support they are computed from a tiny copy
+const BLURHASH_DIMENSION = 32
+// Poster frames are shown at the full width of the feed, so they are larger than image thumbnails
+const POSTER_DIMENSION = 640
+const POSTER_QUALITY = 0.7
+// Past the first frame, which is often black
+const POSTER_TIME = 1
+const VIDEO_LOAD_TIMEOUT = 10000
+
+// Clockwise rotation and mirroring that put an image with this EXIF orientation upright
+const ORIENTATION_FIXES: Record<number, { rotate: number; flip?: "horizontal" | "vertical" }> = {
+  2: { rotate: 0, flip: "horizontal" },
+  3: { rotate: 180 },
+  4: { rotate: 0, flip: "vertical" },
+  5: { rotate: 90, flip: "horizontal" },
+  6: { rotate: 90 },
+  7: { rotate: 270, flip: "horizontal" },
+  8: { rotate: 270 },
+}
+
+let storedUploads: Record<string, StoredUpload> | null = null
+const progress = new Map<string, UploadProgress>()
+const uploadListeners = new Set<UploadListener>()
+
+const loadUploads = async (): Promise<Record<string, StoredUpload>> => {
+  if (storedUploads) return storedUploads
+
+  try {
+    const stored = await AsyncStorage.getItem(UPLOADS_KEY)
+    storedUploads = stored ? JSON.parse(stored) : {}
+  } catch (error) {
+    logger.error("Error reading uploads from AsyncStorage", error)
+    storedUploads = {}
+  }
+
+  return storedUploads as Record<string, StoredUpload>
+}
+
+const saveUploads = async (next: Record<string, StoredUpload>) => {
+  storedUploads = next
+  try {
+    await AsyncStorage.setItem(UPLOADS_KEY, JSON.stringify(next))
+  } catch (error) {
+    logger.error("Error writing uploads to AsyncStorage", error)
+  }
+}
+
+const report = (uri: string, sent: number, total: number, state: UploadProgress["state"]) => {
+  progress.set(uri, { uri, sent: Math.min(sent, total), total, state })
+  const current = [...progress.values()]
+  uploadListeners.forEach((listener) => listener(current))
+}
+
+// Network failures, timeouts, rate limits and server errors may pass on a later attempt
+const isTransient = (error: unknown): boolean =>
+  isOfflineError(error) || (isApiError(error) && (error.status === 429 || error.status >= 500))
+
+// Exponential backoff with jitter: about 1s, 2s, 4s and 8s between attempts
+const retryDelay = (attempt: number) =>
+  Math.min(MAX_RETRY_DELAY, RETRY_DELAY * 2 ** (attempt - 1)) * (0.5 + Math.random() / 2)
+
+// Aborting rejects like an aborted request does, with a CanceledError (see axios.isCancel)
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CanceledError("Upload cancelled"))
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new CanceledError("Upload cancelled"))
+    }
+    // The signal outlives the sleep: don't leave a listener behind per retry
+    const timer = setTimeout(() => {
+      signal?.removeEventListener?.("abort", onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener?.("abort", onAbort, { once: true })
+  })
+
+const withRetry = async <T,>(request: () => Promise<T>, onRetry: () => void, signal?: AbortSignal): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request()
+    } catch (error) {
+      if (signal?.aborted || !isTransient(error) || attempt >= MAX_ATTEMPTS) throw error
+
+      logger.warn(`Upload request failed, retrying (attempt ${attempt} of ${MAX_ATTEMPTS})`, error)
+      onRetry()
+      await sleep(retryDelay(attempt), signal)
+    }
+  }
+}
+
+// Size scaled down so that neither side is over `max`, keeping the aspect ratio
+const fitWithin = (width: number, height: number, max: number) => {
+  const scale = Math.min(1, max / Math.max(width, height))
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) }
+}
+
+const imageSize = (uri: string) =>
+  new Promise<{ width: number; height: number }>((resolve, reject) =>
+    Image.getSize(uri, (width, height) => resolve({ width, height }), reject),
+  )
+
+const fileSize = async (uri: string): Promise<number | undefined> => {
+  try {
+    const info = await FileSystem.getInfoAsync(uri, { size: true })
+    return info.exists ? info.size : undefined
+  } catch {
+    return undefined
+  }
+}
+
+// Bytes of base64 data, as file reads and image manipulations return them
+const bytesOf = (base64: string) => {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let index = 0; index < binary.length; index++) bytes[index] = binary.charCodeAt(index)
+  return bytes
+}
+
+// Bytes of a file from `position`, read without loading the rest of the file
+const readChunk = async (uri: string, position: number, length: number): Promise<ArrayBuffer> => {
+  const base64 = await FileSystem.readAsStringAsync(uri, {
+    encoding: FileSystem.EncodingType.Base64,
+    position,
+    length,
+  })
+  return bytesOf(base64).buffer
+}
+
+// The fix an image still needs for its EXIF orientation, null when it is upright as decoded
+const orientationFix = (source: ImageSource, width: number, height: number) => {
+  const fix = ORIENTATION_FIXES[Number(source.exif?.Orientation)]
+  if (!fix) return null
+
+  // Decoders that apply the orientation report quarter turns with the stored width and height swapped
+  const storedWidth = Number(source.exif?.PixelXDimension ?? source.exif?.ImageWidth)
+  const storedHeight = Number(source.exif?.PixelYDimension ?? source.exif?.ImageLength)
+  if (fix.rotate % 180 !== 0 && storedWidth > 0 && storedHeight > 0 && storedWidth !== storedHeight) {
+    return width === storedHeight && height === storedWidth ? null : fix
+  }
+  // Without a size to compare: iOS decodes images upright, Android as they are stored
+  return Platform.OS === "ios" ? null : fix
+}
+
+// Blurhash of an image: native on iOS, encoded from a tiny decoded JPEG elsewhere
+const blurhashOf = async (uri: string, width: number, height: number): Promise<string | undefined> => {
+  const [componentX, componentY] = width >= height ? [4, 3] : [3, 4]
+  if (Platform.OS === "ios") return (await ExpoImage.generateBlurhashAsync(uri, [componentX, componentY])) ?? undefined
+
+  const tiny = await ImageManipulator.manipulateAsync(uri, [{ resize: fitWithin(width, height, BLURHASH_DIMENSION) }], {
+    format: ImageManipulator.SaveFormat.JPEG,
+    base64: true,
+  })
+  if (!tiny.base64) return undefined
+  const pixels = decodeJpeg(bytesOf(tiny.base64), { useTArray: true, formatAsRGBA: true })
+  return encodeBlurhash(new Uint8ClampedArray(pixels.data), pixels.width, pixels.height, componentX, componentY)
+}
+
+// Small JPEG and blurhash shown while the full image loads
+const placeholdersOf = async (uri: string, width: number, height: number): Promise<AttachmentMeta> => {
+  const meta: AttachmentMeta = {}
+  try {
+    const size = fitWithin(width, height, THUMBNAIL_DIMENSION)
+    const thumbnail = await ImageManipulator.manipulateAsync(uri, [{ resize: { width: size.width } }], {
+      compress: THUMBNAIL_QUALITY,
+      format: ImageManipulator.SaveFormat.JPEG,
+      base64: true,
+    })
+    if (thumbnail.base64) meta.thumbnail = `data:image/jpeg;base64,${thumbnail.base64}`
+    meta.blurhash = await blurhashOf(thumbnail.uri, thumbnail.width, thumbnail.height)
+  } catch (error) {
+    logger.warn("Error making the placeholder of an image", error)
+  }
+  return meta
+}
+
+// Resolves once the player has loaded its video; rejects when it fails or takes too long
+const whenLoaded = (player: VideoPlayer): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (player.status === "readyToPlay") return resolve()
+
+    const timer = setTimeout(() => {
+      subscription.remove()
+      reject(new Error("Timed out loading the video"))
+    }, VIDEO_LOAD_TIMEOUT)
+    const subscription = player.addListener("statusChange", ({ status, error }) => {
+      if (status !== "readyToPlay" && status !== "error") return
+      clearTimeout(timer)
+      subscription.remove()
+      if (status === "readyToPlay") resolve()
+      else reject(new Error(error?.message || "Error loading the video"))
+    })
+  })
+
+interface VideoFrame {
+  image: VideoThumbnail | string
+  width: number
+  height: number
+}
+
+// Frame of a video at `time` seconds: iOS takes it from the loaded player, Android reads it from the file
+const frameOf = async (player: VideoPlayer, uri: string, time: number): Promise<VideoFrame> => {
+  if (Platform.OS === "ios") {
+    const [frame] = await player.generateThumbnailsAsync(time)
+    return { image: frame, width: frame.width, height: frame.height }
+  }
+  const frame = await VideoThumbnails.getThumbnailAsync(uri, { time: Math.round(time * 1000) })
+  return { image: frame.uri, width: frame.width, height: frame.height }
+}
+
+// Poster frame of a loaded video as a JPEG data URI, with its blurhash
+const posterOf = async (player: VideoPlayer, uri: string): Promise<AttachmentMeta> => {
+  const time = player.duration > 0 ? Math.min(POSTER_TIME, player.duration / 2) : 0
+  const frame = await frameOf(player, uri, time)
+  const size = fitWithin(frame.width, frame.height, POSTER_DIMENSION)
+  const rendered = await ImageManipulator.ImageManipulator.manipulate(frame.image).resize(size).renderAsync()
+  const poster = await rendered.saveAsync({
+    compress: POSTER_QUALITY,
+    format: ImageManipulator.SaveFormat.JPEG,
+    base64: true,
+  })
+
+  const meta: AttachmentMeta = { width: frame.width, height: frame.height }
+  if (poster.base64) meta.thumbnail = `data:image/jpeg;base64,${poster.base64}`
+  meta.blurhash = await blurhashOf(poster.uri, poster.width, poster.height)
+  return meta
+}
+
+interface EncodedImage {
+  uri: string
+  width: number
+  height: number
+  format: string
+}
+
+// Encode an image at lower and lower quality, then size, until it fits the byte budget.
+// An image still over the budget at the smallest size is returned anyway, and left to the server.
+const encodeWithinBudget = async (
+  uri: string,
+  mimeType: string,
+  orient: ImageManipulator.Action[],
+  upright: { width: number; height: number },
+  maxDimension: number,
+  byteBudget: number,
+): Promise<EncodedImage> => {
+  // Graphics such as screenshots stay lossless when they fit
+  const formats =
+    mimeType === "image/png"
+      ? [ImageManipulator.SaveFormat.PNG, ImageManipulator.SaveFormat.JPEG]
+      : [ImageManipulator.SaveFormat.JPEG]
+  let target = fitWithin(upright.width, upright.height, maxDimension)
+  let result: EncodedImage | null = null
+
+  for (let downscale = 0; downscale <= MAX_DOWNSCALES; downscale++) {
+    const actions = target.width < upright.width ? [...orient, { resize: { width: target.width } }] : orient
+    for (const format of formats) {
+      for (const compress of format === ImageManipulator.SaveFormat.PNG ? [1] : QUALITY_STEPS) {
+        const encoded = await ImageManipulator.manipulateAsync(uri, actions, { compress, format })
+        result = { uri: encoded.uri, width: encoded.width, height: encoded.height, format }
+
+        // Sizes cannot be read everywhere (e.g. web); the first encoding is kept then
+        const size = await fileSize(encoded.uri)
+        if (size === undefined || size <= byteBudget) return result
+      }
+    }
+    target = fitWithin(target.width, target.height, Math.max(target.width, target.height) * DOWNSCALE_STEP)
+  }
+
+  return result as EncodedImage
+}
+
+// Resume the upload of a file the server already has part of, or start a new one
+const openUpload = async (
+  uploads: UploadBackend,
+  file: LocalAttachment,
+  size: number,
+  onRetry: () => void,
+  signal?: AbortSignal,
+): Promise<UploadSession> => {
+  const known = (await loadUploads())[file.uri]
+  if (known?.size === size) {
+    try {
+      return await withRetry(() => uploads.status(known.id), onRetry, signal)
+    } catch (error) {
+      if (!isApiError(error, "notFound")) throw error
+      logger.info(`Upload ${known.id} is gone from the server, starting over`)
+    }
+  }
+
+  const { name, type } = mediaService.getFileInfo(file.uri)
+  const session = await withRetry(
+    () =>
+      uploads.start({
+        filename: name,
+        type: file.type,
+        mime_type: type,
+        size,
+        width: file.width,
+        height: file.height,
+        blurhash: file.blurhash,
+        thumbnail: file.thumbnail,
+        duration: file.duration,
+      }),
+    onRetry,
+    signal,
+  )
+  await saveUploads({ ...(await loadUploads()), [file.uri]: { id: session.id, size } })
+  return session
+}
+
+// Send a file chunk by chunk, from wherever the server is
+const uploadInChunks = async (
+  uploads: UploadBackend,
+  file: LocalAttachment,
+  signal?: AbortSignal,
+): Promise<Attachment> => {
+  const total = await fileSize(file.uri)
+  if (total === undefined) throw new Error(`Cannot read the size of ${file.uri}`)
+  // Bytes the server has confirmed
+  let confirmed = 0
+  const onRetry = () => report(file.uri, confirmed, total, "retrying")
+
+  try {
+    let session = await openUpload(uploads, file, total, onRetry, signal)
+    confirmed = session.offset
+    report(file.uri, confirmed, total, "uploading")
+
+    while (!session.attachment) {
+      const { id, offset, chunk_size: chunkSize }: UploadSession = session
+      const chunk = await readChunk(file.uri, offset, Math.min(chunkSize, total - offset))
+      try {
+        session = await withRetry(
+          () =>
+            uploads.sendChunk(id, offset, chunk, {
+              signal,
+              onProgress: (sent) => report(file.uri, offset + sent, total, "uploading"),
+            }),
+          onRetry,
+          signal,
+        )
+      } catch (error) {
+        // The server is somewhere else in the file, e.g. it got a chunk whose response was lost
+        if (!isApiError(error) || error.status !== 409) throw error
+        session = await withRetry(() => uploads.status(id), onRetry, signal)
+      }
+      confirmed = session.offset
+      report(file.uri, confirmed, total, "uploading")
+    }
+
+    report(file.uri, total, total, "done")
+    return session.attachment
+  } catch (error) {
+    if (isTransient(error) || axios.isCancel(error)) {
+      report(file.uri, confirmed, total, "paused")
+    } else {
+      // Retrying from where it stopped will not help; the next attempt starts over
+      await mediaService.forgetUploads([file])
+    }
+    throw error
+  }
+}
 
 /**
  * Media Service
@@ -8,7 +456,7 @@ import { Platform } from "react-native"
  */
 const mediaService = {
   /**
-   * Compress an image file
+   * Compress an image file, keeping its aspect ratio
    * @param uri Image URI
    * @param quality Compression quality (0-1)
    * @param maxWidth Maximum width
@@ -17,7 +465,10 @@ const mediaService = {
    */
   async compressImage(uri: string, quality = 0.7, maxWidth = 1200, maxHeight = 1200): Promise<string> {
     try {
-      const result = await ImageManipulator.manipulateAsync(uri, [{ resize: { width: maxWidth, height: maxHeight } }], {
+      const { width, height } = await imageSize(uri)
+      const scale = Math.min(1, maxWidth / width, maxHeight / height)
+      const actions = scale < 1 ? [{ resize: { width: Math.round(width * scale) } }] : []
+      const result = await ImageManipulator.manipulateAsync(uri, actions, {
         compress: quality,
         format: ImageManipulator.SaveFormat.JPEG,
       })
@@ -28,6 +479,76 @@ const mediaService = {
     }
   },
 
+  /**
+   * Prepare a picked image for a post.
+   * Applies the EXIF orientation, scales it down keeping the aspect ratio, and lowers the quality (then the size)
+   * until it fits the byte budget. Re-encoding writes no EXIF data, so the location and camera details are dropped.
+   * Also makes the thumbnail and blurhash shown while the image loads.
+   * @param source Picked image
+   * @param options Size limits, and whether to keep the metadata of images that need no change
+   * @returns Promise with the image to send and its placeholders
+   */
+  async prepareImage(source: ImageSource, options: PrepareImageOptions = {}): Promise<PreparedImage> {
+    const { maxDimension = MAX_DIMENSION, byteBudget = BYTE_BUDGET, keepMetadata = false } = options
+    const { width, height } =
+      source.width && source.height ? { width: source.width, height: source.height } : await imageSize(source.uri)
+    const mimeType = source.mimeType || this.getFileInfo(source.uri).type
+
+    const fix = orientationFix(source, width, height)
+    const upright = fix && fix.rotate % 180 !== 0 ? { width: height, height: width } : { width, height }
+    const orient: ImageManipulator.Action[] = []
+    if (fix?.rotate) orient.push({ rotate: fix.rotate })
+    if (fix?.flip) {
+      orient.push({
+        flip: fix.flip === "horizontal" ? ImageManipulator.FlipType.Horizontal : ImageManipulator.FlipType.Vertical,
+      })
+    }
+
+    if (keepMetadata && !fix && Math.max(width, height) <= maxDimension) {
+      const size = await fileSize(source.uri)
+      if (size !== undefined && size <= byteBudget) {
+        return { uri: source.uri, width, height, mimeType, ...(await placeholdersOf(source.uri, width, height)) }
+      }
+    }
+
+    const prepared = await encodeWithinBudget(source.uri, mimeType, orient, upright, maxDimension, byteBudget)
+    return {
+      uri: prepared.uri,
+      width: prepared.width,
+      height: prepared.height,
+      mimeType: prepared.format === ImageManipulator.SaveFormat.PNG ? "image/png" : "image/jpeg",
+      ...(await placeholdersOf(prepared.uri, prepared.width, prepared.height)),
+    }
+  },
+
+  /**
+   * Prepare a picked video for a post: reads its length and size, and makes its poster frame and blurhash.
+   * Only iOS and Android can take frames from a video; on the web the video is sent without a poster.
+   * @param source Picked video
+   * @returns Promise with the video and what is known about it
+   */
+  async prepareVideo(source: VideoSource): Promise<PreparedVideo> {
+    const prepared: PreparedVideo = {
+      uri: source.uri,
+      width: source.width || undefined,
+      height: source.height || undefined,
+      duration: source.duration ? source.duration / 1000 : undefined,
+    }
+
+    const player = createVideoPlayer(source.uri)
+    try {
+      await whenLoaded(player)
+      if (player.duration > 0) prepared.duration = player.duration
+      if (Platform.OS === "ios" || Platform.OS === "android")
+        Object.assign(prepared, await posterOf(player, source.uri))
+    } catch (error) {
+      logger.warn("Error making the poster of a video", error)
+    } finally {
+      player.release()
+    }
+    return prepared
+  },
+
   /**
    * Get file info from URI
    * @param uri File URI
@@ -92,6 +613,65 @@ const mediaService = {
     return formData
   },
 
+  /**
+   * Upload the files of a post before sending it.
+   * Files go in chunks that survive network loss and app restarts, each request retried with backoff;
+   * with a backend that takes files whole, they are read into blobs to send with the post instead.
+   * @param files Files picked on the device, in display order
+   * @param options Abort signal
+   * @returns Promise with the attachments to send with the post
+   */
+  async uploadAttachments(
+    files: LocalAttachment[],
+    { signal }: { signal?: AbortSignal } = {},
+  ): Promise<AttachmentInput[]> {
+    const uploads = getBackend().uploads
+    const inputs: AttachmentInput[] = []
+
+    // One at a time, so the first files of the post are done first
+    for (const file of files) {
+      if (uploads) {
+        const attachment = await uploadInChunks(uploads, file, signal)
+        inputs.push({ id: attachment.id, alt: file.alt })
+      } else {
+        const { uri, type, alt, width, height, blurhash, thumbnail, duration } = file
+        const blob = await (await fetch(uri)).blob()
+        inputs.push({ file: blob, type, alt, width, height, blurhash, thumbnail, duration })
+      }
+    }
+
+    return inputs
+  },
+
+  /**
+   * Drop the uploads of files once their post is sent; until then they are resumed, or reused when finished
+   * @param files Files of the post
+   */
+  async forgetUploads(files: LocalAttachment[]): Promise<void> {
+    const next = { ...(await loadUploads()) }
+    files.forEach((file) => {
+      delete next[file.uri]
+      progress.delete(file.uri)
+    })
+    await saveUploads(next)
+
+    const current = [...progress.values()]
+    uploadListeners.forEach((listener) => listener(current))
+  },
+
+  /**
+   * Listen for the progress of uploads
+   * @param listener Called with every upload in progress after each change
+   * @returns Function removing the listener
+   */
+  subscribeUploads(listener: UploadListener): () => void {
+    uploadListeners.add(listener)
+    listener([...progress.values()])
+    return () => {
+      uploadListeners.delete(listener)
+    }
+  },
+
   /**
    * Download a file to local storage
    * @param uri Remote file URI
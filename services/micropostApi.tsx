@@ -1,10 +1,21 @@
-import API from "."
-import type { ErrorMessageType } from "./errorMessages"
+import { api } from "."
+import queryCache, { type QueryKey } from "./queryCache"
+import type { PostFormat } from "../helpers/postFormat"
 
+// Posts per feed request
+export const FEED_PAGE_SIZE = 5
+
+/**
+ * Feed query. Pages by number (`page`) or by cursor:
+ * `before` returns the newest posts older than that post ID, `after` the newest posts newer than it.
+ * Both together return the newest posts in between. Results are always newest first.
+ */
 export interface ListParams {
   page?: number
   limit?: number
   offset?: number
+  before?: number
+  after?: number
   [key: string]: any
 }
 
@@ -17,11 +28,53 @@ export interface ListResponse<Micropost> {
   total_count: number
 }
 
+// Most files a post can carry
+export const MAX_ATTACHMENTS = 10
+
+export type AttachmentType = "image" | "video"
+
+// A file of a post
+export interface Attachment {
+  readonly id: number
+  url: string
+  type: AttachmentType
+  // Description for screen readers
+  alt?: string
+  // Size in pixels, to lay the file out before it loads
+  width?: number
+  height?: number
+  // Blurred placeholder shown while the file loads
+  blurhash?: string
+  // Poster frame of videos
+  thumbnail_url?: string
+  // Length of videos, in seconds
+  duration?: number
+}
+
+// What the app works out about a new file before sending it (see mediaService.prepareImage and prepareVideo)
+export interface AttachmentMeta {
+  width?: number
+  height?: number
+  blurhash?: string
+  // Small JPEG as a data URI; the poster frame of videos
+  thumbnail?: string
+  // Length of videos, in seconds
+  duration?: number
+}
+
+// An attachment to send: a new file, or one already on the server by ID (kept from the post, or a finished upload)
+export type AttachmentInput =
+  ({ file: Blob; type: AttachmentType; alt?: string } & AttachmentMeta) | { id: number; alt?: string }
+
 export interface Micropost {
   readonly id: number
   content: string
+  format?: PostFormat
   gravatar_id?: string
+  // First image, from servers that predate attachments
   image?: string
+  // In display order
+  attachments?: Attachment[]
   size?: number
   timestamp: string
   created_at?: string
@@ -45,14 +98,29 @@ export interface Micropost {
   comments?: Array<{ count: number }>
 }
 
+export interface Comment {
+  readonly id: number
+  content: string
+  user?: {
+    id: string
+    name: string
+    avatar?: string
+  }
+  created_at: string
+  timestamp?: string
+}
+
 export interface CreateMicropostParams {
   content: string
-  image?: File | Blob
+  format?: PostFormat
+  // Up to MAX_ATTACHMENTS, in display order; on update they replace the post's attachments
+  attachments?: AttachmentInput[]
+  // Users mentioned in the content, notified by the server
+  mentionIds?: string[]
 }
 
 export interface CreateResponse {
   flash?: [message_type: string, message: string]
-  error?: ErrorMessageType
 }
 
 export interface Response {
@@ -61,6 +129,45 @@ export interface Response {
   message?: string
 }
 
+const MULTIPART = { headers: { "Content-Type": "multipart/form-data" } }
+
+// Feed pages go stale sooner than single posts: new posts keep coming in
+const FEED_STALE_TIME = 15000
+
+// Cache keys a change to one post invalidates: the post itself and the feed pages showing it
+const postKeys = (id: number): QueryKey[] => [["microposts.show", { id }], ["microposts.feed"]]
+
+const META_FIELDS = ["width", "height", "blurhash", "thumbnail", "duration"] as const
+
+const hasUploads = (params: Partial<CreateMicropostParams>) =>
+  params.attachments?.some((attachment) => "file" in attachment) || false
+
+// Multipart body of a post with new files: attachments are sent as an indexed array, in display order
+const toFormData = (params: Partial<CreateMicropostParams>): FormData => {
+  const formData = new FormData()
+  if (params.content !== undefined) formData.append("content", params.content)
+  if (params.format) formData.append("format", params.format)
+  params.mentionIds?.forEach((id) => formData.append("mention_ids[]", id))
+  params.attachments?.forEach((attachment, index) => {
+    const field = `attachments[${index}]`
+    if ("file" in attachment) {
+      formData.append(`${field}[file]`, attachment.file)
+      formData.append(`${field}[type]`, attachment.type)
+      META_FIELDS.forEach((name) => {
+        if (attachment[name] !== undefined) formData.append(`${field}[${name}]`, String(attachment[name]))
+      })
+    } else {
+      formData.append(`${field}[id]`, String(attachment.id))
+    }
+    if (attachment.alt) formData.append(`${field}[alt]`, attachment.alt)
+  })
+  return formData
+}
+
+// Attachments the post already has, or finished uploads, as sent in a JSON body
+const keptAttachments = (attachments?: AttachmentInput[]) =>
+  attachments?.flatMap((attachment) => ("id" in attachment ? [{ id: attachment.id, alt: attachment.alt }] : []))
+
 /**
  * Micropost API service
  * Provides methods to interact with microposts
@@ -68,12 +175,22 @@ export interface Response {
 const micropostApi = {
   /**
    * Get all microposts with pagination
-   * @param params Pagination and filter parameters
+   * @param params Page number or `before`/`after` cursors, and filters
    * @returns Promise with list of microposts and metadata
    */
   getAll(params: ListParams): Promise<ListResponse<Micropost>> {
-    const url = ""
-    return API.get(url, { params })
+    return queryCache.fetch(
+      ["microposts.feed", params],
+      async () => {
+        const response = await api.microposts.feed({ query: params })
+        // Opening one of these posts needs no request
+        response.feed_items.forEach((micropost) =>
+          queryCache.setData(["microposts.show", { id: micropost.id }], micropost),
+        )
+        return response
+      },
+      { staleTime: FEED_STALE_TIME },
+    )
   },
 
   /**
@@ -82,59 +199,56 @@ const micropostApi = {
    * @returns Promise with micropost data
    */
   getById(id: number): Promise<Micropost> {
-    const url = `/microposts/${id}`
-    return API.get(url)
+    return queryCache.fetch(["microposts.show", { id }], () => api.microposts.show({ params: { id } }))
   },
 
   /**
    * Create a new micropost
-   * @param params Micropost content and optional image
+   * @param params Micropost content and optional attachments
    * @returns Promise with created micropost
    */
   create(params: CreateMicropostParams): Promise<Micropost> {
-    const url = "/microposts"
-
-    // If there's an image, use FormData
-    if (params.image) {
-      const formData = new FormData()
-      formData.append("content", params.content)
-      formData.append("image", params.image)
-
-      return API.post(url, formData, {
-        headers: {
-          "Content-Type": "multipart/form-data",
-        },
-      })
+    // Files go as multipart, everything else as JSON
+    if (hasUploads(params)) {
+      return queryCache.afterMutation(api.microposts.create({ body: toFormData(params), config: MULTIPART }), [
+        "microposts.feed",
+      ])
     }
 
-    // Otherwise, just send JSON
-    return API.post(url, { content: params.content })
+    return queryCache.afterMutation(
+      api.microposts.create({
+        body: {
+          content: params.content,
+          format: params.format,
+          attachments: keptAttachments(params.attachments),
+          mention_ids: params.mentionIds,
+        },
+      }),
+      ["microposts.feed"],
+    )
   },
 
   /**
    * Update an existing micropost
    * @param id Micropost ID
-   * @param params Updated content and optional image
+   * @param params Updated content, and the attachments to keep, reorder or add
    * @returns Promise with updated micropost
    */
   update(id: number, params: Partial<CreateMicropostParams>): Promise<Micropost> {
-    const url = `/microposts/${id}`
-
-    // If there's an image, use FormData
-    if (params.image) {
-      const formData = new FormData()
-      if (params.content) formData.append("content", params.content)
-      formData.append("image", params.image)
-
-      return API.put(url, formData, {
-        headers: {
-          "Content-Type": "multipart/form-data",
-        },
-      })
+    if (hasUploads(params)) {
+      return queryCache.afterMutation(
+        api.microposts.update({ params: { id }, body: toFormData(params), config: MULTIPART }),
+        ...postKeys(id),
+      )
     }
 
-    // Otherwise, just send JSON
-    return API.put(url, params)
+    return queryCache.afterMutation(
+      api.microposts.update({
+        params: { id },
+        body: { content: params.content, format: params.format, attachments: keptAttachments(params.attachments) },
+      }),
+      ...postKeys(id),
+    )
   },
 
   /**
@@ -143,8 +257,7 @@ const micropostApi = {
    * @returns Promise with response
    */
   remove(id: number): Promise<Response> {
-    const url = `/microposts/${id}`
-    return API.delete(url)
+    return queryCache.afterMutation(api.microposts.destroy({ params: { id } }), ...postKeys(id))
   },
 
   /**
@@ -153,8 +266,7 @@ const micropostApi = {
    * @returns Promise with response
    */
   like(id: number): Promise<Response> {
-    const url = `/microposts/${id}/like`
-    return API.post(url, {})
+    return queryCache.afterMutation(api.microposts.like({ params: { id }, body: {} }), ...postKeys(id))
   },
 
   /**
@@ -163,8 +275,7 @@ const micropostApi = {
    * @returns Promise with response
    */
   unlike(id: number): Promise<Response> {
-    const url = `/microposts/${id}/unlike`
-    return API.delete(url)
+    return queryCache.afterMutation(api.microposts.unlike({ params: { id } }), ...postKeys(id))
   },
 
   /**
@@ -173,9 +284,10 @@ const micropostApi = {
    * @param params Pagination parameters
    * @returns Promise with comments
    */
-  getComments(id: number, params?: ListParams): Promise<any> {
-    const url = `/microposts/${id}/comments`
-    return API.get(url, { params })
+  getComments(id: number, params?: ListParams): Promise<Comment[]> {
+    return queryCache.fetch(["microposts.comments", { id, ...params }], () =>
+      api.microposts.comments({ params: { id }, query: params }),
+    )
   },
 
   /**
@@ -184,9 +296,12 @@ const micropostApi = {
    * @param content Comment content
    * @returns Promise with created comment
    */
-  addComment(id: number, content: string): Promise<any> {
-    const url = `/microposts/${id}/comments`
-    return API.post(url, { content })
+  addComment(id: number, content: string): Promise<Comment> {
+    return queryCache.afterMutation(
+      api.microposts.addComment({ params: { id }, body: { content } }),
+      ["microposts.comments", { id }],
+      ...postKeys(id),
+    )
   },
 
   /**
@@ -200,8 +315,11 @@ const micropostApi = {
       // Map fields to match PostCard expectations
       body: micropost.content,
       file: micropost.image,
+      attachments:
+        micropost.attachments ?? (micropost.image ? [{ id: micropost.id, url: micropost.image, type: "image" }] : []),
       userId: micropost.user_id,
-      user: {
+      // The Supabase backend already sends the author
+      user: micropost.user || {
         id: micropost.user_id,
         name: micropost.user_name || "User",
         avatar: micropost.gravatar_id ? `https://www.gravatar.com/avatar/${micropost.gravatar_id}?s=200` : undefined,
@@ -0,0 +1,248 @@
+/**
+ * Mock data
+ * Seed records of the mock server (see mockServer.ts). Every seeded account signs in with the password "password".
+ */
+
+import type { PostFormat } from "../helpers/postFormat"
+import type { Attachment, AttachmentMeta, AttachmentType } from "./micropostApi"
+
+export interface MockUser {
+  readonly id: string
+  name: string
+  email: string
+  password: string
+  gravatar_id: string
+  avatar?: string
+  bio?: string
+  address?: string
+  phoneNumber?: string
+  admin: boolean
+  activated: boolean
+  createdAt: string
+}
+
+export interface MockPost {
+  readonly id: number
+  userId: string
+  content: string
+  format?: PostFormat
+  attachments: Attachment[]
+  createdAt: string
+  updatedAt: string
+}
+
+export interface MockComment {
+  readonly id: number
+  postId: number
+  userId: string
+  content: string
+  createdAt: string
+}
+
+export interface MockNotification {
+  readonly id: number
+  receiverId: string
+  senderId: string
+  title: string
+  postId: number
+  commentId?: number
+  read: boolean
+  createdAt: string
+}
+
+// A chunked upload; dropped once a post uses its attachment
+export interface MockUpload {
+  readonly id: string
+  userId: string
+  type: AttachmentType
+  size: number
+  offset: number
+  // Sent when the upload started, kept for its attachment
+  meta: AttachmentMeta
+  attachment?: Attachment
+}
+
+export interface MockDb {
+  users: MockUser[]
+  posts: MockPost[]
+  likes: Array<{ postId: number; userId: string }>
+  comments: MockComment[]
+  follows: Array<{ followerId: string; followedId: string }>
+  notifications: MockNotification[]
+  uploads: MockUpload[]
+  // Access and refresh tokens handed out by /login and /refresh-token, mapped to user IDs
+  accessTokens: Record<string, string>
+  refreshTokens: Record<string, string>
+  nextId: number
+}
+
+export const MOCK_PASSWORD = "password"
+
+// Fixed clock so seeded timestamps do not depend on when the server started
+const SEED_TIME = Date.parse("2025-01-15T12:00:00.000Z")
+
+const minutesAgo = (minutes: number) => new Date(SEED_TIME - minutes * 60 * 1000).toISOString()
+
+const USERS: Array<Pick<MockUser, "name" | "email" | "bio">> = [
+  { name: "Demo User", email: "demo@example.com", bio: "Trying out the app" },
+  { name: "Alice Martin", email: "alice@example.com", bio: "Coffee, code and cats" },
+  { name: "Bob Nguyen", email: "bob@example.com", bio: "Weekend photographer" },
+  { name: "Carla Diaz", email: "carla@example.com", bio: "Runner and bookworm" },
+  { name: "Dan Okafor", email: "dan@example.com" },
+  { name: "Eva Schmidt", email: "eva@example.com", bio: "Hiking every Sunday" },
+]
+
+// HTML posts, and some written in another format on the web client
+const POST_CONTENTS: Array<string | { content: string; format: PostFormat }> = [
+  "Just shipped a new feature, feeling great! #shipping",
+  "Anyone up for a coffee this afternoon? #coffee",
+  "Finished reading a wonderful book today. #books #reading",
+  "The sunset was amazing tonight.",
+  "Trying a new recipe, wish me luck. #cooking",
+  "Morning run done: 10k in the rain. #running",
+  "Rewrote my side project for the third time. #shipping #sideproject",
+  "Weekend plans: nothing at all. #coffee #books",
+  {
+    content:
+      "**Release notes** for this week:\n\n- a faster feed\n- *much* better search\n\nMore on [the blog](https://example.com/blog). #shipping",
+    format: "markdown",
+  },
+]
+
+// Placeholders of the seed photos, from the Blurhash examples
+const SEED_BLURHASHES = [
+  "LEHV6nWB2yk8pyo0adR*.7kCMdnj",
+  "LGF5]+Yk^6#M@-5c,1J5@[or[Q6.",
+  "L6PZfSi_.AyE_3t7t7R**0o#DgR4",
+  "LKO2?U%2Tw=w]~RBVZRi};RPxuwH",
+]
+
+// Stands in for uploaded videos, and is the video of the seed posts
+export const SAMPLE_VIDEO_URL = "https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/BigBuckBunny.mp4"
+const SAMPLE_VIDEO_POSTER = "https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/images/BigBuckBunny.jpg"
+const SAMPLE_VIDEO_DURATION = 596
+
+// Every fifth post has an image, every tenth a whole gallery, and every seventh otherwise a video;
+// seed attachment IDs stay below the generated ones. Galleries start with a portrait photo.
+const seedAttachments = (postId: number): Attachment[] => {
+  const count = postId % 10 === 0 ? 3 : postId % 5 === 0 ? 1 : 0
+  if (count === 0 && postId % 7 === 0) {
+    return [
+      {
+        id: postId * 10,
+        url: SAMPLE_VIDEO_URL,
+        type: "video",
+        alt: `Video of post ${postId}`,
+        width: 1280,
+        height: 720,
+        thumbnail_url: SAMPLE_VIDEO_POSTER,
+        duration: SAMPLE_VIDEO_DURATION,
+      },
+    ]
+  }
+
+  return Array.from({ length: count }, (_, index) => {
+    const [width, height] = count > 1 && index === 0 ? [480, 600] : [600, 400]
+    const seed = `mock-${postId}-${index}`
+    return {
+      id: postId * 10 + index,
+      url: `https://picsum.photos/seed/${seed}/${width}/${height}`,
+      type: "image",
+      alt: `Photo ${index + 1} of post ${postId}`,
+      width,
+      height,
+      blurhash: SEED_BLURHASHES[(postId + index) % SEED_BLURHASHES.length],
+      thumbnail_url: `https://picsum.photos/seed/${seed}/${width / 10}/${height / 10}`,
+    }
+  })
+}
+
+/**
+ * Build a fresh set of seed records
+ * @returns Database with users, posts, likes, comments, follows and notifications
+ */
+export const createSeedDb = (): MockDb => {
+  const users: MockUser[] = USERS.map((user, index) => ({
+    ...user,
+    id: String(index + 1),
+    password: MOCK_PASSWORD,
+    gravatar_id: `mock-${index + 1}`,
+    admin: index === 0,
+    activated: true,
+    createdAt: minutesAgo(60 * 24 * 30),
+  }))
+
+  // Four posts per user; IDs grow with time like on the server
+  const posts: MockPost[] = []
+  const postCount = 4 * users.length
+  for (let round = 0; round < 4; round++) {
+    users.forEach((user, index) => {
+      const id = posts.length + 1
+      const createdAt = minutesAgo((postCount - id) * 45 + 5)
+      const seed = POST_CONTENTS[(round * users.length + index) % POST_CONTENTS.length]
+      posts.push({
+        id,
+        userId: user.id,
+        ...(typeof seed === "string" ? { content: seed } : seed),
+        attachments: seedAttachments(id),
+        createdAt,
+        updatedAt: createdAt,
+      })
+    })
+  }
+
+  const likes = posts
+    .filter((post) => post.id % 2 === 0)
+    .flatMap((post) =>
+      users
+        .filter((user) => user.id !== post.userId && Number(user.id) % 3 !== post.id % 3)
+        .map((user) => ({
+          postId: post.id,
+          userId: user.id,
+        })),
+    )
+
+  // Every post of the demo user gets a comment
+  const comments: MockComment[] = posts
+    .filter((post) => post.id % 3 === 1)
+    .map((post, index) => ({
+      id: index + 1,
+      postId: post.id,
+      userId: users[(index + 1) % users.length].id,
+      content: "Nice one!",
+      createdAt: post.createdAt,
+    }))
+
+  // The demo user follows everybody; the others follow the demo user back and their neighbour
+  const follows = users.slice(1).flatMap((user, index) => [
+    { followerId: "1", followedId: user.id },
+    { followerId: user.id, followedId: "1" },
+    { followerId: user.id, followedId: users[((index + 2) % (users.length - 1)) + 1].id },
+  ])
+
+  const notifications: MockNotification[] = comments
+    .filter((comment) => posts.find((post) => post.id === comment.postId)?.userId === "1")
+    .map((comment, index) => ({
+      id: index + 1,
+      receiverId: "1",
+      senderId: comment.userId,
+      title: "commented on your post",
+      postId: comment.postId,
+      commentId: comment.id,
+      read: index > 0,
+      createdAt: comment.createdAt,
+    }))
+
+  return {
+    users,
+    posts,
+    likes,
+    comments,
+    follows,
+    notifications,
+    uploads: [],
+    accessTokens: {},
+    refreshTokens: {},
+    nextId: 1000,
+  }
+}
@@ -0,0 +1,982 @@
+import { AxiosError, CanceledError, type AxiosAdapter, type InternalAxiosRequestConfig } from "axios"
+import moment from "moment"
+import endpoints, { type Endpoints } from "./endpoints"
+import type { Endpoint, EndpointSpec } from "./apiClient"
+import type { Attachment, Micropost } from "./micropostApi"
+import type { Notification } from "./notificationApi"
+import type { User as SessionUser } from "../redux/session/sessionSlice"
+import type { SearchPage, SearchResponse } from "./searchApi"
+import type { User, UserShow } from "./userApi"
+import { createSeedDb, SAMPLE_VIDEO_URL, type MockDb, type MockPost, type MockUpload, type MockUser } from "./mockData"
+import type { UploadSession } from "./uploadApi"
+import { POST_FORMATS, type PostFormat } from "../helpers/postFormat"
+import { logger } from "./debug-utils"
+
+/**
+ * Mock server
+ * Serves every endpoint of the registry from an in-memory database, as an axios adapter.
+ * Used by the "mock" backend of the config profiles, and by tests through `createMockServer`.
+ */
+
+export interface MockOptions {
+  // Delay of every response in ms, fixed or picked in [min, max]
+  latency?: number | [min: number, max: number]
+  // Share of requests (0 to 1) failing with a 500
+  errorRate?: number
+}
+
+// Injected failure: no response, a timeout, or an error response
+export type MockFailure = "network" | "timeout" | { status: number; data?: unknown }
+
+// Endpoint name in the registry, e.g. "microposts.like"
+export type MockRoute = {
+  [Group in keyof Endpoints]: `${Group & string}.${keyof Endpoints[Group] & string}`
+}[keyof Endpoints]
+
+export interface MockRequest<Spec extends EndpointSpec> {
+  params: Record<string, string>
+  query: Spec extends { query: infer Query } ? Partial<Query> : Record<string, never>
+  body: Spec extends { body: infer Body } ? Body : undefined
+  // Owner of the access token, null for anonymous requests
+  userId: string | null
+}
+
+type MockHandler<E> = E extends Endpoint<string, infer Spec> ? (request: MockRequest<Spec>) => Spec["response"] : never
+
+export type MockHandlers = {
+  [Group in keyof Endpoints]: { [Name in keyof Endpoints[Group]]: MockHandler<Endpoints[Group][Name]> }
+}
+
+export interface MockServer {
+  adapter: AxiosAdapter
+  // Current records, e.g. to assert on them in tests
+  readonly db: MockDb
+  configure(options: MockOptions): void
+  // Fail the next `times` requests to a route ("*" for any route)
+  failNext(route: MockRoute | "*", failure: MockFailure, times?: number): void
+  // Restore the seed records and drop pending failures
+  reset(): void
+}
+
+// An error response, turned into an AxiosError by the adapter
+class MockHttpError extends Error {
+  readonly status: number
+  readonly data: unknown
+
+  constructor(status: number, data: unknown) {
+    super(`Request failed with status code ${status}`)
+    this.status = status
+    this.data = data
+  }
+}
+
+const FEED_PAGE_SIZE = 5
+const PAGE_SIZE = 10
+const MAX_ATTACHMENTS = 10
+// Small enough that uploads in the mock take several chunks
+const UPLOAD_CHUNK_SIZE = 256 * 1024
+const MAX_UPLOAD_SIZE = 512 * 1024 * 1024
+
+// Endpoints reachable without an access token
+const PUBLIC_ROUTES: MockRoute[] = [
+  "sessions.login",
+  "sessions.refreshToken",
+  "users.create",
+  "users.signup",
+  "accountActivations.create",
+  "accountActivations.update",
+  "passwordResets.create",
+  "passwordResets.update",
+]
+
+const unauthorized = () => new MockHttpError(401, { message: "Please log in." })
+const forbidden = () => new MockHttpError(403, { message: "You are not allowed to do that." })
+const notFound = (what: string) => new MockHttpError(404, { message: `${what} not found` })
+const invalid = (errors: Record<string, string[]>) =>
+  new MockHttpError(422, { message: "The form contains errors", errors })
+
+const page = <T>(items: T[], pageNumber: unknown, size: number): T[] => {
+  const current = Math.max(1, Number(pageNumber) || 1)
+  return items.slice((current - 1) * size, current * size)
+}
+
+const newestFirst = <T extends { createdAt: string }>(items: T[]): T[] =>
+  [...items].sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+
+const gravatarUrl = (user: MockUser) => `https://www.gravatar.com/avatar/${user.gravatar_id}?s=200&d=identicon`
+
+// Reads a field of a JSON body or of a FormData body (React Native's FormData has no `get`)
+const formField = (body: unknown, name: string): unknown => {
+  if (typeof FormData !== "undefined" && body instanceof FormData) {
+    const form = body as FormData & { getParts?: () => Array<{ fieldName: string; string?: string }> }
+    if (typeof form.get === "function") return form.get(name) ?? undefined
+    const part = form.getParts?.().find((item) => item.fieldName === name)
+    return part ? (part.string ?? part) : undefined
+  }
+  return (body as Record<string, unknown> | undefined)?.[name]
+}
+
+// Reads a list field: a JSON array, or the repeated "name[]" fields of a FormData body
+const formList = (body: unknown, name: string): unknown[] => {
+  if (typeof FormData !== "undefined" && body instanceof FormData) {
+    const form = body as FormData & { getParts?: () => Array<{ fieldName: string; string?: string }> }
+    if (typeof form.getAll === "function") return form.getAll(`${name}[]`)
+    return (form.getParts?.() || []).filter((item) => item.fieldName === `${name}[]`).map((item) => item.string)
+  }
+  const value = (body as Record<string, unknown> | undefined)?.[name]
+  return Array.isArray(value) ? value : []
+}
+
+interface AttachmentField {
+  id?: unknown
+  file?: unknown
+  type?: unknown
+  alt?: unknown
+  width?: unknown
+  height?: unknown
+  blurhash?: unknown
+  thumbnail?: unknown
+  duration?: unknown
+}
+
+// Reads the attachments of a post body: the indexed "attachments[0][file]" fields of a FormData body,
+// or the JSON array of kept ones; undefined when the body leaves them alone
+const attachmentFields = (body: unknown): AttachmentField[] | undefined => {
+  if (typeof FormData !== "undefined" && body instanceof FormData) {
+    const fields: AttachmentField[] = []
+    for (let index = 0; ; index++) {
+      const field = (name: string) => formField(body, `attachments[${index}][${name}]`)
+      if (field("id") === undefined && field("file") === undefined) return fields
+      fields.push({
+        id: field("id"),
+        file: field("file"),
+        type: field("type"),
+        alt: field("alt"),
+        width: field("width"),
+        height: field("height"),
+        blurhash: field("blurhash"),
+        thumbnail: field("thumbnail"),
+        duration: field("duration"),
+      })
+    }
+  }
+  const value = (body as Record<string, unknown> | undefined)?.attachments
+  return Array.isArray(value) ? value : undefined
+}
+
+// Length of a chunk body: a Blob, an ArrayBuffer or a string
+const chunkLength = (body: unknown): number => {
+  if (typeof body === "string") return body.length
+  const bytes = body as { size?: number; byteLength?: number } | undefined
+  return bytes?.size ?? bytes?.byteLength ?? 0
+}
+
+// The format of a post body; unknown formats are refused like the real API does
+const postFormatOf = (body: unknown): PostFormat | undefined => {
+  const format = formField(body, "format")
+  if (format === undefined || format === "") return undefined
+  if (!POST_FORMATS.includes(format as PostFormat)) throw invalid({ format: ["is not included in the list"] })
+  return format as PostFormat
+}
+
+/**
+ * Build the route handlers over a database
+ * @param getDb Returns the current records; `reset` swaps them
+ * @returns One handler per endpoint of the registry
+ */
+const createHandlers = (getDb: () => MockDb): MockHandlers => {
+  const nextId = () => getDb().nextId++
+
+  const findUser = (id: string | undefined | null): MockUser => {
+    const user = getDb().users.find((item) => item.id === id)
+    if (!user) throw notFound("User")
+    return user
+  }
+
+  const findPost = (id: string): MockPost => {
+    const post = getDb().posts.find((item) => item.id === Number(id))
+    if (!post) throw notFound("Micropost")
+    return post
+  }
+
+  const countsOf = (user: MockUser) => {
+    const db = getDb()
+    return {
+      followers: db.follows.filter((follow) => follow.followedId === user.id).length,
+      following: db.follows.filter((follow) => follow.followerId === user.id).length,
+      micropost: db.posts.filter((post) => post.userId === user.id).length,
+    }
+  }
+
+  const isFollowing = (followerId: string | null, followedId: string) =>
+    getDb().follows.some((follow) => follow.followerId === followerId && follow.followedId === followedId)
+
+  const sessionUserOf = (user: MockUser): SessionUser => ({
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.admin,
+    avatar: user.avatar || gravatarUrl(user),
+    bio: user.bio,
+    address: user.address,
+    phoneNumber: user.phoneNumber,
+    createdAt: user.createdAt,
+  })
+
+  const listUserOf = (user: MockUser): User => ({
+    id: user.id,
+    name: user.name,
+    gravatar_id: user.gravatar_id,
+    size: 50,
+  })
+
+  const micropostOf = (post: MockPost): Micropost => {
+    const db = getDb()
+    const author = db.users.find((user) => user.id === post.userId)
+    return {
+      id: post.id,
+      content: post.content,
+      format: post.format,
+      // Older clients only know a single image
+      image: post.attachments.find((attachment) => attachment.type === "image")?.url,
+      attachments: post.attachments,
+      timestamp: moment(post.createdAt).fromNow(),
+      created_at: post.createdAt,
+      updated_at: post.updatedAt,
+      user_id: post.userId,
+      user_name: author?.name,
+      gravatar_id: author?.gravatar_id,
+      size: 50,
+      postLikes: db.likes.filter((like) => like.postId === post.id).map((like) => ({ userId: like.userId })),
+      comments: [{ count: db.comments.filter((comment) => comment.postId === post.id).length }],
+    }
+  }
+
+  // An uploaded file gets a placeholder URL; the thumbnail sent along is served as it is
+  const uploadedAttachment = (field: AttachmentField): Attachment => {
+    const id = nextId()
+    const size = Number(field.width) > 0 && Number(field.height) > 0
+    const meta = {
+      width: size ? Number(field.width) : undefined,
+      height: size ? Number(field.height) : undefined,
+      blurhash: typeof field.blurhash === "string" && field.blurhash ? field.blurhash : undefined,
+      thumbnail_url:
+        typeof field.thumbnail === "string" && field.thumbnail.startsWith("data:image/") ? field.thumbnail : undefined,
+    }
+    if (field.type === "video") {
+      const duration = Number(field.duration) > 0 ? Number(field.duration) : undefined
+      return { id, type: "video", url: SAMPLE_VIDEO_URL, ...meta, duration }
+    }
+
+    // Same shape as the file, at most 1200 pixels wide or high
+    const scale = meta.width && meta.height ? Math.min(1, 1200 / Math.max(meta.width, meta.height)) : 1
+    const width = meta.width ? Math.round(meta.width * scale) : 600
+    const height = meta.height ? Math.round(meta.height * scale) : 400
+    return { id, type: "image", url: `https://picsum.photos/seed/mock-${id}/${width}/${height}`, ...meta }
+  }
+
+  // The attachments a post body asks for, in order. Files sent with the body are stored; IDs must be the post's own
+  // attachments or the user's finished uploads, which are used up
+  const requestedAttachments = (body: unknown, current: Attachment[], userId: string): Attachment[] | undefined => {
+    const fields = attachmentFields(body)
+    if (!fields) return undefined
+    if (fields.length > MAX_ATTACHMENTS) throw invalid({ attachments: [`can't be more than ${MAX_ATTACHMENTS}`] })
+
+    const db = getDb()
+    return fields.map((field): Attachment => {
+      const alt = field.alt ? String(field.alt) : undefined
+      if (field.file !== undefined) return { ...uploadedAttachment(field), alt }
+
+      const kept = current.find((attachment) => attachment.id === Number(field.id))
+      if (kept) return { ...kept, alt }
+
+      const upload = db.uploads.find((item) => item.userId === userId && item.attachment?.id === Number(field.id))
+      if (!upload?.attachment) throw invalid({ attachments: ["include one the post does not have"] })
+      db.uploads = db.uploads.filter((item) => item !== upload)
+      return { ...upload.attachment, alt }
+    })
+  }
+
+  const findUpload = (id: string, userId: string | null): MockUpload => {
+    const upload = getDb().uploads.find((item) => item.id === id && item.userId === userId)
+    if (!upload) throw notFound("Upload")
+    return upload
+  }
+
+  const uploadSessionOf = (upload: MockUpload): UploadSession => ({
+    id: upload.id,
+    size: upload.size,
+    offset: upload.offset,
+    chunk_size: UPLOAD_CHUNK_SIZE,
+    attachment: upload.attachment,
+  })
+
+  const notify = (receiverId: string, senderId: string, title: string, postId: number, commentId?: number) => {
+    if (receiverId === senderId) return
+    getDb().notifications.push({
+      id: nextId(),
+      receiverId,
+      senderId,
+      title,
+      postId,
+      commentId,
+      read: false,
+      createdAt: new Date().toISOString(),
+    })
+  }
+
+  const issueTokens = (user: MockUser) => {
+    const db = getDb()
+    const access = `mock-access-${nextId()}`
+    const refresh = `mock-refresh-${nextId()}`
+    db.accessTokens[access] = user.id
+    db.refreshTokens[refresh] = user.id
+    return {
+      access: { token: access, expires: moment().add(1, "hour").toISOString() },
+      refresh: { token: refresh, expires: moment().add(30, "days").toISOString() },
+    }
+  }
+
+  const validateSignUp = (fields: {
+    name?: string
+    email?: string
+    password?: string
+    password_confirmation?: string
+  }) => {
+    const errors: Record<string, string[]> = {}
+    if (!fields.name?.trim()) errors.name = ["can't be blank"]
+    if (!fields.email || !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(fields.email)) errors.email = ["is invalid"]
+    else if (getDb().users.some((user) => user.email === fields.email?.toLowerCase())) {
+      errors.email = ["has already been taken"]
+    }
+    if (!fields.password || fields.password.length < 6) errors.password = ["is too short (minimum is 6 characters)"]
+    if (fields.password !== fields.password_confirmation) errors.password_confirmation = ["doesn't match Password"]
+    if (Object.keys(errors).length > 0) throw invalid(errors)
+  }
+
+  const createUser = ({ body }: { body: { user: { name: string; email: string; password: string } } }) => {
+    validateSignUp(body.user)
+    const user: MockUser = {
+      id: String(nextId()),
+      name: body.user.name.trim(),
+      email: body.user.email.toLowerCase(),
+      password: body.user.password,
+      gravatar_id: `mock-${getDb().nextId}`,
+      admin: false,
+      activated: true,
+      createdAt: new Date().toISOString(),
+    }
+    getDb().users.push(user)
+    return {
+      user: sessionUserOf(user),
+      flash: ["success", "Please check your email to activate your account."] as [string, string],
+    }
+  }
+
+  const ownPost = (id: string, userId: string | null) => {
+    const post = findPost(id)
+    if (post.userId !== userId) throw forbidden()
+    return post
+  }
+
+  return {
+    sessions: {
+      login: ({ body }) => {
+        const { email, password } = body.session
+        const user = getDb().users.find((item) => item.email === email?.toLowerCase())
+        if (!user || user.password !== password) {
+          throw new MockHttpError(401, { message: "Invalid email/password combination" })
+        }
+        return { user: sessionUserOf(user), tokens: issueTokens(user) }
+      },
+      current: ({ userId }) => ({ user: sessionUserOf(findUser(userId)) }),
+      logout: ({ userId }) => {
+        const db = getDb()
+        Object.keys(db.accessTokens).forEach((token) => {
+          if (db.accessTokens[token] === userId) delete db.accessTokens[token]
+        })
+        return { flash: ["success", "Logged out"] }
+      },
+      refreshToken: ({ body }) => {
+        const userId = getDb().refreshTokens[body.token]
+        if (!userId) throw unauthorized()
+        const { access } = issueTokens(findUser(userId))
+        return { tokens: { access } }
+      },
+    },
+
+    microposts: {
+      feed: ({ query, userId }) => {
+        const db = getDb()
+        const owner = findUser(query.user_id ? String(query.user_id) : userId)
+        const posts = db.posts
+          .filter((post) =>
+            query.user_id ? post.userId === owner.id : post.userId === owner.id || isFollowing(owner.id, post.userId),
+          )
+          .sort((a, b) => b.id - a.id)
+
+        // Cursors: the newest posts strictly between `after` and `before`
+        const { before, after } = query
+        const limit = Number(query.limit) || FEED_PAGE_SIZE
+        const items =
+          before === undefined && after === undefined
+            ? page(posts, query.page, limit)
+            : posts
+                .filter(
+                  (post) =>
+                    (before === undefined || post.id < Number(before)) &&
+                    (after === undefined || post.id > Number(after)),
+                )
+                .slice(0, limit)
+
+        return {
+          feed_items: items.map(micropostOf),
+          ...countsOf(owner),
+          gravatar: gravatarUrl(owner),
+          total_count: posts.length,
+        }
+      },
+      show: ({ params }) => micropostOf(findPost(params.id)),
+      create: ({ body, userId }) => {
+        const content = String(formField(body, "content") ?? "").trim()
+        const author = findUser(userId)
+        const attachments = requestedAttachments(body, [], author.id) ?? []
+        if (!content && attachments.length === 0) throw invalid({ content: ["can't be blank"] })
+
+        const id = nextId()
+        const now = new Date().toISOString()
+        const post: MockPost = {
+          id,
+          userId: author.id,
+          content,
+          format: postFormatOf(body),
+          attachments,
+          createdAt: now,
+          updatedAt: now,
+        }
+        getDb().posts.push(post)
+
+        const mentionIds = new Set(formList(body, "mention_ids").map(String))
+        mentionIds.forEach((mentionedId) => {
+          if (getDb().users.some((user) => user.id === mentionedId)) {
+            notify(mentionedId, post.userId, "mentioned you in a post", post.id)
+          }
+        })
+        return micropostOf(post)
+      },
+      update: ({ params, body, userId }) => {
+        const post = ownPost(params.id, userId)
+        const content = formField(body, "content")
+        if (content !== undefined) post.content = String(content)
+        if (formField(body, "format") !== undefined) post.format = postFormatOf(body)
+        post.attachments = requestedAttachments(body, post.attachments, post.userId) ?? post.attachments
+        post.updatedAt = new Date().toISOString()
+        return micropostOf(post)
+      },
+      destroy: ({ params, userId }) => {
+        const post = ownPost(params.id, userId)
+        const db = getDb()
+        db.posts = db.posts.filter((item) => item.id !== post.id)
+        db.likes = db.likes.filter((like) => like.postId !== post.id)
+        db.comments = db.comments.filter((comment) => comment.postId !== post.id)
+        return { success: true, flash: ["success", "Micropost deleted"] }
+      },
+      like: ({ params, userId }) => {
+        const post = findPost(params.id)
+        const db = getDb()
+        if (!db.likes.some((like) => like.postId === post.id && like.userId === userId)) {
+          db.likes.push({ postId: post.id, userId: findUser(userId).id })
+          notify(post.userId, findUser(userId).id, "liked your post", post.id)
+        }
+        return { success: true }
+      },
+      unlike: ({ params, userId }) => {
+        const post = findPost(params.id)
+        const db = getDb()
+        db.likes = db.likes.filter((like) => !(like.postId === post.id && like.userId === userId))
+        return { success: true }
+      },
+      comments: ({ params }) => {
+        const post = findPost(params.id)
+        return newestFirst(getDb().comments.filter((comment) => comment.postId === post.id)).map((comment) => {
+          const author = findUser(comment.userId)
+          return {
+            id: comment.id,
+            content: comment.content,
+            user: { id: author.id, name: author.name, avatar: author.avatar || gravatarUrl(author) },
+            created_at: comment.createdAt,
+            timestamp: moment(comment.createdAt).fromNow(),
+          }
+        })
+      },
+      addComment: ({ params, body, userId }) => {
+        const post = findPost(params.id)
+        const author = findUser(userId)
+        const content = body.content?.trim()
+        if (!content) throw invalid({ content: ["can't be blank"] })
+
+        const comment = {
+          id: nextId(),
+          postId: post.id,
+          userId: author.id,
+          content,
+          createdAt: new Date().toISOString(),
+        }
+        getDb().comments.push(comment)
+        notify(post.userId, author.id, "commented on your post", post.id, comment.id)
+        return {
+          id: comment.id,
+          content: comment.content,
+          user: { id: author.id, name: author.name, avatar: author.avatar || gravatarUrl(author) },
+          created_at: comment.createdAt,
+          timestamp: moment(comment.createdAt).fromNow(),
+        }
+      },
+    },
+
+    users: {
+      index: ({ query }) => {
+        const users = getDb().users.filter((user) => user.activated)
+        return { users: page(users, query.page, PAGE_SIZE).map(listUserOf), total_count: users.length }
+      },
+      create: createUser,
+      signup: createUser,
+      show: ({ params, query, userId }) => {
+        const user = findUser(params.id)
+        const counts = countsOf(user)
+        const posts = newestFirst(getDb().posts.filter((post) => post.userId === user.id))
+        const show: UserShow = {
+          ...listUserOf(user),
+          followers: counts.followers,
+          following: counts.following,
+          current_user_following_user: isFollowing(userId, user.id),
+        }
+        return {
+          user: show,
+          microposts: page(posts, query.page, FEED_PAGE_SIZE).map(micropostOf),
+          total_count: posts.length,
+        }
+      },
+      edit: ({ params, userId }) => {
+        const user = findUser(params.id)
+        if (user.id !== userId) throw forbidden()
+        return { user: { name: user.name, email: user.email }, gravatar: gravatarUrl(user) }
+      },
+      update: ({ params, body, userId }) => {
+        const user = findUser(params.id)
+        if (user.id !== userId) throw forbidden()
+
+        const { password, password_confirmation, email, ...profile } = body.user
+        if (email !== undefined && email.toLowerCase() !== user.email) {
+          if (getDb().users.some((item) => item.email === email.toLowerCase())) {
+            throw invalid({ email: ["has already been taken"] })
+          }
+          user.email = email.toLowerCase()
+        }
+        if (password) {
+          if (password !== password_confirmation) throw invalid({ password_confirmation: ["doesn't match Password"] })
+          user.password = password
+        }
+        Object.assign(user, profile)
+        return { flash_success: ["success", "Profile updated"] }
+      },
+      destroy: ({ params, userId }) => {
+        const user = findUser(params.id)
+        if (user.id !== userId && !findUser(userId).admin) throw forbidden()
+        const db = getDb()
+        db.users = db.users.filter((item) => item.id !== user.id)
+        db.posts = db.posts.filter((post) => post.userId !== user.id)
+        db.follows = db.follows.filter((follow) => follow.followerId !== user.id && follow.followedId !== user.id)
+        return { flash: ["success", "User deleted"] }
+      },
+      follow: ({ params, query }) => {
+        const user = findUser(params.id)
+        if (params.relation !== "followers" && params.relation !== "following") throw notFound("Page")
+
+        const db = getDb()
+        const ids = db.follows
+          .filter((follow) => (params.relation === "followers" ? follow.followedId : follow.followerId) === user.id)
+          .map((follow) => (params.relation === "followers" ? follow.followerId : follow.followedId))
+        const users = db.users.filter((item) => ids.includes(item.id)).map(listUserOf)
+        return {
+          users: page(users, query.page, PAGE_SIZE),
+          xusers: users,
+          total_count: users.length,
+          user: { id: user.id, name: user.name, gravatar: gravatarUrl(user), ...countsOf(user) },
+        }
+      },
+      search: ({ query }) => {
+        const term = String(query.query ?? "")
+          .trim()
+          .toLowerCase()
+        if (!term) return []
+        return getDb()
+          .users.filter((user) => user.name.toLowerCase().includes(term))
+          .map(listUserOf)
+      },
+      uploadAvatar: ({ body, userId }) => {
+        const user = findUser(userId)
+        if (!formField(body, "avatar")) throw invalid({ avatar: ["can't be blank"] })
+        user.avatar = `https://picsum.photos/seed/avatar-${user.id}-${nextId()}/200/200`
+        return { flash: ["success", "Avatar updated"] }
+      },
+    },
+
+    relationships: {
+      create: ({ body, userId }) => {
+        const followedId = String([body.followed_id].flat()[0] ?? "")
+        const followed = findUser(followedId)
+        const follower = findUser(userId)
+        if (followed.id === follower.id) throw invalid({ followed_id: ["can't be yourself"] })
+        if (!isFollowing(follower.id, followed.id)) {
+          getDb().follows.push({ followerId: follower.id, followedId: followed.id })
+        }
+        return { follow: true }
+      },
+      destroy: ({ params, userId }) => {
+        const db = getDb()
+        db.follows = db.follows.filter((follow) => !(follow.followerId === userId && follow.followedId === params.id))
+        return { unfollow: true }
+      },
+    },
+
+    uploads: {
+      create: ({ body, userId }) => {
+        const size = Number(body.size)
+        const errors: Record<string, string[]> = {}
+        if (!Number.isInteger(size) || size < 0) errors.size = ["must be a number of bytes"]
+        else if (size > MAX_UPLOAD_SIZE) errors.size = [`can't be more than ${MAX_UPLOAD_SIZE} bytes`]
+        if (body.type !== "image" && body.type !== "video") errors.type = ["is not included in the list"]
+        if (Object.keys(errors).length > 0) throw invalid(errors)
+
+        const { width, height, blurhash, thumbnail, duration } = body
+        const upload: MockUpload = {
+          id: `upload-${nextId()}`,
+          userId: findUser(userId).id,
+          type: body.type,
+          size,
+          offset: 0,
+          meta: { width, height, blurhash, thumbnail, duration },
+        }
+        if (size === 0) upload.attachment = uploadedAttachment({ type: upload.type, ...upload.meta })
+        getDb().uploads.push(upload)
+        return uploadSessionOf(upload)
+      },
+      show: ({ params, userId }) => uploadSessionOf(findUpload(params.id, userId)),
+      chunk: ({ params, query, body, userId }) => {
+        const upload = findUpload(params.id, userId)
+        // A finished upload answers again, e.g. when the response to its last chunk was lost
+        if (upload.attachment) return uploadSessionOf(upload)
+        if (Number(query.offset) !== upload.offset) {
+          throw new MockHttpError(409, {
+            message: "The chunk does not start where the upload is",
+            offset: upload.offset,
+          })
+        }
+
+        const length = chunkLength(body)
+        if (length === 0 || upload.offset + length > upload.size) throw invalid({ chunk: ["doesn't fit the upload"] })
+        upload.offset += length
+        if (upload.offset === upload.size) upload.attachment = uploadedAttachment({ type: upload.type, ...upload.meta })
+        return uploadSessionOf(upload)
+      },
+    },
+
+    search: {
+      index: ({ query }) => {
+        const terms = String(query.q ?? "")
+          .toLowerCase()
+          .split(/\s+/)
+          .filter(Boolean)
+        const types = String(query.types ?? "users,posts,hashtags").split(",")
+        const limit = Number(query.limit) || PAGE_SIZE
+        const offset = Number(query.cursor) || 0
+        const pageOf = <T>(items: T[]): SearchPage<T> => ({
+          items: items.slice(offset, offset + limit),
+          next_cursor: offset + limit < items.length ? String(offset + limit) : undefined,
+          total_count: items.length,
+        })
+        const matchesAll = (text: string) =>
+          terms.length > 0 && terms.every((term) => text.toLowerCase().includes(term))
+        const db = getDb()
+        const response: SearchResponse = {}
+
+        if (types.includes("users")) {
+          const users = db.users.filter((user) => user.activated && matchesAll(`${user.name} ${user.email}`))
+          response.users = pageOf(
+            users.map((user) => ({
+              id: user.id,
+              name: user.name,
+              email: user.email,
+              avatar: user.avatar || gravatarUrl(user),
+            })),
+          )
+        }
+        if (types.includes("posts")) {
+          response.posts = pageOf(newestFirst(db.posts.filter((post) => matchesAll(post.content))).map(micropostOf))
+        }
+        if (types.includes("hashtags")) {
+          // Hashtags starting with the query, most used first
+          const prefix = terms.join("").replace(/^#/, "")
+          const counts = new Map<string, number>()
+          db.posts.forEach((post) => {
+            new Set([...post.content.matchAll(/#(\w+)/g)].map((match) => match[1].toLowerCase())).forEach((tag) =>
+              counts.set(tag, (counts.get(tag) || 0) + 1),
+            )
+          })
+          const hashtags = [...counts.entries()]
+            .filter(([name]) => prefix.length > 0 && name.startsWith(prefix))
+            .sort(([nameA, countA], [nameB, countB]) => countB - countA || nameA.localeCompare(nameB))
+            .map(([name, posts_count]) => ({ name, posts_count }))
+          response.hashtags = pageOf(hashtags)
+        }
+        return response
+      },
+    },
+
+    notifications: {
+      index: ({ query, userId }) => {
+        const db = getDb()
+        const notifications = newestFirst(db.notifications.filter((item) => item.receiverId === userId))
+        return page(notifications, query.page, PAGE_SIZE).map((item): Notification => {
+          const sender = db.users.find((user) => user.id === item.senderId)
+          return {
+            id: item.id,
+            title: item.title,
+            // The comment or post the notification is about, shown as a preview
+            content:
+              db.comments.find((comment) => comment.id === item.commentId)?.content ??
+              db.posts.find((post) => post.id === item.postId)?.content ??
+              item.title,
+            read: item.read,
+            created_at: item.createdAt,
+            updated_at: item.createdAt,
+            sender: sender && { id: sender.id, name: sender.name, avatar: sender.avatar || gravatarUrl(sender) },
+            data: { postId: item.postId, commentId: item.commentId },
+          }
+        })
+      },
+      unreadCount: ({ userId }) => ({
+        count: getDb().notifications.filter((item) => item.receiverId === userId && !item.read).length,
+      }),
+      markAsRead: ({ params, userId }) => {
+        const notification = getDb().notifications.find(
+          (item) => item.id === Number(params.id) && item.receiverId === userId,
+        )
+        if (!notification) throw notFound("Notification")
+        notification.read = true
+        return { success: true }
+      },
+      markAllAsRead: ({ userId }) => {
+        getDb().notifications.forEach((item) => {
+          if (item.receiverId === userId) item.read = true
+        })
+        return { success: true }
+      },
+    },
+
+    accountActivations: {
+      create: () => ({ flash: ["info", "Please check your email to activate your account."] }),
+      update: ({ body }) => {
+        const user = getDb().users.find((item) => item.email === body.email?.toLowerCase())
+        if (!user) throw invalid({ base: ["Invalid activation link"] })
+        user.activated = true
+        const { access } = issueTokens(user)
+        return { user: sessionUserOf(user), token: access.token, flash: ["success", "Account activated!"] }
+      },
+    },
+
+    passwordResets: {
+      create: () => ({ flash: ["info", "Email sent with password reset instructions"] }),
+      update: ({ body }) => {
+        const user = getDb().users.find((item) => item.email === body.email?.toLowerCase())
+        if (!user) throw invalid({ base: ["Invalid password reset link"] })
+        if (!body.user.password || body.user.password !== body.user.password_confirmation) {
+          throw invalid({ password_confirmation: ["doesn't match Password"] })
+        }
+        user.password = body.user.password
+        return { user_id: user.id, flash: ["success", "Password has been reset."] }
+      },
+    },
+  }
+}
+
+interface CompiledRoute {
+  name: MockRoute
+  method: string
+  pattern: RegExp
+  paramNames: string[]
+}
+
+// Literal paths first, so "/users/search" wins over "/users/:id"
+const compileRoutes = (): CompiledRoute[] =>
+  Object.entries(endpoints)
+    .flatMap(([group, routes]) =>
+      Object.entries(routes).map(([name, endpoint]: [string, Endpoint]) => {
+        const paramNames = [...endpoint.path.matchAll(/:(\w+)/g)].map((match) => match[1])
+        const source = endpoint.path.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/:(\w+)/g, "([^/]+)")
+        return {
+          name: `${group}.${name}` as MockRoute,
+          method: endpoint.method,
+          pattern: new RegExp(`^${source}/?$`),
+          paramNames,
+        }
+      }),
+    )
+    .sort((a, b) => a.paramNames.length - b.paramNames.length)
+
+// Path of a request relative to the API base URL, without the query string
+const pathOf = (config: InternalAxiosRequestConfig): string => {
+  let url = config.url || ""
+  if (config.baseURL && url.startsWith(config.baseURL)) url = url.slice(config.baseURL.length)
+  url = url.replace(/^https?:\/\/[^/]+/, "").split("?")[0]
+  return url === "/" ? "" : url
+}
+
+const parseBody = (data: unknown): unknown => {
+  if (typeof data !== "string") return data
+  try {
+    return JSON.parse(data)
+  } catch {
+    return data
+  }
+}
+
+// Request interceptor sends "Bearer <access token> <remember token>"
+const tokenOf = (config: InternalAxiosRequestConfig): string | undefined => {
+  const header = config.headers?.Authorization
+  return typeof header === "string" ? header.split(" ")[1] : undefined
+}
+
+const wait = (ms: number, config: InternalAxiosRequestConfig) =>
+  new Promise<void>((resolve, reject) => {
+    const { signal } = config
+    if (signal?.aborted) {
+      reject(new CanceledError(undefined, undefined, config))
+      return
+    }
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener?.("abort", () => {
+      clearTimeout(timer)
+      reject(new CanceledError(undefined, undefined, config))
+    })
+  })
+
+/**
+ * Create a mock server with its own database
+ * @param options Latency and error rate; both default to 0
+ * @returns Server whose adapter can be given to any axios instance
+ *
+ * @example
+ * const server = createMockServer()
+ * const instance = axios.create({ baseURL: "http://mock/api", adapter: server.adapter })
+ */
+export const createMockServer = (options: MockOptions = {}): MockServer => {
+  let db = createSeedDb()
+  let settings: Required<MockOptions> = { latency: 0, errorRate: 0, ...options }
+  let failures: Array<{ route: MockRoute | "*"; failure: MockFailure; remaining: number }> = []
+
+  const handlers = createHandlers(() => db)
+  const routes = compileRoutes()
+
+  const delay = (): number => {
+    const { latency } = settings
+    if (!Array.isArray(latency)) return latency
+    const [min, max] = latency
+    return min + Math.round(Math.random() * (max - min))
+  }
+
+  const takeFailure = (route: MockRoute | undefined): MockFailure | undefined => {
+    const index = failures.findIndex((item) => item.route === "*" || item.route === route)
+    if (index !== -1) {
+      const entry = failures[index]
+      entry.remaining -= 1
+      if (entry.remaining <= 0) failures = failures.filter((_, position) => position !== index)
+      return entry.failure
+    }
+    if (settings.errorRate > 0 && Math.random() < settings.errorRate) {
+      return { status: 500, data: { message: "Injected failure" } }
+    }
+    return undefined
+  }
+
+  const adapter: AxiosAdapter = async (config) => {
+    const method = (config.method || "get").toLowerCase()
+    const path = pathOf(config)
+    const label = `${method.toUpperCase()} ${path || "/"}`
+
+    await wait(delay(), config)
+
+    const route = routes.find((item) => item.method === method && item.pattern.test(path))
+    const failure = takeFailure(route?.name)
+
+    if (failure === "network") {
+      logger.warn(`Mock server: network failure for ${label}`)
+      throw new AxiosError("Network Error", AxiosError.ERR_NETWORK, config, {})
+    }
+    if (failure === "timeout") {
+      logger.warn(`Mock server: timeout for ${label}`)
+      throw new AxiosError(`timeout of ${config.timeout}ms exceeded`, AxiosError.ECONNABORTED, config, {})
+    }
+
+    let status = 200
+    let data: unknown
+    try {
+      if (failure) throw new MockHttpError(failure.status, failure.data ?? { message: "Injected failure" })
+      if (!route) throw notFound(`Route ${label}`)
+
+      const match = route.pattern.exec(path) as RegExpExecArray
+      const params: Record<string, string> = {}
+      route.paramNames.forEach((name, index) => {
+        params[name] = decodeURIComponent(match[index + 1])
+      })
+
+      const userId = db.accessTokens[tokenOf(config) || ""] ?? null
+      if (!userId && !PUBLIC_ROUTES.includes(route.name)) throw unauthorized()
+
+      const [group, name] = route.name.split(".")
+      const handler = (handlers as Record<string, Record<string, (request: MockRequest<EndpointSpec>) => unknown>>)[
+        group
+      ][name]
+      data = handler({ params, query: config.params ?? {}, body: parseBody(config.data) as undefined, userId })
+    } catch (error) {
+      if (!(error instanceof MockHttpError)) throw error
+      status = error.status
+      data = error.data
+    }
+
+    const response = { data, status, statusText: String(status), headers: {}, config, request: {} }
+    if (status >= 400) {
+      throw new AxiosError(
+        `Request failed with status code ${status}`,
+        status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        {},
+        response,
+      )
+    }
+    return response
+  }
+
+  return {
+    adapter,
+    get db() {
+      return db
+    },
+    configure(next) {
+      settings = { ...settings, ...next }
+    },
+    failNext(route, failure, times = 1) {
+      failures.push({ route, failure, remaining: times })
+    },
+    reset() {
+      db = createSeedDb()
+      failures = []
+    },
+  }
+}
+
+// Shared by the API instance of the "mock" backend
+const mockServer = createMockServer()
+
+export default mockServer
@@ -1,4 +1,4 @@
-import API from "."
+import { api } from "."
 
 export interface ListParams {
   page?: number
@@ -19,13 +19,15 @@ export interface Notification {
     image?: string
     avatar?: string
   }
-  data:
-    | string
-    | {
-        postId: number
-        commentId?: number
-        [key: string]: any
-      }
+  // Sent either as an object or as a JSON string; the response schema always decodes it to an object
+  data: NotificationData
+}
+
+export interface NotificationData {
+  // Missing from notifications about a user, e.g. a new follower
+  postId?: number
+  commentId?: number
+  [key: string]: any
 }
 
 export interface UnreadCountResponse {
@@ -43,8 +45,7 @@ const notificationApi = {
    * @returns Promise with list of notifications
    */
   getAll(params: ListParams): Promise<Notification[]> {
-    const url = "/notifications"
-    return API.get(url, { params })
+    return api.notifications.index({ query: params })
   },
 
   /**
@@ -52,8 +53,7 @@ const notificationApi = {
    * @returns Promise with unread count
    */
   getUnreadCount(): Promise<UnreadCountResponse> {
-    const url = "/notifications/unread/count"
-    return API.get(url)
+    return api.notifications.unreadCount()
   },
 
   /**
@@ -61,18 +61,16 @@ const notificationApi = {
    * @param id Notification ID
    * @returns Promise with response
    */
-  markAsRead(id: number): Promise<any> {
-    const url = `/notifications/${id}/read`
-    return API.put(url)
+  markAsRead(id: number): Promise<unknown> {
+    return api.notifications.markAsRead({ params: { id } })
   },
 
   /**
    * Mark all notifications as read
    * @returns Promise with response
    */
-  markAllAsRead(): Promise<any> {
-    const url = "/notifications/read-all"
-    return API.put(url)
+  markAllAsRead(): Promise<unknown> {
+    return api.notifications.markAllAsRead()
   },
 }
 
@@ -0,0 +1,397 @@
+import AsyncStorage from "@react-native-async-storage/async-storage"
+import NetInfo from "@react-native-community/netinfo"
+import { getBackend } from "./backend"
+import mediaService from "./mediaService"
+import searchApi from "./searchApi"
+import { logger } from "./debug-utils"
+import { ApiContractError, isApiError, isOfflineError } from "./apiErrors"
+import { postBodyHtml, type PostFormat } from "../helpers/postFormat"
+import { extractMentions } from "../helpers/postContent"
+import type { AttachmentMeta, AttachmentType } from "./micropostApi"
+
+/**
+ * Outbox
+ * Persists mutations made while offline and replays them in order on reconnect
+ */
+
+// A file picked for a post, read from the device when the post is sent
+export interface LocalAttachment extends AttachmentMeta {
+  uri: string
+  type: AttachmentType
+  alt?: string
+}
+
+export type OutboxMutation =
+  | { type: "like"; postId: number }
+  | { type: "unlike"; postId: number }
+  | { type: "comment"; postId: number; content: string }
+  | { type: "follow"; userId: string }
+  | { type: "unfollow"; userId: string }
+  | {
+      type: "createPost"
+      content: string
+      format?: PostFormat
+      attachments?: LocalAttachment[]
+      // Single image of posts queued before attachments
+      file?: { uri: string; type?: string }
+      mentionIds?: string[]
+    }
+
+type CreatePostMutation = Extract<OutboxMutation, { type: "createPost" }>
+
+export type OutboxEntry = OutboxMutation & {
+  readonly id: string
+  createdAt: string
+}
+
+export interface OutboxFailure {
+  entry: OutboxEntry
+  error: any
+}
+
+export interface FlushResult {
+  sent: OutboxEntry[]
+  failed: OutboxFailure[]
+  remaining: OutboxEntry[]
+}
+
+export interface PerformResult<T = any> {
+  queued: boolean
+  entry?: OutboxEntry
+  result?: T
+}
+
+type OutboxListener = (entries: OutboxEntry[]) => void
+type FailureListener = (failed: OutboxFailure[]) => void
+type SentListener = (sent: OutboxEntry[]) => void
+
+// Each user has their own outbox, kept when the session expires until they sign out
+const STORAGE_KEY = "outbox"
+const storageKeyOf = (userId: string) => `${STORAGE_KEY}:${userId}`
+
+// Pairs of mutations that undo each other when both are still pending
+const OPPOSITES: { [type: string]: OutboxMutation["type"] } = {
+  like: "unlike",
+  unlike: "like",
+  follow: "unfollow",
+  unfollow: "follow",
+}
+
+// Signed-in user whose entries are loaded; nothing is queued or replayed without one
+let userId: string | null = null
+let entries: OutboxEntry[] | null = null
+let flushPromise: Promise<FlushResult> | null = null
+// Entry currently being replayed; it can no longer be merged away
+let inFlightId: string | null = null
+const listeners = new Set<OutboxListener>()
+const failureListeners = new Set<FailureListener>()
+const sentListeners = new Set<SentListener>()
+
+const targetOf = (mutation: OutboxMutation): string | null => {
+  switch (mutation.type) {
+    case "like":
+    case "unlike":
+      return `post:${mutation.postId}`
+    case "follow":
+    case "unfollow":
+      return `user:${mutation.userId}`
+    default:
+      return null
+  }
+}
+
+/**
+ * Add a mutation to the pending list, merging it with pending entries for the same target
+ * @param pending Entries currently in the outbox
+ * @param entry Entry to add
+ * @returns The new list of entries
+ */
+export const mergeEntry = (pending: OutboxEntry[], entry: OutboxEntry): OutboxEntry[] => {
+  const target = targetOf(entry)
+  if (!target) return [...pending, entry]
+
+  let previousIndex = -1
+  pending.forEach((item, index) => {
+    if (targetOf(item) === target) previousIndex = index
+  })
+  if (previousIndex === -1) return [...pending, entry]
+
+  const previous = pending[previousIndex]
+  if (previous.type === OPPOSITES[entry.type]) {
+    // Like then unlike (or follow then unfollow) leaves the server untouched
+    return pending.filter((_, index) => index !== previousIndex)
+  }
+
+  // Same mutation queued twice
+  return pending
+}
+
+const load = async (): Promise<OutboxEntry[]> => {
+  if (entries) return entries
+  if (!userId) return []
+
+  const owner = userId
+  let loaded: OutboxEntry[] = []
+  try {
+    const stored = await AsyncStorage.getItem(storageKeyOf(owner))
+    if (stored) {
+      loaded = JSON.parse(stored)
+    } else {
+      // Entries saved before outboxes were kept per user go to the first user to sign in
+      const legacy = await AsyncStorage.getItem(STORAGE_KEY)
+      if (legacy) {
+        loaded = JSON.parse(legacy)
+        await AsyncStorage.setItem(storageKeyOf(owner), legacy)
+        await AsyncStorage.removeItem(STORAGE_KEY)
+      }
+    }
+  } catch (error) {
+    logger.error("Error reading outbox from AsyncStorage", error)
+  }
+
+  // The user may have changed while reading
+  if (userId !== owner) return load()
+  entries = loaded
+  return entries
+}
+
+const save = async (next: OutboxEntry[]) => {
+  entries = next
+  listeners.forEach((listener) => listener(next))
+  if (!userId) return
+
+  try {
+    await AsyncStorage.setItem(storageKeyOf(userId), JSON.stringify(next))
+  } catch (error) {
+    logger.error("Error writing outbox to AsyncStorage", error)
+  }
+}
+
+// Mentioned users get a notification: picked ones are known, plain "@name" ones are looked up when the post is sent.
+// Offline, the post waits in the outbox; names no user matches are left out.
+const resolveMentionIds = async ({ content, format, mentionIds = [] }: CreatePostMutation): Promise<string[]> => {
+  const plain = extractMentions(postBodyHtml(content, format)).filter((mention) => !mention.userId)
+  const found = await Promise.all(
+    plain.map(({ name }) =>
+      searchApi.findMentionedUser(name).catch((error) => {
+        if (isOfflineError(error)) throw error
+        logger.warn(`Could not look up the mention @${name}`, error)
+        return null
+      }),
+    ),
+  )
+  const resolved = found.flatMap((user) => (user ? [user.id] : []))
+  return [...new Set([...mentionIds, ...resolved])]
+}
+
+const send = async (mutation: OutboxMutation): Promise<any> => {
+  const backend = getBackend()
+  switch (mutation.type) {
+    case "like":
+      return backend.likes.like(mutation.postId)
+    case "unlike":
+      return backend.likes.unlike(mutation.postId)
+    case "comment":
+      return backend.comments.add(mutation.postId, mutation.content)
+    case "follow":
+      return backend.follows.follow(mutation.userId)
+    case "unfollow":
+      return backend.follows.unfollow(mutation.userId)
+    case "createPost": {
+      const local = mutation.attachments ?? (mutation.file ? [{ uri: mutation.file.uri, type: "image" as const }] : [])
+      // Uploads stopped by a lost connection resume from where they were on the next replay
+      const attachments = await mediaService.uploadAttachments(local)
+      const post = await backend.posts.create({
+        content: mutation.content,
+        format: mutation.format,
+        attachments,
+        mentionIds: await resolveMentionIds(mutation),
+      })
+      await mediaService.forgetUploads(local)
+      return post
+    }
+  }
+}
+
+// Worth replaying later: no answer, an expired session, or a busy or failing server.
+// Anything else, errors the app does not know included, fails the same way again and is dropped.
+const isTransientFailure = (error: unknown): boolean => {
+  if (error instanceof ApiContractError) return false
+  if (isOfflineError(error)) return true
+  if (!isApiError(error)) return false
+  return error.status === 401 || error.status === 429 || error.status >= 500
+}
+
+const isOffline = async (): Promise<boolean> => {
+  try {
+    const state = await NetInfo.fetch()
+    return state.isConnected === false
+  } catch {
+    return false
+  }
+}
+
+const outbox = {
+  /**
+   * Get the pending entries
+   * @returns Promise with entries in replay order
+   */
+  getEntries(): Promise<OutboxEntry[]> {
+    return load()
+  },
+
+  /**
+   * Listen for changes to the pending entries
+   * @param listener Called with the entries after every change
+   * @returns Function removing the listener
+   */
+  subscribe(listener: OutboxListener): () => void {
+    listeners.add(listener)
+    load().then(listener)
+    return () => {
+      listeners.delete(listener)
+    }
+  },
+
+  /**
+   * Listen for entries dropped because the server rejected them, e.g. to undo their optimistic update
+   * @param listener Called with the failed entries after each replay that had some
+   * @returns Function removing the listener
+   */
+  subscribeFailures(listener: FailureListener): () => void {
+    failureListeners.add(listener)
+    return () => {
+      failureListeners.delete(listener)
+    }
+  },
+
+  /**
+   * Listen for entries the server accepted, e.g. to swap their optimistic update for the server copy
+   * @param listener Called with the sent entries after each replay that had some
+   * @returns Function removing the listener
+   */
+  subscribeSent(listener: SentListener): () => void {
+    sentListeners.add(listener)
+    return () => {
+      sentListeners.delete(listener)
+    }
+  },
+
+  /**
+   * Switch to the outbox of the signed-in user; entries of other users stay stored for when they are back
+   * @param id ID of the signed-in user, or null when signed out
+   */
+  async setUser(id: string | null): Promise<void> {
+    if (id === userId) return
+    // Entries being replayed belong to the previous user
+    await flushPromise?.catch(() => undefined)
+
+    userId = id
+    entries = null
+    const current = await load()
+    listeners.forEach((listener) => listener(current))
+  },
+
+  /**
+   * Queue a mutation to be sent later
+   * @param mutation Mutation to queue
+   * @returns Promise with the queued entry
+   */
+  async enqueue(mutation: OutboxMutation): Promise<OutboxEntry> {
+    const entry = {
+      ...mutation,
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      createdAt: new Date().toISOString(),
+    } as OutboxEntry
+
+    const pending = await load()
+    if (inFlightId && pending[0]?.id === inFlightId) {
+      await save([pending[0], ...mergeEntry(pending.slice(1), entry)])
+    } else {
+      await save(mergeEntry(pending, entry))
+    }
+    return entry
+  },
+
+  /**
+   * Send a mutation now, or queue it when offline or behind other pending entries
+   * @param mutation Mutation to perform
+   * @returns Promise with the API result, or the queued entry
+   */
+  async perform<T = any>(mutation: OutboxMutation): Promise<PerformResult<T>> {
+    const hasPending = (await load()).length > 0
+    const offline = await isOffline()
+
+    // Queue behind pending entries so the server sees mutations in order
+    if (hasPending || offline) {
+      const entry = await this.enqueue(mutation)
+      if (!offline) this.flush()
+      return { queued: true, entry }
+    }
+
+    try {
+      const result = await send(mutation)
+      return { queued: false, result }
+    } catch (error) {
+      if (!isOfflineError(error)) throw error
+
+      logger.warn(`Request failed offline, queueing ${mutation.type}`, error)
+      const entry = await this.enqueue(mutation)
+      return { queued: true, entry }
+    }
+  },
+
+  /**
+   * Replay pending entries in order.
+   * Stops at the first error worth retrying later; entries that cannot succeed are dropped and reported.
+   * @returns Promise with sent, failed and remaining entries
+   */
+  flush(): Promise<FlushResult> {
+    if (!flushPromise) {
+      flushPromise = (async () => {
+        const sent: OutboxEntry[] = []
+        const failed: OutboxFailure[] = []
+
+        // Always take the current head: entries may be added or merged away while a request is in flight
+        let entry = (await load())[0]
+        while (entry) {
+          inFlightId = entry.id
+          try {
+            await send(entry)
+            sent.push(entry)
+          } catch (error) {
+            if (isTransientFailure(error)) {
+              logger.warn(`Outbox replay paused at ${entry.type}`, error)
+              break
+            }
+            logger.error(`Outbox entry ${entry.type} failed permanently`, error)
+            failed.push({ entry, error })
+          }
+
+          const handledId = entry.id
+          await save((await load()).filter((item) => item.id !== handledId))
+          inFlightId = null
+          entry = (await load())[0]
+        }
+        inFlightId = null
+
+        if (sent.length > 0) sentListeners.forEach((listener) => listener(sent))
+        if (failed.length > 0) failureListeners.forEach((listener) => listener(failed))
+        return { sent, failed, remaining: await load() }
+      })().finally(() => {
+        flushPromise = null
+      })
+    }
+
+    return flushPromise
+  },
+
+  /**
+   * Drop every pending entry of the signed-in user (e.g. when they sign out)
+   */
+  async clear(): Promise<void> {
+    await save([])
+  },
+}
+
+export default outbox
@@ -1,4 +1,4 @@
-import API from "."
+import { api } from "."
 
 export interface CreateParams {
   password_reset: PasswordResetCreateField
@@ -15,7 +15,6 @@ export interface CreateResponse {
 export interface UpdateResponse {
   user_id?: string
   flash?: [message_type: string, message: string]
-  error?: string[]
 }
 
 export interface UpdateParams {
@@ -35,8 +34,7 @@ const passwordResetApi = {
    * @returns Promise with response
    */
   create(params: CreateParams): Promise<CreateResponse> {
-    const url = "/password_resets"
-    return API.post(url, params)
+    return api.passwordResets.create({ body: params })
   },
 
   /**
@@ -46,8 +44,7 @@ const passwordResetApi = {
    * @returns Promise with response
    */
   update(reset_token: string, params: UpdateParams): Promise<UpdateResponse> {
-    const url = `/password_resets/${reset_token}`
-    return API.put(url, params)
+    return api.passwordResets.update({ params: { token: reset_token }, body: params })
   },
 }
 
@@ -0,0 +1,245 @@
+import { onConfigChange } from "./config"
+
+/**
+ * Query cache
+ * Keeps the responses of read requests by endpoint and params so screens share them:
+ * - requests for a key already in flight share its promise
+ * - data younger than the stale time is returned without a request
+ * - mutations invalidate the keys they change; keys with subscribers are refetched, the others dropped
+ * - entries nobody subscribes to are garbage collected some time after their last use
+ */
+
+// Endpoint name as in the registry, e.g. "microposts.show", and the params of the request
+export type QueryKey = readonly [endpoint: string, params?: unknown]
+
+export interface QueryOptions {
+  // How long data counts as fresh, in ms
+  staleTime?: number
+}
+
+export interface QueryCacheOptions {
+  staleTime: number
+  // How long an entry without subscribers is kept after its last use, in ms
+  gcTime: number
+}
+
+export type QueryListener = () => void
+
+interface QueryEntry {
+  key: QueryKey
+  data?: unknown
+  // When the data was received; 0 once invalidated
+  updatedAt: number
+  promise?: Promise<unknown>
+  listeners: Set<QueryListener>
+  gcTimer?: ReturnType<typeof setTimeout>
+}
+
+// Same params in any property order give the same hash
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([name, item]) => `${JSON.stringify(name)}:${stableStringify(item)}`).join(",")}}`
+  }
+  return JSON.stringify(value) ?? "null"
+}
+
+export const hashQueryKey = ([endpoint, params]: QueryKey): string => `${endpoint}:${stableStringify(params)}`
+
+/**
+ * Create a query cache
+ * @param options Default stale time and garbage collection delay
+ * @returns Cache with fetch, read, write, invalidate and subscribe methods
+ */
+export const createQueryCache = (options: Partial<QueryCacheOptions> = {}) => {
+  const settings: QueryCacheOptions = { staleTime: 30000, gcTime: 5 * 60000, ...options }
+  const entries = new Map<string, QueryEntry>()
+
+  const notify = (entry: QueryEntry) => entry.listeners.forEach((listener) => listener())
+
+  // (Re)start the countdown of an entry nobody subscribes to
+  const scheduleGc = (hash: string, entry: QueryEntry) => {
+    if (entry.gcTimer) clearTimeout(entry.gcTimer)
+    entry.gcTimer = undefined
+    if (entry.listeners.size > 0) return
+
+    entry.gcTimer = setTimeout(() => {
+      if (entry.listeners.size === 0 && !entry.promise && entries.get(hash) === entry) {
+        entries.delete(hash)
+      }
+    }, settings.gcTime)
+  }
+
+  const getEntry = (key: QueryKey): [string, QueryEntry] => {
+    const hash = hashQueryKey(key)
+    let entry = entries.get(hash)
+    if (!entry) {
+      entry = { key, updatedAt: 0, listeners: new Set() }
+      entries.set(hash, entry)
+    }
+    return [hash, entry]
+  }
+
+  const isFresh = (entry: QueryEntry, staleTime: number) =>
+    entry.updatedAt > 0 && Date.now() - entry.updatedAt < staleTime
+
+  // An invalidation matches every params of an endpoint, or those with the given values,
+  // e.g. ["microposts.comments", { id: 1 }] matches every page of the comments of post 1
+  const matches = (entry: QueryEntry, [endpoint, params]: QueryKey) => {
+    if (entry.key[0] !== endpoint) return false
+    if (params === undefined) return true
+    if (!params || typeof params !== "object" || !entry.key[1] || typeof entry.key[1] !== "object") {
+      return stableStringify(entry.key[1]) === stableStringify(params)
+    }
+    const entryParams = entry.key[1] as Record<string, unknown>
+    return Object.entries(params as Record<string, unknown>).every(
+      ([name, value]) => stableStringify(entryParams[name]) === stableStringify(value),
+    )
+  }
+
+  const cache = {
+    /**
+     * Get the data of a key, from the cache when fresh, from the in-flight request when there is one
+     * @param key Endpoint and params
+     * @param fetcher Request made when the cache can't answer
+     * @param queryOptions Stale time of this request
+     * @returns Promise with the data
+     */
+    fetch<T>(key: QueryKey, fetcher: () => Promise<T>, queryOptions: QueryOptions = {}): Promise<T> {
+      const [hash, entry] = getEntry(key)
+      scheduleGc(hash, entry)
+
+      if (isFresh(entry, queryOptions.staleTime ?? settings.staleTime)) {
+        return Promise.resolve(entry.data as T)
+      }
+      if (entry.promise) return entry.promise as Promise<T>
+
+      const promise = fetcher().then((data) => {
+        // A newer request or an invalidation took over meanwhile: don't overwrite its result
+        if (entry.promise === promise && entries.get(hash) === entry) {
+          entry.data = data
+          entry.updatedAt = Date.now()
+          notify(entry)
+        }
+        return data
+      })
+      // Settled either way: later calls decide again
+      const settle = () => {
+        if (entry.promise === promise) entry.promise = undefined
+        scheduleGc(hash, entry)
+      }
+      promise.then(settle, settle)
+
+      entry.promise = promise
+      return promise
+    },
+
+    /**
+     * Read the cached data of a key, fresh or not
+     * @param key Endpoint and params
+     * @returns The data, or undefined when the key was never fetched
+     */
+    getData<T>(key: QueryKey): T | undefined {
+      return entries.get(hashQueryKey(key))?.data as T | undefined
+    },
+
+    /**
+     * Store data received some other way, e.g. the posts of a feed page for their detail endpoint
+     * @param key Endpoint and params
+     * @param data Fresh data
+     */
+    setData<T>(key: QueryKey, data: T) {
+      const [hash, entry] = getEntry(key)
+      entry.data = data
+      entry.updatedAt = Date.now()
+      scheduleGc(hash, entry)
+      notify(entry)
+    },
+
+    /**
+     * Mark keys as stale after a mutation
+     * Subscribed keys keep their data until their subscribers refetch it; the others are dropped.
+     * @param keys Endpoints, with params to invalidate only those
+     */
+    invalidate(...keys: QueryKey[]) {
+      entries.forEach((entry, hash) => {
+        if (!keys.some((key) => matches(entry, key))) return
+
+        // The answer of a request sent before the mutation is outdated too
+        entry.promise = undefined
+        if (entry.listeners.size === 0) {
+          if (entry.gcTimer) clearTimeout(entry.gcTimer)
+          entries.delete(hash)
+        } else {
+          entry.updatedAt = 0
+          notify(entry)
+        }
+      })
+    },
+
+    /**
+     * Invalidate keys once a mutation succeeds
+     * @param request Mutation request
+     * @param keys Keys the mutation changes
+     * @returns Promise with the response of the mutation
+     */
+    async afterMutation<T>(request: Promise<T>, ...keys: QueryKey[]): Promise<T> {
+      const result = await request
+      cache.invalidate(...keys)
+      return result
+    },
+
+    /**
+     * Whether the data of a key is missing or older than the stale time
+     * @param key Endpoint and params
+     * @param staleTime Stale time to check against
+     */
+    isStale(key: QueryKey, staleTime = settings.staleTime): boolean {
+      const entry = entries.get(hashQueryKey(key))
+      return !entry || !isFresh(entry, staleTime)
+    },
+
+    /**
+     * Follow the data of a key; the entry is kept while it has subscribers
+     * @param key Endpoint and params
+     * @param listener Called when the data changes or is invalidated
+     * @returns Function that unsubscribes
+     */
+    subscribe(key: QueryKey, listener: QueryListener): () => void {
+      const [hash, entry] = getEntry(key)
+      entry.listeners.add(listener)
+      scheduleGc(hash, entry)
+
+      return () => {
+        entry.listeners.delete(listener)
+        scheduleGc(hash, entry)
+      }
+    },
+
+    // Drop all data, e.g. when the user or the backend changes; subscribers are told to refetch
+    clear() {
+      entries.forEach((entry, hash) => {
+        if (entry.gcTimer) clearTimeout(entry.gcTimer)
+        entry.promise = undefined
+        entry.updatedAt = 0
+        entry.data = undefined
+        if (entry.listeners.size === 0) entries.delete(hash)
+      })
+      entries.forEach(notify)
+    },
+  }
+
+  return cache
+}
+
+export type QueryCache = ReturnType<typeof createQueryCache>
+
+const queryCache = createQueryCache()
+
+// Responses of one backend mean nothing for another
+onConfigChange(() => queryCache.clear())
+
+export default queryCache
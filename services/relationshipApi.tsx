@@ -1,4 +1,5 @@
-import API from "."
+import { api } from "."
+import queryCache from "./queryCache"
 
 export interface CreateParams {
   followed_id: string | string[] | undefined
@@ -19,8 +20,13 @@ const relationshipApi = {
    * @returns Promise with response
    */
   create(params: CreateParams): Promise<CreateResponse> {
-    const url = "/relationships"
-    return API.post(url, params)
+    // The feed, the follower counts and the follow lists change with the followed users
+    return queryCache.afterMutation(
+      api.relationships.create({ body: params }),
+      ["microposts.feed"],
+      ["users.show"],
+      ["users.follow"],
+    )
   },
 
   /**
@@ -29,8 +35,12 @@ const relationshipApi = {
    * @returns Promise with response
    */
   destroy(id: string): Promise<DestroyResponse> {
-    const url = `/relationships/${id}`
-    return API.delete(url)
+    return queryCache.afterMutation(
+      api.relationships.destroy({ params: { id } }),
+      ["microposts.feed"],
+      ["users.show"],
+      ["users.follow"],
+    )
   },
 }
 
@@ -0,0 +1,147 @@
+import { DecodeError, array, boolean, id, jsonString, number, object, optional, string, type Decoder } from "./schema"
+import { POST_FORMATS, type PostFormat } from "../helpers/postFormat"
+import type { Attachment } from "./micropostApi"
+
+/**
+ * Schemas of the API responses the screens rely on.
+ * Checked by the API client for the endpoints that declare them in the registry.
+ */
+
+const authorSchema = object({
+  id: id,
+  name: string,
+  avatar: optional(string),
+})
+
+// Formats added later by the server decode to undefined and show as HTML rather than failing the feed
+const postFormat: Decoder<PostFormat | undefined> = (value, path) => {
+  const format = string(value, path)
+  return POST_FORMATS.includes(format as PostFormat) ? (format as PostFormat) : undefined
+}
+
+const attachmentSchema = object({
+  id: number,
+  url: string,
+  type: string,
+  alt: optional(string),
+  width: optional(number),
+  height: optional(number),
+  blurhash: optional(string),
+  thumbnail_url: optional(string),
+  duration: optional(number),
+})
+
+// Attachment types added later by the server are left out rather than failing the feed
+const knownAttachments: Decoder<Attachment[]> = (value, path) =>
+  array(attachmentSchema)(value, path).filter((attachment): attachment is Attachment =>
+    ["image", "video"].includes(attachment.type),
+  )
+
+// An uploaded file is always an attachment the app can show
+const uploadedAttachment: Decoder<Attachment> = (value, path) => {
+  const attachment = attachmentSchema(value, path)
+  if (attachment.type !== "image" && attachment.type !== "video") {
+    throw new DecodeError(`${path}.type`, '"image" or "video"', attachment.type)
+  }
+  return attachment as Attachment
+}
+
+export const micropostSchema = object({
+  id: number,
+  content: string,
+  format: optional(postFormat),
+  timestamp: string,
+  user_id: id,
+  gravatar_id: optional(string),
+  image: optional(string),
+  attachments: optional(knownAttachments),
+  size: optional(number),
+  created_at: optional(string),
+  updated_at: optional(string),
+  user_name: optional(string),
+  user: optional(authorSchema),
+  postLikes: optional(array(object({ userId: id }))),
+  comments: optional(array(object({ count: number }))),
+})
+
+export const micropostListSchema = object({
+  feed_items: array(micropostSchema),
+  followers: number,
+  following: number,
+  gravatar: string,
+  micropost: number,
+  total_count: number,
+})
+
+export const commentSchema = object({
+  id: number,
+  content: string,
+  user: optional(authorSchema),
+  created_at: string,
+  timestamp: optional(string),
+})
+
+export const userShowSchema = object({
+  id: id,
+  name: string,
+  gravatar_id: string,
+  size: number,
+  following: number,
+  followers: number,
+  current_user_following_user: boolean,
+})
+
+export const userShowResponseSchema = object({
+  user: userShowSchema,
+  id_relationships: optional(number),
+  microposts: array(micropostSchema),
+  total_count: number,
+})
+
+// `data` is sometimes sent as a JSON string; it is always decoded to an object
+export const notificationSchema = object({
+  id: number,
+  title: string,
+  content: string,
+  read: boolean,
+  created_at: string,
+  updated_at: string,
+  sender: optional(
+    object({
+      id: id,
+      name: string,
+      image: optional(string),
+      avatar: optional(string),
+    }),
+  ),
+  data: jsonString(
+    object({
+      // Notifications about a user, e.g. a new follower, have no post
+      postId: optional(number),
+      commentId: optional(number),
+    }),
+  ),
+})
+
+const searchPageSchema = <T>(itemSchema: Decoder<T>) =>
+  object({
+    items: array(itemSchema),
+    next_cursor: optional(string),
+    total_count: number,
+  })
+
+export const searchResponseSchema = object({
+  users: optional(
+    searchPageSchema(object({ id: id, name: string, email: optional(string), avatar: optional(string) })),
+  ),
+  posts: optional(searchPageSchema(micropostSchema)),
+  hashtags: optional(searchPageSchema(object({ name: string, posts_count: number }))),
+})
+
+export const uploadSessionSchema = object({
+  id: id,
+  size: number,
+  offset: number,
+  chunk_size: number,
+  attachment: optional(uploadedAttachment),
+})
@@ -0,0 +1,110 @@
+import type { Backend } from "./backend"
+import sessionApi from "./sessionApi"
+import userApi from "./userApi"
+import micropostApi from "./micropostApi"
+import relationshipApi from "./relationshipApi"
+import notificationApi from "./notificationApi"
+import uploadApi from "./uploadApi"
+import { AuthError } from "./apiErrors"
+
+/**
+ * REST backend
+ * Backend served by the Rails API through the typed API client
+ */
+const restBackend: Backend = {
+  auth: {
+    async login({ email, password, rememberMe }) {
+      const response = await sessionApi.create({
+        session: { email, password, remember_me: rememberMe ? "true" : "false" },
+      })
+      if (!response.user) {
+        throw new AuthError(response.flash?.[1] || "Invalid email or password")
+      }
+
+      const tokens = response.tokens
+      return {
+        user: response.user,
+        tokens: tokens?.access?.token
+          ? { accessToken: tokens.access.token, refreshToken: tokens.refresh?.token }
+          : undefined,
+      }
+    },
+
+    async currentUser() {
+      const response = await sessionApi.current()
+      return response.user
+    },
+
+    async logout() {
+      await sessionApi.destroy()
+    },
+
+    async signUp(params) {
+      await userApi.signup({ user: params })
+    },
+  },
+
+  users: {
+    async get(id) {
+      const { user } = await userApi.show(id, { page: 1 })
+      return { id: user.id, name: user.name, avatar: user.gravatar_id, followed: user.current_user_following_user }
+    },
+  },
+
+  feed: {
+    list({ userId, ...query }) {
+      return micropostApi.getAll(userId ? { ...query, user_id: userId } : query)
+    },
+  },
+
+  posts: {
+    get: (id) => micropostApi.getById(id),
+    create: (params) => micropostApi.create(params),
+    update: (id, params) => micropostApi.update(id, params),
+    async remove(id) {
+      await micropostApi.remove(id)
+    },
+  },
+
+  likes: {
+    async like(postId) {
+      await micropostApi.like(postId)
+    },
+    async unlike(postId) {
+      await micropostApi.unlike(postId)
+    },
+  },
+
+  comments: {
+    list: (postId) => micropostApi.getComments(postId),
+    add: (postId, content) => micropostApi.addComment(postId, content),
+  },
+
+  follows: {
+    async follow(userId) {
+      await relationshipApi.create({ followed_id: userId })
+    },
+    async unfollow(userId) {
+      await relationshipApi.destroy(userId)
+    },
+  },
+
+  notifications: {
+    list: ({ page }) => notificationApi.getAll({ page }),
+    async unreadCount() {
+      const response = await notificationApi.getUnreadCount()
+      return response?.count || 0
+    },
+    async markAllAsRead() {
+      await notificationApi.markAllAsRead()
+    },
+  },
+
+  uploads: {
+    start: (params) => uploadApi.create(params),
+    status: (id) => uploadApi.show(id),
+    sendChunk: (id, offset, chunk, options) => uploadApi.sendChunk(id, offset, chunk, options),
+  },
+}
+
+export default restBackend
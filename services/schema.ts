@@ -0,0 +1,116 @@
+/**
+ * Runtime schema decoders
+ * Check untrusted values (API responses) against the shape the app expects
+ */
+
+// Decodes a value or throws a DecodeError; `path` locates the value in the payload, e.g. "feed_items[3].content"
+export type Decoder<T> = (value: unknown, path: string) => T
+
+export type DecodedType<D> = D extends Decoder<infer T> ? T : never
+
+export class DecodeError extends Error {
+  readonly path: string
+  readonly expected: string
+  readonly received: string
+
+  constructor(path: string, expected: string, value: unknown) {
+    const received = describe(value)
+    super(`Expected ${expected} at ${path || "<root>"}, received ${received}`)
+    this.name = "DecodeError"
+    this.path = path
+    this.expected = expected
+    this.received = received
+  }
+}
+
+const describe = (value: unknown): string => {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "array"
+  return typeof value
+}
+
+const join = (path: string, key: string | number) =>
+  typeof key === "number" ? `${path}[${key}]` : path ? `${path}.${key}` : key
+
+export const string: Decoder<string> = (value, path) => {
+  if (typeof value !== "string") throw new DecodeError(path, "string", value)
+  return value
+}
+
+export const number: Decoder<number> = (value, path) => {
+  if (typeof value !== "number" || Number.isNaN(value)) throw new DecodeError(path, "number", value)
+  return value
+}
+
+export const boolean: Decoder<boolean> = (value, path) => {
+  if (typeof value !== "boolean") throw new DecodeError(path, "boolean", value)
+  return value
+}
+
+// IDs typed as strings in the app but sent as numbers by some endpoints
+export const id: Decoder<string> = (value, path) => {
+  if (typeof value === "number") return String(value)
+  if (typeof value !== "string") throw new DecodeError(path, "id", value)
+  return value
+}
+
+// Missing and null values both decode to undefined
+export const optional =
+  <T>(decoder: Decoder<T>): Decoder<T | undefined> =>
+  (value, path) =>
+    value === undefined || value === null ? undefined : decoder(value, path)
+
+export const array =
+  <T>(decoder: Decoder<T>): Decoder<T[]> =>
+  (value, path) => {
+    if (!Array.isArray(value)) throw new DecodeError(path, "array", value)
+    return value.map((item, index) => decoder(item, join(path, index)))
+  }
+
+type ObjectShape = Record<string, Decoder<unknown>>
+
+type OptionalKeys<Shape extends ObjectShape> = {
+  [Key in keyof Shape]: undefined extends DecodedType<Shape[Key]> ? Key : never
+}[keyof Shape]
+
+type DecodedObject<Shape extends ObjectShape> = {
+  [Key in Exclude<keyof Shape, OptionalKeys<Shape>>]: DecodedType<Shape[Key]>
+} & {
+  [Key in OptionalKeys<Shape>]?: DecodedType<Shape[Key]>
+}
+
+/**
+ * Decode an object field by field. Fields not in the shape are kept as they are.
+ * @param shape Decoder for each known field
+ */
+export const object =
+  <Shape extends ObjectShape>(shape: Shape): Decoder<DecodedObject<Shape>> =>
+  (value, path) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      throw new DecodeError(path, "object", value)
+    }
+    const result: Record<string, unknown> = { ...value }
+    Object.entries(shape).forEach(([key, decoder]) => {
+      const decoded = decoder((value as Record<string, unknown>)[key], join(path, key))
+      if (decoded === undefined) {
+        delete result[key]
+      } else {
+        result[key] = decoded
+      }
+    })
+    return result as DecodedObject<Shape>
+  }
+
+// A JSON document embedded in a string field
+export const jsonString =
+  <T>(decoder: Decoder<T>): Decoder<T> =>
+  (value, path) => {
+    if (typeof value !== "string") return decoder(value, path)
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(value)
+    } catch {
+      throw new DecodeError(path, "JSON string", value)
+    }
+    return decoder(parsed, path)
+  }
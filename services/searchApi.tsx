@@ -0,0 +1,85 @@
+import { api } from "."
+import type { Micropost } from "./micropostApi"
+
+// What a search can look for, in the order of the search screen tabs
+export type SearchType = "users" | "posts" | "hashtags"
+
+export const SEARCH_TYPES: SearchType[] = ["users", "posts", "hashtags"]
+
+export interface UserResult {
+  readonly id: string
+  name: string
+  email?: string
+  avatar?: string
+  gravatar_id?: string
+}
+
+export interface HashtagResult {
+  // Without the leading "#"
+  name: string
+  posts_count: number
+}
+
+// One page of the results of one type
+export interface SearchPage<T> {
+  items: T[]
+  // Continues this type's results; missing on the last page
+  next_cursor?: string
+  total_count: number
+}
+
+export interface SearchResponse {
+  users?: SearchPage<UserResult>
+  posts?: SearchPage<Micropost>
+  hashtags?: SearchPage<HashtagResult>
+}
+
+export interface SearchParams {
+  q: string
+  // Comma separated search types
+  types: string
+  cursor?: string
+  limit?: number
+}
+
+export interface SearchOptions {
+  // Types to search; all of them by default
+  types?: SearchType[]
+  // `next_cursor` of a previous page; a cursor continues one type, so pass it with that type only
+  cursor?: string
+  limit?: number
+  signal?: AbortSignal
+}
+
+/**
+ * Search API service
+ * Finds users by name, posts by content and hashtags in one request
+ */
+const searchApi = {
+  /**
+   * Search users, posts and hashtags
+   * @param query Search terms; every term must match
+   * @param options Types to search, cursor of the next page and abort signal
+   * @returns Promise with one page of results per requested type
+   */
+  search(query: string, { types = SEARCH_TYPES, cursor, limit, signal }: SearchOptions = {}): Promise<SearchResponse> {
+    return api.search.index({ query: { q: query, types: types.join(","), cursor, limit }, signal })
+  },
+
+  /**
+   * Find the user a plain "@name" mention refers to
+   * @param name Mentioned name, without "@"
+   * @returns Promise with the user whose name matches once spaces are dropped, or the only user found; null otherwise
+   */
+  async findMentionedUser(name: string): Promise<UserResult | null> {
+    const response = await searchApi.search(name, { types: ["users"], limit: 5 })
+    const users = response.users?.items || []
+    const wanted = name.toLowerCase()
+    return (
+      users.find((user) => user.name.replace(/\s+/g, "").toLowerCase() === wanted) ||
+      (users.length === 1 ? users[0] : null)
+    )
+  },
+}
+
+export default searchApi
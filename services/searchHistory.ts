@@ -0,0 +1,74 @@
+import AsyncStorage from "@react-native-async-storage/async-storage"
+import { logger } from "./debug-utils"
+
+/**
+ * Search history
+ * Recent search queries stored on the device, newest first
+ */
+
+const STORAGE_KEY = "recent-searches"
+const MAX_ENTRIES = 10
+
+const read = async (): Promise<string[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEY)
+    const parsed = stored ? JSON.parse(stored) : []
+    return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === "string") : []
+  } catch (error) {
+    logger.error("Error reading search history", error)
+    return []
+  }
+}
+
+const write = async (queries: string[]): Promise<string[]> => {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(queries))
+  } catch (error) {
+    logger.error("Error saving search history", error)
+  }
+  return queries
+}
+
+const sameQuery = (a: string, b: string) => a.toLowerCase() === b.toLowerCase()
+
+const searchHistory = {
+  /**
+   * Get the recent searches
+   * @returns Promise with the queries, newest first
+   */
+  load(): Promise<string[]> {
+    return read()
+  },
+
+  /**
+   * Record a search; searching again for a query moves it to the top
+   * @param query Search query
+   * @returns Promise with the updated queries
+   */
+  async add(query: string): Promise<string[]> {
+    const trimmed = query.trim()
+    const queries = await read()
+    if (!trimmed) return queries
+
+    return write([trimmed, ...queries.filter((item) => !sameQuery(item, trimmed))].slice(0, MAX_ENTRIES))
+  },
+
+  /**
+   * Forget one search
+   * @param query Search query
+   * @returns Promise with the updated queries
+   */
+  async remove(query: string): Promise<string[]> {
+    const queries = await read()
+    return write(queries.filter((item) => !sameQuery(item, query)))
+  },
+
+  /**
+   * Forget every search, e.g. on logout
+   */
+  async clear(): Promise<void> {
+    await AsyncStorage.removeItem(STORAGE_KEY)
+  },
+}
+
+export default searchHistory
@@ -1,4 +1,4 @@
-import API from "."
+import { api } from "."
 import AsyncStorage from "@react-native-async-storage/async-storage"
 import type { User } from "../redux/session/sessionSlice"
 
@@ -27,12 +27,10 @@ export interface Response<T> {
     }
   }
   flash?: [message_type: string, message: string]
-  error?: string[]
-  status?: number
-  message?: string
-  errors?: {
-    [key: string]: string[]
-  }
+}
+
+export interface CurrentSessionResponse {
+  user: User
 }
 
 /**
@@ -44,91 +42,47 @@ const sessionApi = {
    * Login user
    * @param params Login credentials
    * @returns Promise with user data and tokens
+   * @throws AuthError when the credentials are wrong, or another ApiError
    */
   async create(params: SessionParams): Promise<Response<User>> {
-    const url = "/login"
-
-    try {
-      // Using the enhanced API service
-      const response = await API.post(url, params)
+    // A 401 here means bad credentials, not an expired token
+    const response = await api.sessions.login({ body: params, config: { skipAuthRefresh: true } })
 
-      // Store tokens in AsyncStorage if login is successful
-      if (response?.tokens?.access?.token) {
-        await AsyncStorage.setItem("token", response.tokens.access.token)
+    // Store tokens in AsyncStorage if login is successful
+    if (response?.tokens?.access?.token) {
+      await AsyncStorage.setItem("token", response.tokens.access.token)
 
-        if (response.tokens.refresh?.token) {
-          await AsyncStorage.setItem("remember_token", response.tokens.refresh.token)
-        }
-      }
-
-      return response
-    } catch (error: any) {
-      // Enhanced error handling
-      if (error.response) {
-        // The request was made and the server responded with a status code
-        // that falls out of the range of 2xx
-        return {
-          status: error.response.status,
-          message: error.response.data?.message || "Login failed",
-          errors: error.response.data?.errors || {},
-        }
-      } else if (error.request) {
-        // The request was made but no response was received
-        return {
-          status: 0,
-          message: "No response from server. Please check your connection.",
-          errors: {},
-        }
-      } else {
-        // Something happened in setting up the request
-        return {
-          status: 0,
-          message: error.message || "An unexpected error occurred",
-          errors: {},
-        }
+      if (response.tokens.refresh?.token) {
+        await AsyncStorage.setItem("remember_token", response.tokens.refresh.token)
       }
     }
+
+    return response
   },
 
   /**
-   * Logout user
-   * @returns Promise with logout result
+   * Get the user of the current session
+   * @returns Promise with the current user
    */
-  async destroy(): Promise<any> {
-    const url = "/logout"
+  current(): Promise<CurrentSessionResponse> {
+    return api.sessions.current()
+  },
 
+  /**
+   * Logout user. Local tokens are cleared even if the request fails.
+   * @returns Promise with logout result
+   * @throws ApiError if the server could not be told
+   */
+  async destroy(): Promise<Response<User>> {
     try {
-      // Using the enhanced API service
-      const response = await API.delete(url)
-
-      // Clear tokens from AsyncStorage on logout
-      await AsyncStorage.removeItem("token")
-      await AsyncStorage.removeItem("remember_token")
-
-      return response
-    } catch (error: any) {
-      // Even if the API call fails, we should still clear local tokens
+      return await api.sessions.logout()
+    } finally {
       try {
         await AsyncStorage.removeItem("token")
         await AsyncStorage.removeItem("remember_token")
       } catch (storageError) {
         console.error("Failed to clear tokens from storage", storageError)
       }
-
-      // Return error information
-      if (error.response) {
-        return {
-          status: error.response.status,
-          message: error.response.data?.message || "Logout failed",
-          errors: error.response.data?.errors || {},
-        }
-      } else {
-        return {
-          status: 0,
-          message: error.message || "An unexpected error occurred during logout",
-          errors: {},
-        }
-      }
     }
   },
 
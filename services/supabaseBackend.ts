@@ -0,0 +1,491 @@
+import AsyncStorage from "@react-native-async-storage/async-storage"
+import { isAuthApiError, isAuthRetryableFetchError } from "@supabase/supabase-js"
+import { supabase } from "../lib/supabase"
+import type { Backend } from "./backend"
+import { logger } from "./debug-utils"
+import { sanitizeHtml } from "../helpers/html"
+import { postBodyHtml, type PostFormat } from "../helpers/postFormat"
+import type { User } from "../redux/session/sessionSlice"
+import type { AttachmentInput, AttachmentType, Comment, Micropost } from "./micropostApi"
+import type { Notification, NotificationData } from "./notificationApi"
+import {
+  ApiError,
+  AuthError,
+  NetworkError,
+  NotFoundError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+} from "./apiErrors"
+
+/**
+ * Supabase backend
+ * Backend served by the tables of schema.sql, mapped to the types of the REST API
+ */
+
+// Same page size as the Rails feed
+const PAGE_SIZE = 5
+const BUCKET = "uploads"
+
+const USER_COLUMNS = "id, name, image, email, bio, address, phoneNumber"
+const POST_COLUMNS = `*, user: users (${USER_COLUMNS}), postLikes (userId), comments (count)`
+
+interface UserRow {
+  id: string
+  name: string | null
+  image: string | null
+  email: string | null
+  bio: string | null
+  address: string | null
+  phoneNumber: string | null
+}
+
+interface PostRow {
+  id: number
+  created_at: string
+  body: string | null
+  file: string | null
+  userId: string
+  user: UserRow | null
+  postLikes: Array<{ userId: string }>
+  comments: Array<{ count: number }>
+}
+
+interface CommentRow {
+  id: number
+  created_at: string
+  text: string | null
+  user: UserRow | null
+}
+
+interface NotificationRow {
+  id: number
+  created_at: string
+  title: string | null
+  data: string | null
+  sender: UserRow | null
+}
+
+interface SupabaseFailure {
+  message: string
+  code?: string
+  status?: number
+}
+
+interface SupabaseResult<T> {
+  data: T | null
+  error: SupabaseFailure | null
+  status?: number
+  count?: number | null
+}
+
+/**
+ * Turn a PostgREST, storage or auth failure into an ApiError
+ * @param error Error returned by the Supabase client
+ * @param endpoint Operation, e.g. "select posts"
+ * @returns The matching ApiError subclass
+ */
+const toApiError = (error: SupabaseFailure, endpoint: string): ApiError => {
+  const status = error.status ?? 0
+  const { message, code } = error
+
+  if (isAuthRetryableFetchError(error) || /network request failed|failed to fetch/i.test(message)) {
+    return new NetworkError(undefined, endpoint)
+  }
+  // `.single()` found no row
+  if (code === "PGRST116" || status === 404) return new NotFoundError(undefined, endpoint)
+  // Expired JWT, or denied by a row level security policy
+  if (code === "PGRST301" || code === "42501" || status === 401 || status === 403) {
+    return new AuthError(message, status || 401, endpoint)
+  }
+  if (status === 408 || status === 504) return new TimeoutError(message, status, endpoint)
+  // Constraint violations (23xxx) are the database's validation errors
+  if (code?.startsWith("23") || status === 400 || status === 409 || status === 422) {
+    return new ValidationError(message, { base: [message] }, status || 422, endpoint)
+  }
+  return new ServerError(message, status || 500, endpoint)
+}
+
+const unwrap = <T = unknown>(result: SupabaseResult<unknown>, endpoint: string): T => {
+  if (result.error) {
+    throw toApiError({ ...result.error, status: result.error.status ?? result.status }, endpoint)
+  }
+  return result.data as T
+}
+
+const countOf = (result: SupabaseResult<unknown>, endpoint: string): number => {
+  unwrap(result, endpoint)
+  return result.count ?? 0
+}
+
+const currentUserId = async (): Promise<string> => {
+  const { data } = await supabase.auth.getSession()
+  const id = data.session?.user.id
+  if (!id) throw new AuthError()
+  return id
+}
+
+// Files are stored as paths in the public bucket
+const fileUrl = (path: string | null | undefined): string | undefined => {
+  if (!path) return undefined
+  if (/^https?:\/\//.test(path)) return path
+  return supabase.storage.from(BUCKET).getPublicUrl(path).data.publicUrl
+}
+
+const uploadFile = async (folder: string, file: Blob): Promise<string> => {
+  const extension = file.type?.split("/")[1] || "jpeg"
+  const path = `${folder}/${Date.now()}.${extension}`
+  const result = await supabase.storage.from(BUCKET).upload(path, file, { contentType: file.type, upsert: false })
+  return unwrap<{ path: string }>(result, "upload file").path
+}
+
+const toUser = (row: UserRow): User => ({
+  id: row.id,
+  email: row.email || "",
+  name: row.name || "User",
+  role: false,
+  image: row.image,
+  avatar: fileUrl(row.image),
+  bio: row.bio || undefined,
+  address: row.address || undefined,
+  phoneNumber: row.phoneNumber || undefined,
+})
+
+const toAuthor = (row: UserRow | null, fallbackId: string) => ({
+  id: row?.id || fallbackId,
+  name: row?.name || "User",
+  avatar: fileUrl(row?.image),
+})
+
+const toMicropost = (row: PostRow): Micropost => ({
+  id: row.id,
+  content: row.body || "",
+  image: fileUrl(row.file),
+  attachments: row.file
+    ? [
+        {
+          id: row.id,
+          url: fileUrl(row.file) as string,
+          type: /\.(mp4|mov|m4v|webm)$/i.test(row.file) ? "video" : "image",
+        },
+      ]
+    : [],
+  timestamp: row.created_at,
+  created_at: row.created_at,
+  user_id: row.userId,
+  user_name: row.user?.name || undefined,
+  user: toAuthor(row.user, row.userId),
+  postLikes: row.postLikes || [],
+  comments: row.comments?.length ? row.comments : [{ count: 0 }],
+})
+
+// The posts table has no format column: bodies written in other formats are stored rendered to HTML
+const storedBody = (content: string, format?: PostFormat) =>
+  format && format !== "html" ? sanitizeHtml(postBodyHtml(content, format)) : content
+
+// The posts table holds a single file per post
+const singleAttachment = (attachments: AttachmentInput[] = []): AttachmentInput | undefined => {
+  if (attachments.length > 1) {
+    throw new ValidationError("Posts on this server can have one attachment", {
+      attachments: ["can only hold one file on this server"],
+    })
+  }
+  return attachments[0]
+}
+
+const uploadAttachment = (attachment: { file: Blob; type: AttachmentType }) =>
+  uploadFile(attachment.type === "video" ? "postVideos" : "postImages", attachment.file)
+
+const toComment = (row: CommentRow): Comment => ({
+  id: row.id,
+  content: row.text || "",
+  user: row.user ? toAuthor(row.user, row.user.id) : undefined,
+  created_at: row.created_at,
+})
+
+const parseNotificationData = (data: string | null): NotificationData => {
+  try {
+    return data ? JSON.parse(data) : { postId: 0 }
+  } catch {
+    return { postId: 0 }
+  }
+}
+
+// notifications has no read column: everything created before the last "mark all as read" counts as read
+const readAtKey = (userId: string) => `notifications-read-at:${userId}`
+
+const getReadAt = async (userId: string): Promise<string> =>
+  (await AsyncStorage.getItem(readAtKey(userId))) || new Date(0).toISOString()
+
+const supabaseBackend: Backend = {
+  auth: {
+    async login({ email, password }) {
+      const { data, error } = await supabase.auth.signInWithPassword({ email, password })
+      if (error) {
+        // Wrong credentials come back as a 400
+        if (isAuthApiError(error) && error.status === 400) throw new AuthError(error.message, 401, "sign in")
+        throw toApiError(error, "sign in")
+      }
+
+      // The session itself lives in the Supabase client; the token only marks the app as signed in
+      await AsyncStorage.setItem("token", data.session.access_token)
+      const row = unwrap<UserRow>(
+        await supabase.from("users").select(USER_COLUMNS).eq("id", data.user.id).single(),
+        "select user",
+      )
+
+      return {
+        user: toUser(row),
+        tokens: { accessToken: data.session.access_token, refreshToken: data.session.refresh_token },
+      }
+    },
+
+    async currentUser() {
+      const id = await currentUserId()
+      const row = unwrap<UserRow>(
+        await supabase.from("users").select(USER_COLUMNS).eq("id", id).single(),
+        "select user",
+      )
+      return toUser(row)
+    },
+
+    async logout() {
+      try {
+        const { error } = await supabase.auth.signOut()
+        if (error) throw toApiError(error, "sign out")
+      } finally {
+        await AsyncStorage.removeItem("token")
+      }
+    },
+
+    async signUp({ name, email, password, password_confirmation }) {
+      if (password !== password_confirmation) {
+        throw new ValidationError("The form contains errors", { password_confirmation: ["doesn't match Password"] })
+      }
+      // The handle_new_user trigger creates the users row from the metadata
+      const { error } = await supabase.auth.signUp({ email, password, options: { data: { name } } })
+      if (error) {
+        if (isAuthApiError(error) && (error.status === 400 || error.status === 422)) {
+          throw new ValidationError(error.message, { base: [error.message] }, error.status, "sign up")
+        }
+        throw toApiError(error, "sign up")
+      }
+    },
+  },
+
+  users: {
+    async get(id) {
+      const [userResult, followResult] = await Promise.all([
+        supabase.from("users").select(USER_COLUMNS).eq("id", id).single(),
+        supabase
+          .from("follows")
+          .select("id", { count: "exact", head: true })
+          .eq("followerId", await currentUserId())
+          .eq("followedId", id),
+      ])
+      const row = unwrap<UserRow>(userResult, "select user")
+      return {
+        ...toAuthor(row, id),
+        bio: row.bio || undefined,
+        followed: countOf(followResult, "count follows") > 0,
+      }
+    },
+  },
+
+  feed: {
+    async list({ page = 1, before, after, limit = PAGE_SIZE, userId }) {
+      const ownerId = userId || (await currentUserId())
+      // Cursors replace the page offset
+      const from = before === undefined && after === undefined ? (page - 1) * limit : 0
+
+      // IDs grow with time, so ordering by ID keeps the cursors consistent with the order
+      let posts = supabase
+        .from("posts")
+        .select(POST_COLUMNS, { count: "exact" })
+        .order("id", { ascending: false })
+        .range(from, from + limit - 1)
+      // Everybody's posts on the home feed, like the original Supabase app
+      if (userId) posts = posts.eq("userId", userId)
+      if (before !== undefined) posts = posts.lt("id", before)
+      if (after !== undefined) posts = posts.gt("id", after)
+
+      const [postsResult, micropostResult, followersResult, followingResult] = await Promise.all([
+        posts,
+        supabase.from("posts").select("id", { count: "exact", head: true }).eq("userId", ownerId),
+        supabase.from("follows").select("id", { count: "exact", head: true }).eq("followedId", ownerId),
+        supabase.from("follows").select("id", { count: "exact", head: true }).eq("followerId", ownerId),
+      ])
+
+      const rows = unwrap<PostRow[]>(postsResult, "select posts")
+      return {
+        feed_items: rows.map(toMicropost),
+        followers: countOf(followersResult, "count followers"),
+        following: countOf(followingResult, "count following"),
+        gravatar: "",
+        micropost: countOf(micropostResult, "count posts"),
+        total_count: postsResult.count ?? rows.length,
+      }
+    },
+  },
+
+  posts: {
+    async get(id) {
+      const row = unwrap<PostRow>(
+        await supabase.from("posts").select(POST_COLUMNS).eq("id", id).single(),
+        "select post",
+      )
+      return toMicropost(row)
+    },
+
+    async create({ content, format, attachments, mentionIds }) {
+      const userId = await currentUserId()
+      const attachment = singleAttachment(attachments)
+      const file = attachment && "file" in attachment ? await uploadAttachment(attachment) : null
+      const row = unwrap<PostRow>(
+        await supabase
+          .from("posts")
+          .insert({ body: storedBody(content, format), file, userId })
+          .select(POST_COLUMNS)
+          .single(),
+        "insert post",
+      )
+
+      const receivers = [...new Set(mentionIds || [])].filter((receiverId) => receiverId !== userId)
+      if (receivers.length > 0) {
+        const data = JSON.stringify({ postId: row.id })
+        const result = await supabase
+          .from("notifications")
+          .insert(
+            receivers.map((receiverId) => ({ title: "mentioned you in a post", senderId: userId, receiverId, data })),
+          )
+        // The post is created either way; a missed notification is not worth failing it
+        if (result.error) logger.warn("Failed to notify mentioned users", result.error)
+      }
+      return toMicropost(row)
+    },
+
+    async update(id, { content, format, attachments }) {
+      const changes: { body?: string; file?: string | null } = {}
+      if (content !== undefined) changes.body = storedBody(content, format)
+      if (attachments) {
+        // The kept attachment is the file the post already has
+        const attachment = singleAttachment(attachments)
+        if (!attachment) changes.file = null
+        else if ("file" in attachment) changes.file = await uploadAttachment(attachment)
+      }
+
+      const row = unwrap<PostRow>(
+        await supabase.from("posts").update(changes).eq("id", id).select(POST_COLUMNS).single(),
+        "update post",
+      )
+      return toMicropost(row)
+    },
+
+    async remove(id) {
+      unwrap(await supabase.from("posts").delete().eq("id", id), "delete post")
+    },
+  },
+
+  likes: {
+    async like(postId) {
+      const userId = await currentUserId()
+      unwrap(await supabase.from("postLikes").insert({ postId, userId }), "insert like")
+    },
+
+    async unlike(postId) {
+      const userId = await currentUserId()
+      unwrap(await supabase.from("postLikes").delete().eq("postId", postId).eq("userId", userId), "delete like")
+    },
+  },
+
+  comments: {
+    async list(postId) {
+      const rows = unwrap<CommentRow[]>(
+        await supabase
+          .from("comments")
+          .select(`*, user: users (${USER_COLUMNS})`)
+          .eq("postId", postId)
+          .order("created_at", { ascending: false }),
+        "select comments",
+      )
+      return rows.map(toComment)
+    },
+
+    async add(postId, content) {
+      const userId = await currentUserId()
+      const row = unwrap<CommentRow>(
+        await supabase
+          .from("comments")
+          .insert({ text: content, postId, userId })
+          .select(`*, user: users (${USER_COLUMNS})`)
+          .single(),
+        "insert comment",
+      )
+      return toComment(row)
+    },
+  },
+
+  follows: {
+    async follow(userId) {
+      const followerId = await currentUserId()
+      const result = await supabase.from("follows").insert({ followerId, followedId: userId })
+      // Already following
+      if (result.error?.code === "23505") return
+      unwrap(result, "insert follow")
+    },
+
+    async unfollow(userId) {
+      const followerId = await currentUserId()
+      unwrap(
+        await supabase.from("follows").delete().eq("followerId", followerId).eq("followedId", userId),
+        "delete follow",
+      )
+    },
+  },
+
+  notifications: {
+    async list({ page }) {
+      const userId = await currentUserId()
+      const from = (page - 1) * PAGE_SIZE
+      const [result, readAt] = await Promise.all([
+        supabase
+          .from("notifications")
+          .select(`*, sender: users!notifications_senderId_fkey (${USER_COLUMNS})`)
+          .eq("receiverId", userId)
+          .order("created_at", { ascending: false })
+          .range(from, from + PAGE_SIZE - 1),
+        getReadAt(userId),
+      ])
+
+      return unwrap<NotificationRow[]>(result, "select notifications").map((row): Notification => ({
+        id: row.id,
+        title: row.title || "",
+        content: row.title || "",
+        read: row.created_at <= readAt,
+        created_at: row.created_at,
+        updated_at: row.created_at,
+        sender: row.sender
+          ? { ...toAuthor(row.sender, row.sender.id), image: row.sender.image || undefined }
+          : undefined,
+        data: parseNotificationData(row.data),
+      }))
+    },
+
+    async unreadCount() {
+      const userId = await currentUserId()
+      const result = await supabase
+        .from("notifications")
+        .select("id", { count: "exact", head: true })
+        .eq("receiverId", userId)
+        .gt("created_at", await getReadAt(userId))
+      return countOf(result, "count notifications")
+    },
+
+    async markAllAsRead() {
+      const userId = await currentUserId()
+      await AsyncStorage.setItem(readAtKey(userId), new Date().toISOString())
+    },
+  },
+}
+
+export default supabaseBackend
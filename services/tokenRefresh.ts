@@ -0,0 +1,158 @@
+import type { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from "axios"
+import AsyncStorage from "@react-native-async-storage/async-storage"
+import { logger } from "./debug-utils"
+import { toApiError } from "./apiErrors"
+import endpoints from "./endpoints"
+
+// Extra per-request flags understood by the refresh interceptor
+declare module "axios" {
+  interface AxiosRequestConfig {
+    // Never try to refresh tokens for this request (login, refresh itself)
+    skipAuthRefresh?: boolean
+    // Set once a request has been replayed after a refresh
+    _retry?: boolean
+  }
+}
+
+export interface RefreshedTokens {
+  accessToken: string
+  refreshToken?: string
+}
+
+export interface RefreshTokenResponse {
+  tokens?: {
+    access: {
+      token: string
+      expires: string
+    }
+    refresh?: {
+      token: string
+      expires: string
+    }
+  }
+}
+
+interface TokenRefreshHandlers {
+  onRefreshed?: (tokens: RefreshedTokens) => void
+  onRefreshFailed?: (error: unknown) => void
+}
+
+const REFRESH_URL = endpoints.sessions.refreshToken.path
+
+let handlers: TokenRefreshHandlers = {}
+
+// The refresh currently in flight, shared by every request that hit a 401 meanwhile
+let refreshPromise: Promise<RefreshedTokens> | null = null
+
+/**
+ * Register callbacks fired after a refresh succeeds or the refresh token is rejected.
+ * The store uses this to keep the session slice in sync without a circular import.
+ * @param nextHandlers Callbacks to register
+ */
+export const setTokenRefreshHandlers = (nextHandlers: TokenRefreshHandlers) => {
+  handlers = nextHandlers
+}
+
+// Only the refresh endpoint turning the token down ends the session; network and server errors may pass
+const isRefreshRejected = (error: unknown) => toApiError(error).kind === "auth"
+
+const requestNewTokens = async (apiClient: AxiosInstance): Promise<RefreshedTokens> => {
+  const refreshToken = await AsyncStorage.getItem("remember_token")
+  if (!refreshToken) {
+    throw new Error("No refresh token available")
+  }
+
+  // The response interceptor of the API instance already unwraps `response.data`
+  const response = (await apiClient.post(
+    REFRESH_URL,
+    { token: refreshToken },
+    { skipAuthRefresh: true },
+  )) as RefreshTokenResponse
+
+  if (!response?.tokens?.access?.token) {
+    throw new Error("Invalid response from refresh token endpoint")
+  }
+
+  const tokens: RefreshedTokens = {
+    accessToken: response.tokens.access.token,
+    refreshToken: response.tokens.refresh?.token,
+  }
+
+  // Persist before replaying: the request interceptor reads the token from storage
+  await AsyncStorage.setItem("token", tokens.accessToken)
+  if (tokens.refreshToken) {
+    await AsyncStorage.setItem("remember_token", tokens.refreshToken)
+  }
+
+  return tokens
+}
+
+/**
+ * Refresh the access token, sharing a single request between all concurrent callers
+ * @param apiClient Axios instance used to call the refresh endpoint
+ * @returns Promise with the new tokens
+ */
+export const refreshAccessToken = (apiClient: AxiosInstance): Promise<RefreshedTokens> => {
+  if (!refreshPromise) {
+    refreshPromise = requestNewTokens(apiClient)
+      .then((tokens) => {
+        logger.success("Access token refreshed")
+        handlers.onRefreshed?.(tokens)
+        return tokens
+      })
+      .catch(async (error) => {
+        logger.error("Token refresh failed", error)
+        if (isRefreshRejected(error)) {
+          await AsyncStorage.multiRemove(["token", "remember_token"])
+          handlers.onRefreshFailed?.(error)
+        }
+        throw error
+      })
+      .finally(() => {
+        refreshPromise = null
+      })
+  }
+
+  return refreshPromise
+}
+
+/**
+ * Retry requests rejected with 401 once the access token has been refreshed.
+ * Must be registered after the instance's own response interceptor.
+ * @param apiClient Axios instance to attach the interceptor to
+ */
+export const setupTokenRefreshInterceptor = (apiClient: AxiosInstance) => {
+  apiClient.interceptors.response.use(
+    (data) => data,
+    async (error: AxiosError) => {
+      const originalRequest = error.config as InternalAxiosRequestConfig | undefined
+
+      if (
+        error.response?.status !== 401 ||
+        !originalRequest ||
+        originalRequest.skipAuthRefresh ||
+        originalRequest._retry
+      ) {
+        return Promise.reject(error)
+      }
+
+      // Nothing to refresh with (logged out, or a previous refresh was rejected)
+      const hasRefreshToken = await AsyncStorage.getItem("remember_token")
+      if (!hasRefreshToken) {
+        return Promise.reject(error)
+      }
+
+      originalRequest._retry = true
+
+      try {
+        await refreshAccessToken(apiClient)
+      } catch (refreshError) {
+        // A rejected refresh fails the request with its 401; otherwise with why the refresh could not be made
+        return Promise.reject(isRefreshRejected(refreshError) ? error : refreshError)
+      }
+
+      // Replay through the instance so the request interceptor attaches the new token
+      return apiClient(originalRequest)
+    },
+  )
+}
@@ -0,0 +1,84 @@
+import { api } from "."
+import type { Attachment, AttachmentMeta, AttachmentType } from "./micropostApi"
+
+// A resumable upload: the file is sent in chunks, each starting at the offset the server has reached
+export interface UploadSession {
+  readonly id: string
+  // Size of the whole file in bytes
+  size: number
+  // Bytes the server has received; the next chunk starts here
+  offset: number
+  // Chunk size the server prefers, in bytes
+  chunk_size: number
+  // Set once every byte is in: posts refer to it by ID
+  attachment?: Attachment
+}
+
+export interface CreateParams extends AttachmentMeta {
+  filename: string
+  type: AttachmentType
+  mime_type: string
+  size: number
+}
+
+export interface ChunkOptions {
+  signal?: AbortSignal
+  // Bytes of the chunk sent so far
+  onProgress?: (sent: number) => void
+}
+
+// Chunks of large videos take longer than the default request timeout
+const CHUNK_TIMEOUT = 60000
+
+/**
+ * Upload API service
+ * Provides methods for resumable chunked uploads of post attachments
+ */
+const uploadApi = {
+  /**
+   * Start an upload
+   * @param params File name, type and size
+   * @returns Promise with the new upload, at offset 0
+   */
+  create(params: CreateParams): Promise<UploadSession> {
+    return api.uploads.create({ body: params })
+  },
+
+  /**
+   * Get how far an upload has come, e.g. to resume it
+   * @param id Upload ID
+   * @returns Promise with the upload
+   */
+  show(id: string): Promise<UploadSession> {
+    return api.uploads.show({ params: { id } })
+  },
+
+  /**
+   * Send the next chunk of an upload
+   * @param id Upload ID
+   * @param offset Position of the chunk in the file; must be the upload's offset
+   * @param chunk Bytes of the file from `offset`
+   * @param options Abort signal and progress callback
+   * @returns Promise with the upload, holding its attachment after the last chunk
+   */
+  sendChunk(
+    id: string,
+    offset: number,
+    chunk: ArrayBuffer,
+    { signal, onProgress }: ChunkOptions = {},
+  ): Promise<UploadSession> {
+    return api.uploads.chunk({
+      params: { id },
+      query: { offset },
+      body: chunk,
+      signal,
+      config: {
+        headers: { "Content-Type": "application/octet-stream" },
+        timeout: CHUNK_TIMEOUT,
+        onUploadProgress: onProgress ? (event) => onProgress(event.loaded) : undefined,
+      },
+    })
+  },
+}
+
+export default uploadApi
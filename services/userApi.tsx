@@ -1,4 +1,5 @@
-import API from "."
+import { api } from "."
+import queryCache from "./queryCache"
 import type { Micropost } from "./micropostApi"
 import type { User as UserCreate } from "../redux/session/sessionSlice"
 
@@ -30,14 +31,10 @@ export interface SignUpField {
   password_confirmation: string
 }
 
+// Failures reject with an ApiError; validation errors come as a ValidationError
 export interface CreateResponse<UserCreate> {
   user?: UserCreate
   flash?: [message_type: string, message: string]
-  status?: number
-  message?: string
-  errors: {
-    [key: string]: string[]
-  }
 }
 
 export interface UserShow {
@@ -69,7 +66,7 @@ export interface EditResponse {
 }
 
 export interface UpdateParams {
-  user: UpdateField
+  user: Partial<UpdateField>
 }
 
 export interface UpdateField {
@@ -77,11 +74,14 @@ export interface UpdateField {
   email: string
   password: string
   password_confirmation: string
+  phoneNumber: string
+  address: string
+  bio: string
+  avatar: string
 }
 
 export interface UpdateResponse {
   flash_success?: [message_type: string, message: string]
-  error?: string[]
 }
 
 export interface Response {
@@ -118,8 +118,7 @@ const userApi = {
    * @returns Promise with list of users
    */
   index(params: ListParams): Promise<ListResponse<User>> {
-    const url = "/users"
-    return API.get(url, { params })
+    return api.users.index({ query: params })
   },
 
   /**
@@ -128,8 +127,16 @@ const userApi = {
    * @returns Promise with created user
    */
   create(params: CreateParams): Promise<CreateResponse<UserCreate>> {
-    const url = "/users"
-    return API.post(url, params)
+    return api.users.create({ body: params })
+  },
+
+  /**
+   * Register a new account from the sign up screen
+   * @param params User data
+   * @returns Promise with created user or validation errors
+   */
+  signup(params: CreateParams): Promise<CreateResponse<UserCreate>> {
+    return api.users.signup({ body: params })
   },
 
   /**
@@ -139,8 +146,7 @@ const userApi = {
    * @returns Promise with user details
    */
   show(id: string, params: ListParams): Promise<ShowResponse<UserShow>> {
-    const url = `/users/${id}`
-    return API.get(url, { params })
+    return queryCache.fetch(["users.show", { id, ...params }], () => api.users.show({ params: { id }, query: params }))
   },
 
   /**
@@ -149,8 +155,7 @@ const userApi = {
    * @returns Promise with user edit data
    */
   edit(id: string): Promise<EditResponse> {
-    const url = `/users/${id}/edit`
-    return API.get(url)
+    return api.users.edit({ params: { id } })
   },
 
   /**
@@ -160,8 +165,7 @@ const userApi = {
    * @returns Promise with response
    */
   update(id: string, params: UpdateParams): Promise<UpdateResponse> {
-    const url = `/users/${id}`
-    return API.patch(url, params)
+    return queryCache.afterMutation(api.users.update({ params: { id }, body: params }), ["users.show", { id }])
   },
 
   /**
@@ -170,8 +174,7 @@ const userApi = {
    * @returns Promise with response
    */
   destroy(id: string): Promise<Response> {
-    const url = `/users/${id}`
-    return API.delete(url)
+    return queryCache.afterMutation(api.users.destroy({ params: { id } }), ["users.show", { id }])
   },
 
   /**
@@ -182,18 +185,19 @@ const userApi = {
    * @returns Promise with followers/following data
    */
   follow(id: string, page: number, lastUrlSegment: string): Promise<FollowResponse<UserFollow, IUserFollow>> {
-    const url = `/users/${id}/${lastUrlSegment}`
-    return API.get(url, { params: { page } })
+    return queryCache.fetch(["users.follow", { id, relation: lastUrlSegment, page }], () =>
+      api.users.follow({ params: { id, relation: lastUrlSegment }, query: { page } }),
+    )
   },
 
   /**
    * Search for users
    * @param query Search query
+   * @param signal Cancels the request, e.g. once a newer query supersedes it
    * @returns Promise with search results
    */
-  search(query: string): Promise<User[]> {
-    const url = "/users/search"
-    return API.get(url, { params: { query } })
+  search(query: string, signal?: AbortSignal): Promise<User[]> {
+    return api.users.search({ query: { query }, signal })
   },
 
   /**
@@ -202,13 +206,15 @@ const userApi = {
    * @returns Promise with response
    */
   uploadAvatar(avatar: Blob): Promise<Response> {
-    const url = "/users/upload-avatar"
     const formData = new FormData()
     formData.append("avatar", avatar)
 
-    return API.post(url, formData, {
-      headers: {
-        "Content-Type": "multipart/form-data",
+    return api.users.uploadAvatar({
+      body: formData,
+      config: {
+        headers: {
+          "Content-Type": "multipart/form-data",
+        },
       },
     })
   },
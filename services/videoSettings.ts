@@ -0,0 +1,71 @@
+import AsyncStorage from "@react-native-async-storage/async-storage"
+import { logger } from "./debug-utils"
+
+/**
+ * Video settings
+ * Whether feed videos play with sound, remembered on the device and shared by every player
+ */
+
+type MutedListener = (muted: boolean) => void
+
+const STORAGE_KEY = "video-muted"
+
+// Videos start muted until the user turns the sound on
+let muted = true
+let loaded: Promise<void> | null = null
+const listeners = new Set<MutedListener>()
+
+const notify = () => listeners.forEach((listener) => listener(muted))
+
+const load = (): Promise<void> => {
+  if (!loaded) {
+    loaded = AsyncStorage.getItem(STORAGE_KEY)
+      .then((stored) => {
+        if (stored !== null) muted = stored === "true"
+      })
+      .catch((error) => logger.error("Error reading video settings", error))
+      .then(notify)
+  }
+  return loaded
+}
+
+const videoSettings = {
+  /**
+   * Get whether videos are muted
+   * @returns The current setting; the stored one once loaded
+   */
+  isMuted(): boolean {
+    return muted
+  },
+
+  /**
+   * Mute or unmute every video, and remember it
+   * @param value Whether videos are muted
+   */
+  async setMuted(value: boolean): Promise<void> {
+    await load()
+    muted = value
+    notify()
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, String(value))
+    } catch (error) {
+      logger.error("Error saving video settings", error)
+    }
+  },
+
+  /**
+   * Listen for the setting, e.g. to keep a player in line when another one is unmuted
+   * @param listener Called with the setting now and after each change
+   * @returns Function removing the listener
+   */
+  subscribe(listener: MutedListener): () => void {
+    listeners.add(listener)
+    listener(muted)
+    load()
+    return () => {
+      listeners.delete(listener)
+    }
+  },
+}
+
+export default videoSettings